@@ -1,48 +1,327 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
+interface IERC20 {
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+    function transfer(address to, uint256 amount) external returns (bool);
+}
+
 contract RentAgent {
     address public owner;
 
-    event AgentUploaded(string cid, address indexed uploader, uint256 price);
-    event AgentRented(string cid, address indexed renter, uint256 price);
+    enum RentalTier { Hourly, Daily, Monthly }
+    uint256 public constant TIER_COUNT = 3;
+
+    uint256 public constant BPS_DENOMINATOR = 10_000;
+    uint256 public constant MAX_PLATFORM_FEE_BPS = 1_000;
+    uint256 public constant MAX_SPLITS = 10;
+    uint256 public constant SUBSCRIPTION_PERIOD = 30 days;
+    // taken from every rental and credited to the contract owner's balance
+    uint256 public platformFeeBps;
+
+    // paymentToken is address(0) for ETH; tier prices are in the payment token's smallest unit
+    event AgentUploaded(string cid, address indexed uploader, uint256[3] tierPrices, address paymentToken);
+    event AgentRented(string cid, address indexed renter, uint256 price, RentalTier tier, uint256 expiresAt);
+    event AgentPriceUpdated(string cid, address indexed uploader, uint256[3] tierPrices);
+    event AgentDelisted(string cid, address indexed uploader);
+    event AgentOwnershipTransferred(string cid, address indexed previousOwner, address indexed newOwner);
+    event Withdrawn(address indexed account, uint256 amount);
+    event TokenWithdrawn(address indexed token, address indexed account, uint256 amount);
+    event PaymentTokenAllowed(address indexed token, bool allowed);
+    event PlatformFeeUpdated(uint256 feeBps);
+    event AgentSplitsSet(string cid, Split[] splits);
+    event AgentContentUpdated(string cid, address indexed uploader, string contentCid);
+    event AgentManifestUpdated(string cid, address indexed uploader, string manifestCid);
+    event SubscriptionPriceSet(address indexed creator, uint256 monthlyPrice, address paymentToken);
+    event Subscribed(address indexed creator, address indexed subscriber, uint256 price, uint256 expiresAt);
+
+    // Collaborator share of the creator's proceeds (rental price minus platform fee)
+    struct Split {
+        address recipient;
+        uint256 shareBps;
+    }
+
+    // A creator's monthly pass covering every agent they own; monthlyPrice 0 means no subscriptions offered
+    struct SubscriptionPlan {
+        uint256 monthlyPrice;
+        address paymentToken;
+    }
 
     struct Agent {
         string cid;
+        // first uploader owns the CID until they transfer it; a delisted agent stays claimed
         address uploader;
-        uint256 price;
+        // price per tier, indexed by RentalTier; 0 means the tier is not offered
+        uint256[3] tierPrices;
+        bool listed;
+        address paymentToken;
     }
 
     mapping(string => Agent) public agents;
     // rentals[cid][renter] = expiryTimestamp
     mapping(string => mapping(address => uint256)) public rentals;
+    // rental income (creator, collaborator and platform shares) held until withdraw()
+    mapping(address => uint256) public balances;
+    // tokenBalances[token][account]: ERC-20 rental income held until withdrawToken(token)
+    mapping(address => mapping(address => uint256)) public tokenBalances;
+    // ERC-20s creators may price agents in, managed by the contract owner
+    mapping(address => bool) public allowedPaymentTokens;
+    // the uploader keeps whatever the splits don't allocate
+    mapping(string => Split[]) private splits;
+    // CID of the agent's current encrypted payload once the uploader re-encrypted it (e.g. to revoke a share);
+    // empty while the payload is still at `cid`. The agent, its rentals and isRenter stay keyed by `cid`.
+    mapping(string => string) public contentCids;
+    // CID of the agent's latest public manifest (metadata + Lit key entries), so renters on any device can
+    // resolve it from the agent's id alone; empty until the uploader publishes one
+    mapping(string => string) public manifestCids;
+    mapping(address => SubscriptionPlan) public subscriptionPlans;
+    // subscriptions[creator][subscriber] = expiryTimestamp
+    mapping(address => mapping(address => uint256)) public subscriptions;
 
     constructor() {
         owner = msg.sender;
     }
 
-    function uploadAgent(string calldata cid, uint256 price) external {
+    function tierDuration(RentalTier tier) public pure returns (uint256) {
+        if (tier == RentalTier.Hourly) return 1 hours;
+        if (tier == RentalTier.Daily) return 1 days;
+        return 30 days;
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "not contract owner");
+        _;
+    }
+
+    function setPlatformFee(uint256 feeBps) external onlyOwner {
+        require(feeBps <= MAX_PLATFORM_FEE_BPS, "fee too high");
+        platformFeeBps = feeBps;
+        emit PlatformFeeUpdated(feeBps);
+    }
+
+    function setPaymentTokenAllowed(address token, bool allowed) external onlyOwner {
+        require(token != address(0), "invalid token");
+        allowedPaymentTokens[token] = allowed;
+        emit PaymentTokenAllowed(token, allowed);
+    }
+
+    modifier onlyUploader(string calldata cid) {
+        address uploader = agents[cid].uploader;
+        require(uploader != address(0), "agent not found");
+        require(uploader == msg.sender, "not agent owner");
+        _;
+    }
+
+    function _requireTierPrices(uint256[3] calldata tierPrices) private pure {
+        require(tierPrices[0] > 0 || tierPrices[1] > 0 || tierPrices[2] > 0, "at least one tier required");
+    }
+
+    // Registers a new CID, or re-lists one the caller already owns; `agentSplits` replaces any previous splits.
+    // Pass address(0) as paymentToken to be paid in ETH.
+    function uploadAgent(string calldata cid, uint256[3] calldata tierPrices, address paymentToken, Split[] calldata agentSplits) external {
         require(bytes(cid).length > 0, "cid required");
-        agents[cid] = Agent({ cid: cid, uploader: msg.sender, price: price });
-        emit AgentUploaded(cid, msg.sender, price);
+        _requireTierPrices(tierPrices);
+        require(paymentToken == address(0) || allowedPaymentTokens[paymentToken], "payment token not allowed");
+        address current = agents[cid].uploader;
+        require(current == address(0) || current == msg.sender, "cid already claimed");
+        agents[cid] = Agent({ cid: cid, uploader: msg.sender, tierPrices: tierPrices, listed: true, paymentToken: paymentToken });
+        _setSplits(cid, agentSplits);
+        emit AgentUploaded(cid, msg.sender, tierPrices, paymentToken);
+    }
+
+    // Registers (or re-lists) an agent only token/NFT holders and subscribers decrypt. No tier is offered, so
+    // rentAgent rejects it with "tier not offered", but the CID is claimed for its manifest and isAgentSubscriber.
+    function uploadGatedAgent(string calldata cid) external {
+        require(bytes(cid).length > 0, "cid required");
+        address current = agents[cid].uploader;
+        require(current == address(0) || current == msg.sender, "cid already claimed");
+        uint256[3] memory noTiers;
+        agents[cid] = Agent({ cid: cid, uploader: msg.sender, tierPrices: noTiers, listed: true, paymentToken: address(0) });
+        delete splits[cid];
+        emit AgentUploaded(cid, msg.sender, noTiers, address(0));
+    }
+
+    function _setSplits(string calldata cid, Split[] calldata agentSplits) private {
+        require(agentSplits.length <= MAX_SPLITS, "too many splits");
+        delete splits[cid];
+        uint256 total;
+        for (uint256 i = 0; i < agentSplits.length; i++) {
+            require(agentSplits[i].recipient != address(0), "invalid split recipient");
+            require(agentSplits[i].shareBps > 0, "empty split share");
+            total += agentSplits[i].shareBps;
+            splits[cid].push(agentSplits[i]);
+        }
+        require(total <= BPS_DENOMINATOR, "splits exceed 100%");
+        if (agentSplits.length > 0) emit AgentSplitsSet(cid, agentSplits);
+    }
+
+    function getSplits(string calldata cid) external view returns (Split[] memory) {
+        return splits[cid];
+    }
+
+    function updatePrice(string calldata cid, uint256[3] calldata tierPrices) external onlyUploader(cid) {
+        _requireTierPrices(tierPrices);
+        agents[cid].tierPrices = tierPrices;
+        emit AgentPriceUpdated(cid, msg.sender, tierPrices);
+    }
+
+    // Stops new rentals; existing rentals run until they expire
+    function delistAgent(string calldata cid) external onlyUploader(cid) {
+        agents[cid].listed = false;
+        emit AgentDelisted(cid, msg.sender);
     }
 
-    function rentAgent(string calldata cid) external payable {
+    function transferAgentOwnership(string calldata cid, address newOwner) external onlyUploader(cid) {
+        require(newOwner != address(0), "new owner required");
+        agents[cid].uploader = newOwner;
+        emit AgentOwnershipTransferred(cid, msg.sender, newOwner);
+    }
+
+    function updateContent(string calldata cid, string calldata contentCid) external onlyUploader(cid) {
+        require(bytes(contentCid).length > 0, "content cid required");
+        contentCids[cid] = contentCid;
+        emit AgentContentUpdated(cid, msg.sender, contentCid);
+    }
+
+    function updateManifest(string calldata cid, string calldata manifestCid) external onlyUploader(cid) {
+        require(bytes(manifestCid).length > 0, "manifest cid required");
+        manifestCids[cid] = manifestCid;
+        emit AgentManifestUpdated(cid, msg.sender, manifestCid);
+    }
+
+    function getTierPrices(string calldata cid) external view returns (uint256[3] memory) {
+        return agents[cid].tierPrices;
+    }
+
+    // ETH agents take msg.value (excess refunded); token agents pull the exact price via transferFrom,
+    // so the renter must approve this contract first
+    function rentAgent(string calldata cid, RentalTier tier) external payable {
         Agent memory a = agents[cid];
         require(bytes(a.cid).length > 0, "agent not found");
-        require(msg.value >= a.price, "insufficient payment");
-        // record rental BEFORE forwarding funds (checks-effects-interactions)
-        uint256 rentalDuration = 3600; // 1 hour in seconds
-        rentals[cid][msg.sender] = block.timestamp + rentalDuration;
+        require(a.listed, "agent delisted");
+        uint256 price = a.tierPrices[uint256(tier)];
+        require(price > 0, "tier not offered");
+        _requirePayment(a.paymentToken, price);
+        // record rental and credit the creator BEFORE moving funds (checks-effects-interactions)
+        // an unexpired rental is extended rather than overwritten
+        uint256 current = rentals[cid][msg.sender];
+        uint256 start = current > block.timestamp ? current : block.timestamp;
+        uint256 expiresAt = start + tierDuration(tier);
+        rentals[cid][msg.sender] = expiresAt;
+        _creditRental(cid, a.uploader, a.paymentToken, price);
+
+        emit AgentRented(cid, msg.sender, price, tier, expiresAt);
+        _collectPayment(a.paymentToken, price);
+    }
+
+    function setSubscriptionPrice(uint256 monthlyPrice, address paymentToken) external {
+        require(paymentToken == address(0) || allowedPaymentTokens[paymentToken], "payment token not allowed");
+        subscriptionPlans[msg.sender] = SubscriptionPlan({ monthlyPrice: monthlyPrice, paymentToken: paymentToken });
+        emit SubscriptionPriceSet(msg.sender, monthlyPrice, paymentToken);
+    }
+
+    // One SUBSCRIPTION_PERIOD of access to all of `creator`'s agents, paid like a rental; an active
+    // subscription is extended. Proceeds go to the creator after the platform fee, without agent splits.
+    function subscribe(address creator) external payable {
+        SubscriptionPlan memory plan = subscriptionPlans[creator];
+        require(plan.monthlyPrice > 0, "subscriptions not offered");
+        _requirePayment(plan.paymentToken, plan.monthlyPrice);
+        uint256 current = subscriptions[creator][msg.sender];
+        uint256 start = current > block.timestamp ? current : block.timestamp;
+        uint256 expiresAt = start + SUBSCRIPTION_PERIOD;
+        subscriptions[creator][msg.sender] = expiresAt;
+        _credit(plan.paymentToken, creator, _takePlatformFee(plan.paymentToken, plan.monthlyPrice));
+
+        emit Subscribed(creator, msg.sender, plan.monthlyPrice, expiresAt);
+        _collectPayment(plan.paymentToken, plan.monthlyPrice);
+    }
+
+    function _requirePayment(address token, uint256 price) private view {
+        if (token == address(0)) {
+            require(msg.value >= price, "insufficient payment");
+        } else {
+            require(msg.value == 0, "agent is priced in tokens");
+        }
+    }
 
-        // forward payment to uploader
-        (bool sent, ) = payable(a.uploader).call{value: msg.value}('');
-        require(sent, "failed to forward payment");
+    // Token payments pull the exact price via transferFrom (the payer must approve this contract first);
+    // ETH beyond the price is refunded. Called after state changes (checks-effects-interactions).
+    function _collectPayment(address token, uint256 price) private {
+        if (token != address(0)) {
+            _callToken(token, abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), price)));
+            return;
+        }
+        uint256 excess = msg.value - price;
+        if (excess > 0) {
+            (bool refunded, ) = payable(msg.sender).call{value: excess}('');
+            require(refunded, "refund failed");
+        }
+    }
+
+    function _credit(address token, address account, uint256 amount) private {
+        if (token == address(0)) balances[account] += amount;
+        else tokenBalances[token][account] += amount;
+    }
+
+    // Credits the platform fee to the contract owner and returns what is left
+    function _takePlatformFee(address token, uint256 price) private returns (uint256) {
+        uint256 fee = (price * platformFeeBps) / BPS_DENOMINATOR;
+        if (fee > 0) _credit(token, owner, fee);
+        return price - fee;
+    }
+
+    // Platform fee to the contract owner, then collaborator splits of the remainder, rest to the uploader
+    function _creditRental(string calldata cid, address uploader, address token, uint256 price) private {
+        uint256 proceeds = _takePlatformFee(token, price);
+        uint256 distributed;
+        Split[] storage agentSplits = splits[cid];
+        for (uint256 i = 0; i < agentSplits.length; i++) {
+            uint256 share = (proceeds * agentSplits[i].shareBps) / BPS_DENOMINATOR;
+            _credit(token, agentSplits[i].recipient, share);
+            distributed += share;
+        }
+        _credit(token, uploader, proceeds - distributed);
+    }
+
+    // Accepts tokens that return nothing (e.g. USDT) as well as ones returning a bool
+    function _callToken(address token, bytes memory data) private {
+        require(token.code.length > 0, "token transfer failed");
+        (bool ok, bytes memory ret) = token.call(data);
+        require(ok && (ret.length == 0 || abi.decode(ret, (bool))), "token transfer failed");
+    }
+
+    // Pull payment: creators collect their accrued rental income
+    function withdraw() external {
+        uint256 amount = balances[msg.sender];
+        require(amount > 0, "nothing to withdraw");
+        balances[msg.sender] = 0;
+        (bool sent, ) = payable(msg.sender).call{value: amount}('');
+        require(sent, "withdraw failed");
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    function withdrawToken(address token) external {
+        uint256 amount = tokenBalances[token][msg.sender];
+        require(amount > 0, "nothing to withdraw");
+        tokenBalances[token][msg.sender] = 0;
+        _callToken(token, abi.encodeCall(IERC20.transfer, (msg.sender, amount)));
+        emit TokenWithdrawn(token, msg.sender, amount);
+    }
+
+    // Whether `user` holds an active pass to `creator`'s catalog; the creator always passes
+    function isSubscriber(address creator, address user) external view returns (bool) {
+        return subscriptions[creator][user] > block.timestamp || (user != address(0) && user == creator);
+    }
 
-        emit AgentRented(cid, msg.sender, msg.value);
+    // isSubscriber against the agent's current owner; Lit conditions check this instead of pinning the
+    // uploader, so subscriber access follows transferAgentOwnership
+    function isAgentSubscriber(string calldata cid, address user) external view returns (bool) {
+        address uploader = agents[cid].uploader;
+        return uploader != address(0) && (subscriptions[uploader][user] > block.timestamp || user == uploader);
     }
 
+    // The current owner always passes, so Lit access follows transferAgentOwnership
     function isRenter(string calldata cid, address user) external view returns (bool) {
-        return rentals[cid][user] > block.timestamp;
+        return rentals[cid][user] > block.timestamp || (user != address(0) && agents[cid].uploader == user);
     }
 }
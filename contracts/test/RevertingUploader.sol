@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+interface IRentAgent {
+    struct Split {
+        address recipient;
+        uint256 shareBps;
+    }
+
+    function uploadAgent(string calldata cid, uint256[3] calldata tierPrices, address paymentToken, Split[] calldata splits) external;
+    function withdraw() external;
+}
+
+// Test helper: a creator contract that rejects plain ETH transfers
+contract RevertingUploader {
+    function upload(IRentAgent rentAgent, string calldata cid, uint256[3] calldata tierPrices) external {
+        rentAgent.uploadAgent(cid, tierPrices, address(0), new IRentAgent.Split[](0));
+    }
+
+    function withdrawFrom(IRentAgent rentAgent) external {
+        rentAgent.withdraw();
+    }
+
+    receive() external payable {
+        revert("no ETH accepted");
+    }
+}
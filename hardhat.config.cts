@@ -0,0 +1,35 @@
+import '@nomicfoundation/hardhat-toolbox';
+import { task, type HardhatUserConfig } from 'hardhat/config';
+
+// `hardhat run` can't execute .ts scripts in this "type": "module" package, so deployment is a task.
+// The fixture module imports `hardhat` itself, so it is loaded lazily once the runtime exists.
+task('deploy-rent-agent', 'Deploy RentAgent to the selected network')
+  .addFlag('writeEnv', 'Write .env.hardhat.local so `npm run dev:local` picks up the deployment')
+  .setAction(async ({ writeEnv }: { writeEnv: boolean }, hre) => {
+    const { deployRentAgent } = await import('./test/fixtures/rentAgent');
+    const { address } = await deployRentAgent({ writeEnv });
+    console.log(`RentAgent deployed to ${hre.network.name}:`, address);
+  });
+
+const config: HardhatUserConfig = {
+  solidity: '0.8.19',
+  networks: {
+    hardhat: {},
+    // `npx hardhat node` for local end-to-end runs against the Vite app
+    localhost: {
+      url: 'http://127.0.0.1:8545',
+    },
+    sepolia: {
+      url: process.env.SEPOLIA_RPC_URL || '',
+      accounts: process.env.DEPLOYER_PRIVATE_KEY ? [process.env.DEPLOYER_PRIVATE_KEY] : [],
+    },
+  },
+  paths: {
+    sources: './contracts',
+    tests: './test',
+    cache: './cache',
+    artifacts: './artifacts'
+  }
+};
+
+export = config;
@@ -3,8 +3,8 @@ import hre from 'hardhat';
 async function main() {
   const RentAgent = await hre.ethers.getContractFactory('RentAgent');
   const rentAgent = await RentAgent.deploy();
-  await rentAgent.deployed();
-  console.log('RentAgent deployed to:', rentAgent.address);
+  await rentAgent.waitForDeployment();
+  console.log('RentAgent deployed to:', await rentAgent.getAddress());
 }
 
 main().catch((error) => {
@@ -1,30 +1,32 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useAccount } from 'wagmi';
 import RentModal from './RentModal';
+import AgentOwnerControls from './AgentOwnerControls';
+import UploadJobsPanel from './UploadJobsPanel';
+import ShareManager from './ShareManager';
+import CreatorProfile from './CreatorProfile';
+import { getCachedCatalog, getReadProvider, subscribeLocalUploads, syncAgentCatalog, type CatalogAgent } from './lib/agentCatalog';
+import { agentService } from './lib/agentService';
+import { getWalletSigner } from './lib/wallet';
+import { saveStreamAsFile } from './lib/fileDownload';
+import { getRentAgentAddress } from './lib/config';
+import { RENTAL_TIERS } from './lib/rentalTiers';
+import { priceSymbol } from './lib/paymentTokens';
+import { describeError } from './lib/errorMessages';
+import { describeAccessGate } from './lib/accessGates';
+import { getActiveSubscriptions } from './lib/subscriptions';
+import { hasSubscriberCondition } from './lib/accessConditions';
 
-type UploadRecord = {
-  cid: string;
-  owner?: string;
-  encryptedSymmetricKey?: string;
-  accessControlConditions?: any[];
-  title?: string;
-  description?: string;
-  price?: string;
-  category?: string;
-};
+type UploadRecord = CatalogAgent;
 
-const mockOtherAgents: UploadRecord[] = [
-  { cid: 'QmMock1', title: 'Legal Contract Analyzer', description: 'Extracts clauses and risk scores', price: '0.05 ETH' },
-  { cid: 'QmMock2', title: 'Medical Triage Agent', description: 'Suggests next steps based on symptoms', price: '0.12 ETH' },
-  { cid: 'QmMock3', title: 'Trading Signal Bot', description: 'Generates trading signals from market data', price: '0.08 ETH' },
-  { cid: 'QmMock4', title: 'Personal Assistant Agent', description: 'Schedules and summarizes meetings', price: '0.02 ETH' },
-];
+const openCreatorProfile = (creator: string) => {
+  window.dispatchEvent(new CustomEvent('navigate', { detail: { view: 'creator', creator } }));
+};
 
-const AgentCard: React.FC<{ agent: UploadRecord; owner?: string; isMine?: boolean; onView?: (cid: string) => void; onDownload?: (cid: string) => void; onRent?: (cid: string) => void; onRecoverKey?: (cid: string) => void; onReupload?: (cid: string) => void; focused?: boolean }> = ({ agent, owner, isMine, onView, onDownload, onRent, onRecoverKey, onReupload, focused }) => {
+const AgentCard: React.FC<{ agent: UploadRecord; owner?: string; isMine?: boolean; subscribed?: boolean; onView?: (cid: string) => void; onDownload?: (cid: string) => void; onRent?: (cid: string) => void; onRecoverKey?: (cid: string) => void; recovering?: boolean; focused?: boolean }> = ({ agent, owner, isMine, subscribed, onView, onDownload, onRent, onRecoverKey, recovering, focused }) => {
   const handleCopy = () => navigator.clipboard.writeText(agent.cid);
   const handleDownload = () => {
     if (onDownload) onDownload(agent.cid);
-    else window.dispatchEvent(new CustomEvent('dashboard-download', { detail: { cid: agent.cid } }));
   };
   const handleRent = () => {
     if (onRent) onRent(agent.cid);
@@ -32,19 +34,19 @@ const AgentCard: React.FC<{ agent: UploadRecord; owner?: string; isMine?: boolea
   const handleRecoverKey = () => {
     if (onRecoverKey) onRecoverKey(agent.cid);
   };
-  const handleReupload = () => {
-    if (onReupload) onReupload(agent.cid);
-  };
 
   // Check if this agent has Lit integration issues
   // An agent has Lit issues if:
   // 1. No encrypted keys at all, OR
   // 2. Has encrypted keys but they were created with broken access control (old uploads)
-  const hasLitIssues = !agent.encryptedSymmetricKey && !agent.encryptedSymmetricKeys;
+  // Agents only known from chain events carry no local key entries, so don't flag those for renters
+  const hasLitIssues = !agent.encryptedSymmetricKeys?.length && (!!isMine || !agent.onChain);
   
-  // Additional check: if this agent was uploaded before our fixes, mark it as legacy
-  // We can detect this by checking if the agent has a litPersisted flag set to false
-  const isLegacyAgent = (agent as any).litPersisted === false;
+  // Legacy agents: the key never reached Lit, or only exists in the single-key shape of older uploads.
+  // Their owner repairs them in place with Recover Key; the payload stays as uploaded.
+  // (loadLocalUploads lists that key in encryptedSymmetricKeys too; recoverKey removes the single-key field)
+  const isLegacyAgent = agent.litPersisted === false || !!agent.encryptedSymmetricKey;
+  const needsRepair = hasLitIssues || isLegacyAgent;
 
   // Shorten owner address for display
   const shortenAddress = (addr: string) => {
@@ -60,14 +62,24 @@ const AgentCard: React.FC<{ agent: UploadRecord; owner?: string; isMine?: boolea
           <div style={{ fontSize: 14, color: '#6b7280', marginBottom: 8, lineHeight: 1.4 }}>{agent.description || 'No description provided'}</div>
           {owner && (
             <div style={{ fontSize: 12, color: '#9ca3af' }}>
-              <strong>Owner:</strong> <span style={{ fontFamily: 'monospace' }}>{shortenAddress(owner)}</span>
+              <strong>Owner:</strong>{' '}
+              <button onClick={() => openCreatorProfile(owner)} title='View creator profile' style={{ padding: 0, background: 'none', border: 'none', color: '#6366f1', fontFamily: 'monospace', fontSize: 12, cursor: 'pointer' }}>
+                {shortenAddress(owner)}
+              </button>
             </div>
           )}
+          <div style={{ display: 'inline-block', marginTop: 6, padding: '2px 8px', borderRadius: 999, fontSize: 11, fontWeight: 600, background: agent.accessGate ? '#ede9fe' : '#ecfeff', color: agent.accessGate ? '#6d28d9' : '#0e7490' }}>
+            {describeAccessGate(agent.accessGate)}
+          </div>
+          <div style={{ fontSize: 12, color: '#9ca3af', marginTop: 2 }}>
+            {agent.onChain ? `${agent.rentalCount} rental${agent.rentalCount === 1 ? '' : 's'}` : 'Not registered on-chain'}
+            {agent.onChain && !agent.listed && ' · Delisted'}
+          </div>
         </div>
         <div style={{ textAlign: 'right', display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: 8 }}>
           {agent.price && (
             <div style={{ fontSize: 16, fontWeight: 600, color: '#059669' }}>
-              Ξ {agent.price}
+              {agent.tierPrices && agent.tierPrices.filter(Boolean).length > 1 ? 'from ' : ''}{priceSymbol(agent.paymentToken)} {agent.price}
             </div>
           )}
           {isMine && (
@@ -75,6 +87,11 @@ const AgentCard: React.FC<{ agent: UploadRecord; owner?: string; isMine?: boolea
               Your Agent
             </div>
           )}
+          {!isMine && subscribed && (
+            <div title='Unlocked by your subscription to this creator' style={{ padding: '4px 8px', background: '#ede9fe', color: '#5b21b6', borderRadius: 6, fontSize: 12, fontWeight: 600 }}>
+              ✓ Subscribed
+            </div>
+          )}
         </div>
       </div>
 
@@ -97,9 +114,11 @@ const AgentCard: React.FC<{ agent: UploadRecord; owner?: string; isMine?: boolea
                     </button>
                     <button 
                       onClick={handleRecoverKey} 
+                      disabled={recovering}
+                      title={needsRepair ? 'Re-save the decryption key to Lit under the current access conditions' : ''}
                       style={{ 
                         padding: '10px 16px', 
-                        background: '#f59e0b', 
+                        background: recovering ? '#9ca3af' : needsRepair ? '#ef4444' : '#f59e0b', 
                         color: 'white', 
                         border: 'none', 
                         borderRadius: 8,
@@ -107,58 +126,26 @@ const AgentCard: React.FC<{ agent: UploadRecord; owner?: string; isMine?: boolea
                         fontSize: 14
                       }}
                     >
-                      Recover Key
+                      {recovering ? 'Recovering...' : needsRepair ? 'Repair Key' : 'Recover Key'}
                     </button>
-                    {hasLitIssues && (
-                      <button 
-                        onClick={handleReupload} 
-                        style={{ 
-                          padding: '10px 16px', 
-                          background: '#ef4444', 
-                          color: 'white', 
-                          border: 'none', 
-                          borderRadius: 8,
-                          fontWeight: 600,
-                          fontSize: 14
-                        }}
-                      >
-                        Re-upload (Fix Lit)
-                      </button>
-                    )}
-                    {isLegacyAgent && !hasLitIssues && (
-                      <button 
-                        onClick={handleReupload} 
-                        style={{ 
-                          padding: '10px 16px', 
-                          background: '#f59e0b', 
-                          color: 'white', 
-                          border: 'none', 
-                          borderRadius: 8,
-                          fontWeight: 600,
-                          fontSize: 14
-                        }}
-                      >
-                        Re-upload (Legacy)
-                      </button>
-                    )}
                   </>
                 ) : (
                   <button 
                     onClick={handleRent} 
                     style={{ 
                       padding: '10px 16px', 
-                      background: (hasLitIssues || isLegacyAgent) ? '#9ca3af' : '#8b5cf6', 
+                      background: needsRepair ? '#9ca3af' : '#8b5cf6', 
                       color: 'white', 
                       border: 'none', 
                       borderRadius: 8,
                       fontWeight: 600,
                       fontSize: 14,
-                      cursor: (hasLitIssues || isLegacyAgent) ? 'not-allowed' : 'pointer'
+                      cursor: needsRepair ? 'not-allowed' : 'pointer'
                     }}
-                    disabled={hasLitIssues || isLegacyAgent}
-                    title={(hasLitIssues || isLegacyAgent) ? 'This agent needs to be re-uploaded by the owner for compatibility' : ''}
+                    disabled={needsRepair}
+                    title={needsRepair ? "The owner needs to repair this agent's decryption key" : ''}
                   >
-                    {(hasLitIssues || isLegacyAgent) ? 'Legacy Agent' : 'Rent / Download'}
+                    {needsRepair ? 'Legacy Agent' : 'Rent / Download'}
                   </button>
                 )}
         <button 
@@ -194,13 +181,18 @@ const AgentCard: React.FC<{ agent: UploadRecord; owner?: string; isMine?: boolea
   );
 };
 
-const AgentDashboard: React.FC = () => {
+// `creator` turns the dashboard into that creator's profile: their plan and subscribe button, and only their agents
+const AgentDashboard: React.FC<{ creator?: string }> = ({ creator }) => {
   const { address } = useAccount();
   const [uploads, setUploads] = useState<UploadRecord[]>([]);
   const [drawerCid, setDrawerCid] = useState<string | null>(null);
   const [focusedCid, setFocusedCid] = useState<string | null>(null);
   const [rentOpenCid, setRentOpenCid] = useState<string | null>(null);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [recoveringCid, setRecoveringCid] = useState<string | null>(null);
+  const [catalogSyncing, setCatalogSyncing] = useState(false);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  const [subscriptions, setSubscriptions] = useState<Record<string, number>>({}); // creator -> expiry
 
   // listen for focus-agent events
   useEffect(() => {
@@ -217,46 +209,31 @@ const AgentDashboard: React.FC = () => {
     return () => window.removeEventListener('focus-agent', handler as EventListener);
   }, []);
 
-  useEffect(() => {
+  // Render whatever is cached first, then pull new AgentUploaded / AgentRented logs from the chain
+  const refreshCatalog = useCallback(async (syncChain: boolean) => {
+    const provider = getReadProvider();
+    const contractAddress = getRentAgentAddress();
+    setUploads(await getCachedCatalog(provider, contractAddress));
+    if (!syncChain || !provider || !contractAddress) return;
+    setCatalogSyncing(true);
+    setCatalogError(null);
     try {
-      const stored = JSON.parse(localStorage.getItem('lighthouse_uploads') || '[]') as Array<any>;
-      setUploads(stored.map(s => ({
-        cid: s.cid,
-        owner: s.owner ? String(s.owner).toLowerCase() : undefined,
-        encryptedSymmetricKeys: s.encryptedSymmetricKeys || s.encryptedSymmetricKey ? (s.encryptedSymmetricKeys || [{ key: s.encryptedSymmetricKey, accessControlConditions: s.accessControlConditions }]) : undefined,
-        accessControlConditions: s.accessControlConditions || undefined,
-        title: s.title,
-        description: s.description,
-        price: s.price,
-        category: s.category,
-      })));
-    } catch (e) {
-      setUploads([]);
+      await syncAgentCatalog(provider, contractAddress);
+      setUploads(await getCachedCatalog(provider, contractAddress));
+    } catch (e: unknown) {
+      console.warn('AgentDashboard: catalog sync failed', e);
+      setCatalogError(describeError(e));
+    } finally {
+      setCatalogSyncing(false);
     }
   }, []);
 
-  // Reload uploads when notified (so dashboard updates immediately after uploads)
   useEffect(() => {
-    const handler = () => {
-      try {
-        const stored = JSON.parse(localStorage.getItem('lighthouse_uploads') || '[]') as Array<any>;
-        setUploads(stored.map(s => ({
-          cid: s.cid,
-          owner: s.owner ? String(s.owner).toLowerCase() : undefined,
-          encryptedSymmetricKeys: s.encryptedSymmetricKeys || s.encryptedSymmetricKey ? (s.encryptedSymmetricKeys || [{ key: s.encryptedSymmetricKey, accessControlConditions: s.accessControlConditions }]) : undefined,
-          accessControlConditions: s.accessControlConditions || undefined,
-          title: s.title,
-          description: s.description,
-          price: s.price,
-          category: s.category,
-        })));
-      } catch (e) {
-        setUploads([]);
-      }
-    };
-    window.addEventListener('uploads-updated', handler as EventListener);
-    return () => window.removeEventListener('uploads-updated', handler as EventListener);
-  }, []);
+    refreshCatalog(true);
+  }, [refreshCatalog]);
+
+  // Reload when agentService writes local records (so the dashboard updates immediately after uploads)
+  useEffect(() => subscribeLocalUploads(() => { refreshCatalog(true); }), [refreshCatalog]);
 
   // Determine owner: prefer persisted `owner` field, fall back to accessControlConditions
   const withOwners = uploads.map(u => {
@@ -288,67 +265,93 @@ const AgentDashboard: React.FC = () => {
     console.debug('AgentDashboard: loaded uploads', { count: withOwners.length, normAddress, owners: withOwners.map(w => w.owner) });
   }
 
-  // Handle recover key functionality
+  // Owner download: unlock the key through Lit and stream the decrypted payload to disk
+  const handleDownload = async (cid: string) => {
+    try {
+      await saveStreamAsFile(async () => agentService.download(await getWalletSigner(address), cid, { record: uploads.find(u => u.cid === cid) }), `decrypted_${cid}`);
+    } catch (error) {
+      // AbortError: the save dialog was cancelled
+      if ((error as Error)?.name === 'AbortError') return;
+      console.error('Download error:', error);
+      setToastMessage(`Failed to download ${cid}: ${describeError(error)}`);
+      setTimeout(() => setToastMessage(null), 5000);
+    }
+  };
+
+  // Re-persist the key to Lit under the current access conditions and republish the manifest; the payload
+  // on IPFS is untouched, so legacy agents are repaired without re-uploading
   const handleRecoverKey = async (cid: string) => {
+    setRecoveringCid(cid);
     try {
-      // This would typically fetch the symmetric key from Lighthouse
-      // For now, we'll simulate the recovery process
+      await agentService.recoverKey(await getWalletSigner(address), cid);
       setToastMessage(`Recovered key for CID: ${cid}`);
-      
-      // Clear toast after 3 seconds
-      setTimeout(() => setToastMessage(null), 3000);
-      
-      // In a real implementation, you would:
-      // 1. Fetch the symmetric key from Lighthouse
-      // 2. Save it to localStorage for future renters
-      // 3. Show success message
-      
     } catch (error) {
       console.error('Recover key error:', error);
-      setToastMessage(`Failed to recover key for CID: ${cid}`);
-      setTimeout(() => setToastMessage(null), 3000);
+      setToastMessage(`Failed to recover key for ${cid}: ${describeError(error)}`);
+    } finally {
+      setRecoveringCid(null);
+      setTimeout(() => setToastMessage(null), 5000);
     }
   };
 
-  // Handle re-upload functionality
-  const handleReupload = (cid: string) => {
-    // Navigate to upload page with pre-filled data from the existing agent
-    const agent = uploads.find(u => u.cid === cid);
-    if (agent) {
-      // Store the agent data for pre-filling the upload form
-      localStorage.setItem('reupload_agent', JSON.stringify({
-        title: agent.title,
-        description: agent.description,
-        category: agent.category,
-        price: agent.price,
-        originalCid: cid
-      }));
-      
-      // Navigate to upload page
-      window.dispatchEvent(new CustomEvent('navigate', { detail: { view: 'upload' } }));
-      
-      setToastMessage(`Re-uploading agent "${agent.title || cid}" - please re-upload with the same details`);
-      setTimeout(() => setToastMessage(null), 5000);
+  // Active subscriptions of the connected wallet to the creators in the catalog, to mark covered agents
+  const ownersKey = [...new Set(withOwners.map(u => normalizeAddr(u.owner)).filter(Boolean))].sort().join(',');
+  const refreshSubscriptions = useCallback(async () => {
+    const provider = getReadProvider();
+    const contractAddress = getRentAgentAddress();
+    if (!provider || !contractAddress || !address || !ownersKey) return setSubscriptions({});
+    try {
+      setSubscriptions(await getActiveSubscriptions(provider, contractAddress, ownersKey.split(','), address));
+    } catch (e) {
+      console.warn('AgentDashboard: failed to read subscriptions', e);
     }
+  }, [address, ownersKey]);
+
+  useEffect(() => {
+    refreshSubscriptions();
+  }, [refreshSubscriptions]);
+
+  const isSubscribed = (owner?: string) => {
+    const ownerNorm = normalizeAddr(owner);
+    return !!ownerNorm && (subscriptions[ownerNorm] ?? 0) * 1000 > Date.now();
   };
 
+  // Only agents keyed with isAgentSubscriber unlock for subscribers; agents whose conditions we don't know get no badge
+  const unlockedBySubscription = (agent: UploadRecord) =>
+    isSubscribed(agent.owner) && (agent.encryptedSymmetricKeys || []).some(e => hasSubscriberCondition(e.accessControlConditions));
+
+  const normCreator = normalizeAddr(creator);
+
   const myAgents = withOwners.filter(u => {
     const ownerNorm = normalizeAddr((u as any).owner);
     return ownerNorm && normAddress && ownerNorm === normAddress;
   });
 
+  // Delisted agents can't be rented, so only their owner sees them
   const otherAgents = withOwners.filter(u => {
     const ownerNorm = normalizeAddr((u as any).owner);
+    if (u.onChain && !u.listed) return false;
+    if (normCreator && ownerNorm !== normCreator) return false;
     return !(ownerNorm && normAddress && ownerNorm === normAddress);
   });
 
   return (
     <div style={{ width: '100%', maxWidth: 1000, margin: '1rem auto', padding: 12 }}>
-      <h2 style={{ marginTop: 0, marginBottom: 24 }}>Agent Dashboard</h2>
+      <h2 style={{ marginTop: 0, marginBottom: 24 }}>{creator ? 'Creator Profile' : 'Agent Dashboard'}</h2>
+
+      {creator && (
+        <CreatorProfile
+          creator={creator}
+          agentCount={normCreator === normAddress ? myAgents.length : otherAgents.length}
+          onSubscribed={refreshSubscriptions}
+        />
+      )}
 
       {/* Your Agents Section */}
+      {(!creator || normCreator === normAddress) && (
       <div style={{ marginBottom: 32 }}>
         <h3 style={{ fontSize: 20, fontWeight: 700, marginBottom: 16, color: '#1f2937' }}>Your Agents</h3>
+        <UploadJobsPanel />
         {myAgents.length === 0 && (
           <div style={{ 
             padding: 24, 
@@ -369,31 +372,35 @@ const AgentDashboard: React.FC = () => {
                     owner={(a as any).owner} 
                     isMine={true} 
                     onView={(cid) => setDrawerCid(cid)} 
-                    onDownload={(cid) => window.dispatchEvent(new CustomEvent('dashboard-download', { detail: { cid } }))} 
+                    onDownload={handleDownload} 
                     onRecoverKey={handleRecoverKey}
-                    onReupload={handleReupload}
+                    recovering={recoveringCid === a.cid}
                     focused={focusedCid === a.cid} 
                   />
                 ))}
       </div>
+      )}
 
       {/* Available Agents Section */}
+      {(!creator || normCreator !== normAddress) && (
       <div>
         <h3 style={{ fontSize: 20, fontWeight: 700, marginBottom: 16, color: '#1f2937' }}>Available Agents</h3>
-        <p style={{ fontSize: 14, color: '#6b7280', marginBottom: 16 }}>Discover and rent agents created by other users</p>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+          <p style={{ fontSize: 14, color: '#6b7280', margin: 0 }}>Discover and rent agents created by other users</p>
+          <button
+            onClick={() => refreshCatalog(true)}
+            disabled={catalogSyncing}
+            style={{ padding: '6px 12px', background: catalogSyncing ? '#9ca3af' : '#6b7280', color: 'white', border: 'none', borderRadius: 6, fontSize: 12 }}
+          >
+            {catalogSyncing ? 'Syncing...' : 'Refresh from chain'}
+          </button>
+        </div>
+        {catalogError && (
+          <div style={{ marginBottom: 12, padding: 8, background: '#fef2f2', color: '#991b1b', borderRadius: 6, fontSize: 13 }}>
+            Could not sync on-chain catalog: {catalogError}
+          </div>
+        )}
         
-        {/* show mocked agents first */}
-        {mockOtherAgents.map((m, i) => (
-          <AgentCard 
-            key={`mock-${i}`} 
-            agent={m} 
-            owner={`0xMockOwner${i}`} 
-            onView={(cid) => setDrawerCid(cid)} 
-            onRent={(cid) => setRentOpenCid(cid)} 
-            focused={focusedCid === m.cid} 
-          />
-        ))}
-
         {/* then show other uploaded agents (not owned by you) */}
         {otherAgents.map((a, i) => (
           <AgentCard 
@@ -401,12 +408,13 @@ const AgentDashboard: React.FC = () => {
             agent={a} 
             owner={(a as any).owner} 
             onView={(cid) => setDrawerCid(cid)} 
+            subscribed={unlockedBySubscription(a)}
             onRent={(cid) => setRentOpenCid(cid)} 
             focused={focusedCid === a.cid} 
           />
         ))}
         
-        {mockOtherAgents.length === 0 && otherAgents.length === 0 && (
+        {otherAgents.length === 0 && (
           <div style={{ 
             padding: 24, 
             border: '2px dashed #d1d5db', 
@@ -420,6 +428,7 @@ const AgentDashboard: React.FC = () => {
           </div>
         )}
       </div>
+      )}
 
       {/* Details Drawer */}
       {drawerCid && (
@@ -433,16 +442,36 @@ const AgentDashboard: React.FC = () => {
               <div><strong>Title:</strong> {u.title || '—'}</div>
               <div><strong>Description:</strong> {u.description || '—'}</div>
               <div><strong>Category:</strong> {u.category || '—'}</div>
-              <div><strong>Price:</strong> {u.price || '—'}</div>
+              <div><strong>Price:</strong> {u.tierPrices
+                ? RENTAL_TIERS.filter(t => u.tierPrices?.[t.id]).map(t => `${t.label}: ${priceSymbol(u.paymentToken)} ${u.tierPrices?.[t.id]}`).join(' · ') || '—'
+                : u.price || '—'}</div>
+              {u.manifestCid && (
+                <div style={{ wordBreak: 'break-all', fontFamily: 'monospace' }}>
+                  <strong>Manifest:</strong> {u.manifestCid}{' '}
+                  <button onClick={() => navigator.clipboard.writeText(u.manifestCid || '')} style={{ padding: '2px 6px', fontSize: 12 }}>Copy</button>
+                </div>
+              )}
               <div style={{ marginTop: 8 }}>
                 {(() => {
                   const ownerNorm = normalizeAddr(u.owner);
                   const isMine = ownerNorm && normAddress && ownerNorm === normAddress;
                   if (isMine) {
                     return (
-                      <button onClick={() => window.dispatchEvent(new CustomEvent('dashboard-download', { detail: { cid: drawerCid } }))} style={{ padding: '8px 12px', background: '#06b6d4', color: 'white', border: 'none', borderRadius: 6 }}>Decrypt & Download</button>
+                      <>
+                        <button onClick={() => handleDownload(u.cid)} style={{ padding: '8px 12px', background: '#06b6d4', color: 'white', border: 'none', borderRadius: 6 }}>Decrypt & Download</button>
+                        <div style={{ marginTop: 12 }}>
+                          <strong>Access</strong>
+                          <ShareManager record={u} />
+                        </div>
+                        {u.onChain && (
+                          <AgentOwnerControls key={u.cid} cid={u.cid} listed={u.listed} tierPrices={u.tierPrices} paymentToken={u.paymentToken} onChanged={() => refreshCatalog(true)} />
+                        )}
+                      </>
                     );
                   }
+                  if (u.onChain && !u.listed) {
+                    return <div style={{ color: '#6b7280' }}>This agent has been delisted by its owner.</div>;
+                  }
                   return (
                     <>
                       <button onClick={() => setRentOpenCid(u.cid)} style={{ padding: '8px 12px', background: '#06b6d4', color: 'white', border: 'none', borderRadius: 6 }}>Rent</button>
@@ -455,7 +484,7 @@ const AgentDashboard: React.FC = () => {
           {rentOpenCid && (
             (() => {
               const rec = uploads.find(u => u.cid === rentOpenCid);
-              return <RentModal cid={rentOpenCid} onClose={() => setRentOpenCid(null)} authAddress={address} price={rec?.price} />;
+              return <RentModal cid={rentOpenCid} onClose={() => setRentOpenCid(null)} authAddress={address} price={rec?.price} manifestCid={rec?.manifestCid} />;
             })()
           )}
         </div>
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import RentAgentABI from './abis/RentAgent.json';
+import { RENTAL_TIERS, EMPTY_TIER_PRICES, parseTierPrices, type TierPriceInputs } from './lib/rentalTiers';
+import { describeError } from './lib/errorMessages';
+import { ConfigError } from './lib/errors';
+import { getRentAgentAddress } from './lib/config';
+import { findPaymentToken } from './lib/paymentTokens';
+
+type Props = {
+  cid: string;
+  listed: boolean;
+  tierPrices?: TierPriceInputs;
+  paymentToken?: string;
+  onChanged?: () => void;
+};
+
+// Owner-only RentAgent actions for a listed CID: re-price, delist / re-list and transfer ownership
+const AgentOwnerControls: React.FC<Props> = ({ cid, listed, tierPrices, paymentToken, onChanged }) => {
+  const [prices, setPrices] = useState<TierPriceInputs>(tierPrices || EMPTY_TIER_PRICES);
+  const [newOwner, setNewOwner] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const RENT_AGENT_CONTRACT = getRentAgentAddress();
+  const token = findPaymentToken(paymentToken);
+
+  const send = async (label: string, call: (contract: ethers.Contract) => Promise<ethers.ContractTransactionResponse>) => {
+    setError(null);
+    setMessage(null);
+    setBusy(label);
+    try {
+      if (!RENT_AGENT_CONTRACT) throw new ConfigError('Smart contract not configured');
+      const provider = new ethers.BrowserProvider((window as unknown as { ethereum: ethers.Eip1193Provider }).ethereum);
+      const contract = new ethers.Contract(RENT_AGENT_CONTRACT, RentAgentABI, await provider.getSigner());
+      const tx = await call(contract);
+      setMessage(`${label}: waiting for confirmation...`);
+      await tx.wait();
+      console.info('[AgentOwnerControls] confirmed', { action: label, cid, txHash: tx.hash });
+      setMessage(`${label} confirmed ✓`);
+      onChanged?.();
+    } catch (e) {
+      console.warn('[AgentOwnerControls] action failed', { action: label, cid, e });
+      setError(describeError(e));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUpdatePrice = () => send('Price update', c => c.updatePrice(cid, parseTierPrices(prices, token.decimals)));
+  // Re-listing goes through uploadAgent, which only the current owner may call for a claimed CID;
+  // pass the current payment token and splits back so the listing keeps its currency and collaborators
+  const handleRelist = () => send('Re-list', async c => {
+    const splits = await c.getSplits(cid);
+    return c.uploadAgent(cid, parseTierPrices(prices, token.decimals), token.address, splits.map((s: { recipient: string; shareBps: bigint }) => ({ recipient: s.recipient, shareBps: s.shareBps })));
+  });
+  const handleDelist = () => {
+    if (!window.confirm('Delist this agent? Existing rentals stay valid until they expire.')) return;
+    send('Delist', c => c.delistAgent(cid));
+  };
+  const handleTransfer = () => {
+    const target = newOwner.trim();
+    if (!ethers.isAddress(target)) {
+      setError('Enter a valid address for the new owner.');
+      return;
+    }
+    if (!window.confirm(`Transfer ownership of this agent to ${target}? Future rental payments will go to that address.`)) return;
+    send('Ownership transfer', c => c.transferAgentOwnership(cid, target));
+  };
+
+  const buttonStyle = (color: string) => ({
+    padding: '6px 12px',
+    background: busy ? '#9ca3af' : color,
+    color: 'white',
+    border: 'none',
+    borderRadius: 6,
+    fontSize: 13,
+    cursor: busy ? 'not-allowed' : 'pointer'
+  });
+
+  return (
+    <div style={{ marginTop: 16, padding: 12, background: '#fff', border: '1px solid #e5e7eb', borderRadius: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>Manage listing {listed ? '' : '(delisted)'} · prices in {token.symbol}</div>
+
+      <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+        {RENTAL_TIERS.map(t => (
+          <label key={t.key} style={{ flex: 1, fontSize: 12 }}>
+            {t.label}
+            <input
+              value={prices[t.id]}
+              onChange={(e) => setPrices(prev => {
+                const next = [...prev] as TierPriceInputs;
+                next[t.id] = e.target.value;
+                return next;
+              })}
+              placeholder='Not offered'
+              style={{ display: 'block', width: '100%', padding: 6, border: '1px solid #d1d5db', borderRadius: 4 }}
+            />
+          </label>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
+        {listed ? (
+          <>
+            <button onClick={handleUpdatePrice} disabled={!!busy} style={buttonStyle('#06b6d4')}>Update prices</button>
+            <button onClick={handleDelist} disabled={!!busy} style={buttonStyle('#ef4444')}>Delist</button>
+          </>
+        ) : (
+          <button onClick={handleRelist} disabled={!!busy} style={buttonStyle('#10b981')}>Re-list at these prices</button>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: 8 }}>
+        <input
+          value={newOwner}
+          onChange={(e) => setNewOwner(e.target.value)}
+          placeholder='New owner address (0x...)'
+          style={{ flex: 1, padding: 6, border: '1px solid #d1d5db', borderRadius: 4, fontFamily: 'monospace', fontSize: 12 }}
+        />
+        <button onClick={handleTransfer} disabled={!!busy} style={buttonStyle('#8b5cf6')}>Transfer</button>
+      </div>
+
+      {busy && <div style={{ marginTop: 8, fontSize: 13, color: '#1e40af' }}>{busy}...</div>}
+      {message && !busy && <div style={{ marginTop: 8, fontSize: 13, color: '#065f46' }}>{message}</div>}
+      {error && <div style={{ marginTop: 8, fontSize: 13, color: '#991b1b' }}>{error}</div>}
+    </div>
+  );
+};
+
+export default AgentOwnerControls;
@@ -4,23 +4,44 @@ import LighthouseUploader from './LighthouseUploader';
 import AgentDashboard from './AgentDashboard';
 import Home from './Home';
 import UploadAgent from './UploadAgent';
+import EarningsPanel from './EarningsPanel';
+import MyRentals from './MyRentals';
+import ChainGuard from './ChainGuard';
 import { useState, useEffect } from 'react';
 import { useAccount } from 'wagmi';
+import { clearLitSession } from './lib/litSession';
+import { agentService } from './lib/agentService';
+import { getWalletSigner } from './lib/wallet';
 
 function App() {
-  const [view, setView] = useState<'home'|'dashboard'|'upload'|'my'>('home');
+  const [view, setView] = useState<'home'|'dashboard'|'upload'|'my'|'rentals'|'creator'>('home');
+  const [creator, setCreator] = useState<string | null>(null);
   const { address, isConnected } = useAccount();
   // Listen for global navigate events so other components can trigger view changes
   useEffect(() => {
     const handler = (e: Event) => {
       const detail = (e as CustomEvent).detail as any;
-      if (detail?.view && (detail.view === 'home' || detail.view === 'dashboard' || detail.view === 'upload' || detail.view === 'my')) {
+      if (detail?.view && (detail.view === 'home' || detail.view === 'dashboard' || detail.view === 'upload' || detail.view === 'my' || detail.view === 'rentals')) {
         setView(detail.view);
+      } else if (detail?.view === 'creator' && typeof detail.creator === 'string') {
+        setCreator(detail.creator);
+        setView('creator');
       }
     };
     window.addEventListener('navigate', handler as EventListener);
     return () => window.removeEventListener('navigate', handler as EventListener);
   }, []);
+  // Lit sessions are cached per address; forget them once the wallet disconnects
+  useEffect(() => {
+    if (!isConnected) clearLitSession();
+  }, [isConnected]);
+  // Finish uploads a closed tab left midway (see src/lib/uploadJobs.ts)
+  useEffect(() => {
+    if (!address) return;
+    getWalletSigner(address)
+      .then(signer => agentService.resumeInterruptedUploads(signer))
+      .catch(e => console.warn('[App] could not resume upload jobs', e));
+  }, [address]);
   return (
     <div style={{ minHeight: '100vh', background: '#0b1220', color: 'white' }}>
       <div style={{ display: 'flex', justifyContent: 'space-between', padding: 12, alignItems: 'center' }}>
@@ -31,6 +52,7 @@ function App() {
             <button onClick={() => setView('dashboard')}>Explore</button>
             <button onClick={() => setView('upload')}>Upload</button>
             <button onClick={() => setView('my')}>My Agents</button>
+            <button onClick={() => setView('rentals')}>My Rentals</button>
           </nav>
         </div>
         <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
@@ -51,12 +73,16 @@ function App() {
           <ConnectButton />
         </div>
       </div>
+      <ChainGuard />
       {view === 'home' && <Home navigate={(v)=>setView(v)} connected={isConnected} walletName={address} />}
       {view === 'dashboard' && <AgentDashboard />}
       {view === 'upload' && <UploadAgent />}
+      {view === 'creator' && creator && <AgentDashboard key={creator} creator={creator} />}
+      {view === 'rentals' && <MyRentals />}
       {view === 'my' && (
         <div style={{ padding: 12 }}>
           <h2>My Agents</h2>
+          <EarningsPanel />
           <AgentDashboard />
         </div>
       )}
@@ -0,0 +1,36 @@
+import React, { useEffect } from 'react';
+import { useAccount, useSwitchChain } from 'wagmi';
+import { getChainStatus, setWalletChainId } from './lib/config';
+
+// Tells lib/config which chain the wallet is on and warns when RentAgent is not deployed there, since a
+// rental on any other chain would not satisfy the Lit access conditions
+const ChainGuard: React.FC = () => {
+  const { chainId, isConnected } = useAccount();
+  const { switchChain, isPending } = useSwitchChain();
+
+  useEffect(() => {
+    setWalletChainId(isConnected && chainId ? chainId : null);
+  }, [chainId, isConnected]);
+
+  if (!isConnected || !chainId) return null;
+  const status = getChainStatus(chainId);
+  if (status.kind === 'ok' || status.kind === 'unconfigured') return null;
+
+  const target = status.kind === 'not-deployed' ? status.expected[0] : null;
+  return (
+    <div style={{ margin: '0 12px 12px', padding: 12, background: '#fef3c7', color: '#92400e', borderRadius: 8, display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 12 }}>
+      <span>
+        {status.kind === 'not-deployed'
+          ? `RentAgent is not deployed on this network (chain ${chainId}). Rentals and downloads need ${status.expected.map(d => d.litChain || `chain ${d.chainId}`).join(' or ')}.`
+          : `Lit Protocol cannot check access on chain ${chainId}. Set VITE_LIT_CHAIN or use a supported network.`}
+      </span>
+      {target && (
+        <button onClick={() => switchChain({ chainId: target.chainId })} disabled={isPending} style={{ padding: '6px 12px', background: '#92400e', color: 'white', border: 'none', borderRadius: 6 }}>
+          {isPending ? 'Switching...' : `Switch to ${target.litChain || `chain ${target.chainId}`}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ChainGuard;
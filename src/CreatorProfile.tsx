@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { getReadProvider } from './lib/agentCatalog';
+import { getRentAgentAddress } from './lib/config';
+import { NATIVE_TOKEN, getPaymentTokens } from './lib/paymentTokens';
+import { SUBSCRIPTION_PERIOD, formatSubscriptionPrice, getActiveSubscriptions, getSubscriptionPlan, setSubscriptionPrice, subscribe, type SubscriptionPlan } from './lib/subscriptions';
+import { getWalletSigner } from './lib/wallet';
+import { describeError } from './lib/errorMessages';
+
+type Props = {
+  creator: string;
+  agentCount: number;
+  onSubscribed?: () => void;
+};
+
+// Header of a creator's profile: their subscription plan, the connected wallet's subscription and a
+// subscribe button, or the pricing form when the creator views their own profile
+const CreatorProfile: React.FC<Props> = ({ creator, agentCount, onSubscribed }) => {
+  const { address } = useAccount();
+  const [plan, setPlan] = useState<SubscriptionPlan | null>(null);
+  const [expiresAt, setExpiresAt] = useState(0);
+  const [priceInput, setPriceInput] = useState('');
+  const [priceToken, setPriceToken] = useState(NATIVE_TOKEN.address);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const contractAddress = getRentAgentAddress();
+  const isSelf = !!address && address.toLowerCase() === creator.toLowerCase();
+  const paymentTokens = getPaymentTokens();
+
+  const refresh = useCallback(async () => {
+    const provider = getReadProvider();
+    if (!provider || !contractAddress) return;
+    try {
+      setPlan(await getSubscriptionPlan(provider, contractAddress, creator));
+      if (address) setExpiresAt((await getActiveSubscriptions(provider, contractAddress, [creator], address))[creator.toLowerCase()] ?? 0);
+    } catch (e) {
+      console.warn('[CreatorProfile] failed to read the subscription plan', e);
+    }
+  }, [address, contractAddress, creator]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setError(null);
+    setBusy(label);
+    try {
+      await action();
+      await refresh();
+    } catch (e) {
+      console.error(`[CreatorProfile] ${label} failed`, e);
+      setError(describeError(e));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSubscribe = () => run('Subscribing...', async () => {
+    await subscribe(await getWalletSigner(address), contractAddress, creator, setBusy);
+    onSubscribed?.();
+  });
+
+  const handleSetPrice = () => run('Saving price...', async () => {
+    await setSubscriptionPrice(await getWalletSigner(address), contractAddress, priceInput, priceToken);
+    setPriceInput('');
+  });
+
+  const active = expiresAt * 1000 > Date.now();
+  const renewsTo = new Date((Math.max(expiresAt, Math.floor(Date.now() / 1000)) + SUBSCRIPTION_PERIOD) * 1000);
+
+  return (
+    <div style={{ marginBottom: 24, padding: 16, border: '1px solid #e6edf6', borderRadius: 12, background: '#fff', color: '#1f2937' }}>
+      <div style={{ fontSize: 13, color: '#6b7280' }}>Creator</div>
+      <div style={{ fontFamily: 'monospace', fontSize: 16, fontWeight: 600, wordBreak: 'break-all' }}>{creator}</div>
+      <div style={{ fontSize: 13, color: '#6b7280', marginTop: 4 }}>{agentCount} agent{agentCount === 1 ? '' : 's'}</div>
+
+      {!contractAddress && <div style={{ marginTop: 12, fontSize: 13, color: '#6b7280' }}>Subscriptions need the RentAgent contract to be configured.</div>}
+
+      {contractAddress && (
+        <div style={{ marginTop: 12 }}>
+          <div>
+            <strong>Subscription:</strong>{' '}
+            <span style={{ color: plan ? '#059669' : '#6b7280', fontWeight: plan ? 600 : 400 }}>{plan ? formatSubscriptionPrice(plan) : 'Not offered'}</span>
+          </div>
+          {plan && <div style={{ fontSize: 13, color: '#6b7280', marginTop: 2 }}>Covers every agent this creator owns, including ones they publish later.</div>}
+
+          {!isSelf && active && (
+            <div style={{ marginTop: 8, fontSize: 13, color: '#047857' }}>✓ Subscribed until {new Date(expiresAt * 1000).toLocaleString()}</div>
+          )}
+          {!isSelf && plan && (
+            <button
+              onClick={handleSubscribe}
+              disabled={!!busy || !address}
+              title={address ? `Access until ${renewsTo.toLocaleString()}` : 'Connect a wallet to subscribe'}
+              style={{ marginTop: 8, padding: '10px 16px', background: busy ? '#9ca3af' : '#8b5cf6', color: 'white', border: 'none', borderRadius: 8, fontWeight: 600 }}
+            >
+              {active ? 'Extend subscription' : 'Subscribe'}
+            </button>
+          )}
+
+          {isSelf && (
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 8 }}>
+              <input
+                value={priceInput}
+                onChange={(e) => setPriceInput(e.target.value)}
+                placeholder='Monthly price (empty to stop offering)'
+                style={{ flex: 1, padding: 8, border: '1px solid #d1d5db', borderRadius: 6 }}
+              />
+              {paymentTokens.length > 1 && (
+                <select value={priceToken} onChange={(e) => setPriceToken(e.target.value)} style={{ padding: 8, border: '1px solid #d1d5db', borderRadius: 6 }}>
+                  {paymentTokens.map(t => (
+                    <option key={t.address} value={t.address}>{t.symbol}</option>
+                  ))}
+                </select>
+              )}
+              <button onClick={handleSetPrice} disabled={!!busy} style={{ padding: '8px 12px', background: '#10b981', color: 'white', border: 'none', borderRadius: 6 }}>
+                {plan ? 'Update price' : 'Offer subscription'}
+              </button>
+            </div>
+          )}
+
+          {busy && <div style={{ marginTop: 8, fontSize: 13, color: '#0891b2' }}>{busy}</div>}
+          {error && <div style={{ marginTop: 8, fontSize: 13, color: '#991b1b' }}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CreatorProfile;
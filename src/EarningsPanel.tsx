@@ -0,0 +1,157 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { ethers } from 'ethers';
+import RentAgentABI from './abis/RentAgent.json';
+import { getCachedCatalog, getReadProvider, syncAgentCatalog, type CatalogAgent } from './lib/agentCatalog';
+import { getRentAgentAddress } from './lib/config';
+import { describeError } from './lib/errorMessages';
+import { findPaymentToken, formatTokenAmount, getPaymentTokens, isNativeToken, priceSymbol, type PaymentToken } from './lib/paymentTokens';
+
+type TokenBalance = { token: PaymentToken; amount: bigint };
+
+// Creator earnings: escrowed RentAgent balance (net of platform fee and splits) plus per-agent gross
+// rental stats rebuilt from AgentRented events. ERC-20 income is escrowed per token and withdrawn separately.
+const EarningsPanel: React.FC = () => {
+  const { address } = useAccount();
+  const [balanceWei, setBalanceWei] = useState<bigint | null>(null);
+  const [tokenBalances, setTokenBalances] = useState<TokenBalance[]>([]);
+  const [agents, setAgents] = useState<CatalogAgent[]>([]);
+  const [loading, setLoading] = useState(false);
+  // address of the currency being withdrawn (ZeroAddress for ETH)
+  const [withdrawing, setWithdrawing] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const provider = getReadProvider();
+    const contractAddress = getRentAgentAddress();
+    if (!address || !provider || !contractAddress) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const contract = new ethers.Contract(contractAddress, RentAgentABI, provider);
+      setBalanceWei(await contract.balances(address));
+      const tokens = getPaymentTokens().filter(t => !isNativeToken(t.address));
+      setTokenBalances(await Promise.all(tokens.map(async token => ({ token, amount: (await contract.tokenBalances(token.address, address)) as bigint }))));
+      await syncAgentCatalog(provider, contractAddress);
+      const catalog = await getCachedCatalog(provider, contractAddress);
+      setAgents(catalog.filter(a => a.onChain && a.owner === address.toLowerCase()));
+    } catch (e) {
+      console.warn('[EarningsPanel] failed to load earnings', e);
+      setError(describeError(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleWithdraw = async (token?: PaymentToken) => {
+    setError(null);
+    setMessage(null);
+    setWithdrawing(token?.address ?? ethers.ZeroAddress);
+    try {
+      const provider = new ethers.BrowserProvider((window as unknown as { ethereum: ethers.Eip1193Provider }).ethereum);
+      const contract = new ethers.Contract(getRentAgentAddress(), RentAgentABI, await provider.getSigner());
+      const tx = token ? await contract.withdrawToken(token.address) : await contract.withdraw();
+      setMessage('Withdrawal submitted — waiting for confirmation');
+      await tx.wait();
+      console.info('[EarningsPanel] withdraw confirmed', { txHash: tx.hash });
+      setMessage('Withdrawal confirmed ✓');
+      await refresh();
+    } catch (e) {
+      console.warn('[EarningsPanel] withdraw failed', e);
+      setError(describeError(e));
+    } finally {
+      setWithdrawing(null);
+    }
+  };
+
+  if (!getRentAgentAddress()) return null;
+  if (!address) {
+    return <div style={{ maxWidth: 1000, margin: '0 auto', padding: 12, color: '#9ca3af' }}>Connect your wallet to see your earnings.</div>;
+  }
+
+  const totalRentals = agents.reduce((n, a) => n + a.rentalCount, 0);
+  const canWithdraw = !!balanceWei && balanceWei > 0n && !withdrawing;
+  const heldTokens = tokenBalances.filter(b => b.amount > 0n);
+
+  return (
+    <div style={{ width: '100%', maxWidth: 1000, margin: '1rem auto', padding: 16, background: '#fff', color: '#1f2937', borderRadius: 12, border: '1px solid #e5e7eb' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <div>
+          <h3 style={{ margin: 0 }}>Earnings</h3>
+          <div style={{ fontSize: 13, color: '#6b7280' }}>{totalRentals} rental{totalRentals === 1 ? '' : 's'} across {agents.length} agent{agents.length === 1 ? '' : 's'}</div>
+        </div>
+        <div style={{ textAlign: 'right' }}>
+          <div style={{ fontSize: 12, color: '#6b7280' }}>Available to withdraw</div>
+          <div style={{ fontSize: 22, fontWeight: 700, color: '#059669' }}>
+            Ξ {balanceWei === null ? '—' : ethers.formatEther(balanceWei)}
+          </div>
+          {heldTokens.map(b => (
+            <div key={b.token.address} style={{ fontSize: 16, fontWeight: 600, color: '#059669' }}>
+              {b.token.symbol} {formatTokenAmount(b.amount, b.token.decimals)}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: 8, marginTop: 12 }}>
+        <button
+          onClick={() => handleWithdraw()}
+          disabled={!canWithdraw}
+          style={{ padding: '8px 16px', background: canWithdraw ? '#10b981' : '#9ca3af', color: 'white', border: 'none', borderRadius: 6, fontWeight: 600 }}
+        >
+          {withdrawing === ethers.ZeroAddress ? 'Withdrawing...' : 'Withdraw ETH'}
+        </button>
+        {heldTokens.map(b => (
+          <button
+            key={b.token.address}
+            onClick={() => handleWithdraw(b.token)}
+            disabled={!!withdrawing}
+            style={{ padding: '8px 16px', background: withdrawing ? '#9ca3af' : '#10b981', color: 'white', border: 'none', borderRadius: 6, fontWeight: 600 }}
+          >
+            {withdrawing === b.token.address ? 'Withdrawing...' : `Withdraw ${b.token.symbol}`}
+          </button>
+        ))}
+        <button
+          onClick={refresh}
+          disabled={loading}
+          style={{ padding: '8px 16px', background: loading ? '#9ca3af' : '#6b7280', color: 'white', border: 'none', borderRadius: 6 }}
+        >
+          {loading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {agents.length > 0 && (
+        <table style={{ width: '100%', marginTop: 16, borderCollapse: 'collapse', fontSize: 14 }}>
+          <thead>
+            <tr style={{ textAlign: 'left', color: '#6b7280' }}>
+              <th style={{ padding: '6px 4px' }}>Agent</th>
+              <th style={{ padding: '6px 4px' }}>Rentals</th>
+              <th style={{ padding: '6px 4px' }}>Gross</th>
+            </tr>
+          </thead>
+          <tbody>
+            {agents.map(a => (
+              <tr key={a.cid} style={{ borderTop: '1px solid #f3f4f6' }}>
+                <td style={{ padding: '6px 4px' }}>
+                  {a.title || <span style={{ fontFamily: 'monospace', fontSize: 12 }}>{a.cid.slice(0, 12)}…</span>}
+                </td>
+                <td style={{ padding: '6px 4px' }}>{a.rentalCount}</td>
+                <td style={{ padding: '6px 4px' }}>{priceSymbol(a.paymentToken)} {formatTokenAmount(a.earnedWei, findPaymentToken(a.paymentToken).decimals)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {message && <div style={{ marginTop: 12, fontSize: 13, color: '#065f46' }}>{message}</div>}
+      {error && <div style={{ marginTop: 12, fontSize: 13, color: '#991b1b' }}>{error}</div>}
+    </div>
+  );
+};
+
+export default EarningsPanel;
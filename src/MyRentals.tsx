@@ -0,0 +1,152 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import RentModal from './RentModal';
+import { getReadProvider, syncAgentCatalog } from './lib/agentCatalog';
+import { formatTimeLeft, loadRentalHistory, type RentalHistoryEntry } from './lib/rentalHistory';
+import { getRentAgentAddress } from './lib/config';
+import { RENTAL_TIERS } from './lib/rentalTiers';
+import { findPaymentToken, formatTokenAmount } from './lib/paymentTokens';
+import { describeError } from './lib/errorMessages';
+
+type OpenRental = { cid: string; extend: boolean };
+
+// Renter view: every agent the connected wallet has rented, rebuilt from AgentRented logs so it is the same
+// on any device. Active rentals count down to their on-chain expiry and can be downloaded again or extended.
+const MyRentals: React.FC = () => {
+  const { address } = useAccount();
+  const [rentals, setRentals] = useState<RentalHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState<OpenRental | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const contractAddress = getRentAgentAddress();
+
+  const refresh = useCallback(async () => {
+    const provider = getReadProvider();
+    if (!address || !provider || !contractAddress) return;
+    setLoading(true);
+    setError(null);
+    try {
+      // the catalog supplies titles, payment tokens and listing state for the rented agents
+      await syncAgentCatalog(provider, contractAddress);
+      setRentals(await loadRentalHistory(provider, contractAddress, address, {
+        onProgress: (syncedTo, latest) => setSyncStatus(`Scanning rentals… block ${syncedTo} of ${latest}`),
+      }));
+    } catch (e) {
+      console.warn('[MyRentals] failed to load rental history', e);
+      setError(describeError(e));
+    } finally {
+      setLoading(false);
+      setSyncStatus(null);
+    }
+  }, [address, contractAddress]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // an extension moves the expiry, so reread it once the modal closes
+  const handleClose = () => {
+    const wasExtend = open?.extend;
+    setOpen(null);
+    if (wasExtend) refresh();
+  };
+
+  if (!contractAddress) {
+    return <div style={{ maxWidth: 1000, margin: '0 auto', padding: 12, color: '#9ca3af' }}>Rental history needs the RentAgent contract to be configured.</div>;
+  }
+  if (!address) {
+    return <div style={{ maxWidth: 1000, margin: '0 auto', padding: 12, color: '#9ca3af' }}>Connect your wallet to see your rentals.</div>;
+  }
+
+  const activeCount = rentals.filter(r => r.expiresAt > now).length;
+
+  return (
+    <div style={{ width: '100%', maxWidth: 1000, margin: '1rem auto', padding: 16, background: '#fff', color: '#1f2937', borderRadius: 12, border: '1px solid #e5e7eb' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <div>
+          <h3 style={{ margin: 0 }}>My Rentals</h3>
+          <div style={{ fontSize: 13, color: '#6b7280' }}>{activeCount} active · {rentals.length} agent{rentals.length === 1 ? '' : 's'} rented</div>
+        </div>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          style={{ padding: '8px 16px', background: loading ? '#9ca3af' : '#6b7280', color: 'white', border: 'none', borderRadius: 6 }}
+        >
+          {loading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {syncStatus && <div style={{ marginTop: 8, fontSize: 13, color: '#0891b2' }}>{syncStatus}</div>}
+      {!loading && !error && rentals.length === 0 && (
+        <div style={{ marginTop: 16, color: '#6b7280' }}>This wallet hasn't rented any agents on this network yet.</div>
+      )}
+
+      {rentals.map(r => {
+        const active = r.expiresAt > now;
+        const token = findPaymentToken(r.agent?.paymentToken);
+        const delisted = r.agent?.onChain && !r.agent.listed;
+        return (
+          <div key={r.cid} style={{ marginTop: 12, padding: 12, border: '1px solid #e6edf6', borderRadius: 8 }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 12 }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontWeight: 600 }}>{r.agent?.title || <span style={{ fontFamily: 'monospace', fontSize: 13 }}>{r.cid}</span>}</div>
+                {active ? (
+                  <div style={{ fontSize: 13, color: '#047857', marginTop: 2 }}>
+                    Active · {formatTimeLeft(r.expiresAt - now)} left (until {new Date(r.expiresAt * 1000).toLocaleString()})
+                  </div>
+                ) : (
+                  <div style={{ fontSize: 13, color: '#6b7280', marginTop: 2 }}>Expired {new Date(r.expiresAt * 1000).toLocaleString()}</div>
+                )}
+                <button onClick={() => setExpanded(prev => (prev === r.cid ? null : r.cid))} style={{ marginTop: 4, padding: 0, background: 'none', border: 'none', color: '#0891b2', cursor: 'pointer', fontSize: 12 }}>
+                  {expanded === r.cid ? 'Hide history' : `${r.events.length} payment${r.events.length === 1 ? '' : 's'}`}
+                </button>
+              </div>
+              <div style={{ display: 'flex', gap: 8 }}>
+                {active && (
+                  <button onClick={() => setOpen({ cid: r.cid, extend: false })} style={{ padding: '8px 12px', background: '#06b6d4', color: 'white', border: 'none', borderRadius: 6 }}>
+                    Download
+                  </button>
+                )}
+                <button
+                  onClick={() => setOpen({ cid: r.cid, extend: true })}
+                  disabled={delisted}
+                  title={delisted ? 'The owner has delisted this agent' : undefined}
+                  style={{ padding: '8px 12px', background: delisted ? '#9ca3af' : '#8b5cf6', color: 'white', border: 'none', borderRadius: 6 }}
+                >
+                  {active ? 'Extend' : 'Rent again'}
+                </button>
+              </div>
+            </div>
+            {expanded === r.cid && (
+              <div style={{ marginTop: 8, fontSize: 12, color: '#374151' }}>
+                {r.events.map(e => (
+                  <div key={`${e.txHash}:${e.logIndex}`} style={{ display: 'flex', gap: 8, marginTop: 2 }}>
+                    <span>{RENTAL_TIERS[e.tier]?.label ?? `Tier ${e.tier}`}</span>
+                    <span>{formatTokenAmount(e.price, token.decimals)} {token.symbol}</span>
+                    <span style={{ color: '#6b7280' }}>until {new Date(e.expiresAt * 1000).toLocaleString()}</span>
+                    <span style={{ color: '#9ca3af', fontFamily: 'monospace' }}>{e.txHash.slice(0, 10)}…</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {open?.cid === r.cid && (
+              <RentModal cid={r.cid} onClose={handleClose} authAddress={address} price={r.agent?.price} manifestCid={r.agent?.manifestCid} extend={open.extend} />
+            )}
+          </div>
+        );
+      })}
+
+      {error && <div style={{ marginTop: 12, fontSize: 13, color: '#991b1b' }}>{error}</div>}
+    </div>
+  );
+};
+
+export default MyRentals;
@@ -1,28 +1,31 @@
-import React, { useState } from 'react';
-import { getKeyFromLit, createLitAuthSig } from './lib/litHelpers';
+import React, { useEffect, useState } from 'react';
 import { ethers } from 'ethers';
-import { useAccount, useContractWrite, usePrepareContractWrite, useContractRead } from 'wagmi';
-import { parseEther } from 'viem';
 import RentAgentABI from './abis/RentAgent.json';
+import { getReadProvider, loadLocalUploads, type LitKeyEntry, type LocalUploadRecord } from './lib/agentCatalog';
+import { getRentAgentAddress, requireDeployedChain } from './lib/config';
+import { getConditionsChain, hasSubscriberCondition } from './lib/accessConditions';
+import { RENTAL_TIERS, computeRentalExpiry, formatTierPrices, type RentalTierId, type TierPriceInputs } from './lib/rentalTiers';
+import { computeRentalBreakdown, formatBps, type RevenueSplit } from './lib/revenueSplits';
+import { ERC20_ABI, findPaymentToken, formatTokenAmount, isNativeToken, parseTokenAmount, priceSymbol } from './lib/paymentTokens';
+import { fetchAgentManifest, getRememberedManifestCid, manifestToUploadRecord, rememberManifestCid } from './lib/agentManifest';
+import type { DecryptProgress } from './lib/cryptoHelpers';
+import { agentService } from './lib/agentService';
+import { checkAccessGate, describeAccessGate, type AccessGate } from './lib/accessGates';
+import { getWalletSigner } from './lib/wallet';
+import { saveStreamAsFile } from './lib/fileDownload';
+import { describeError, errorCode } from './lib/errorMessages';
+import { ConfigError, InvalidInputError, type AppErrorCode } from './lib/errors';
 
 type Props = {
   cid: string;
   onClose: () => void;
   authAddress?: string | null;
-  price?: string; // ETH amount as decimal string
+  price?: string; // decimal amount in the agent's payment token, cheapest tier; used when tier prices are unknown
+  manifestCid?: string; // published agent manifest, used when this browser has no local record
+  extend?: boolean; // always pay, even with an active rental, subscription or token gate (My Rentals "Extend")
 };
 
 
-const ethToHex = (eth: string) => {
-  const sanitized = String(eth).replace(/[^0-9.]/g, '') || '0';
-  const [whole, frac = ''] = sanitized.split('.');
-  const wholeWei = BigInt(whole || '0') * BigInt(10 ** 18);
-  const fracPadded = (frac + '0'.repeat(18)).slice(0, 18);
-  const fracWei = BigInt(fracPadded);
-  const wei = wholeWei + fracWei;
-  return '0x' + wei.toString(16);
-};
-
 // Try to canonicalize / checksum an address. Prefer ethers if present on window or in imports; otherwise
 // perform a lightweight validation (lowercase + 0x check). This is only for UX validation prior to sending
 // a transaction - the wallet will ultimately reject invalid addresses.
@@ -39,65 +42,118 @@ const normalizeAddress = (addr?: string) => {
   return '';
 };
 
-const RentModal: React.FC<Props> = ({ cid, onClose, authAddress, price }) => {
-  const { address } = useAccount();
+const RentModal: React.FC<Props> = ({ cid, onClose, authAddress, price, manifestCid, extend }) => {
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<AppErrorCode | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [rentStage, setRentStage] = useState<string | null>(null);
   const [rentSuccess, setRentSuccess] = useState(false);
-  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  // Lit-released symmetric key; the payload is only fetched and decrypted when the renter clicks download
+  const [decryptionKey, setDecryptionKey] = useState<string | null>(null);
+  const [downloadProgress, setDownloadProgress] = useState<DecryptProgress | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [record, setRecord] = useState<LocalUploadRecord | null>(() => loadLocalUploads().find(r => r.cid === cid) || null);
+  const [manifestInput, setManifestInput] = useState('');
+  const knownManifestCid = manifestCid || record?.manifestCid || getRememberedManifestCid(cid) || '';
+  const [chainTierPrices, setChainTierPrices] = useState<TierPriceInputs | null>(null);
+  const [currentExpiry, setCurrentExpiry] = useState(0);
+  const [platformFeeBps, setPlatformFeeBps] = useState(0n);
+  const [splits, setSplits] = useState<RevenueSplit[]>([]);
+  const [chainPaymentToken, setChainPaymentToken] = useState<string | null>(null);
+  const paymentToken = findPaymentToken(chainPaymentToken ?? record?.paymentToken);
+  const symbol = priceSymbol(paymentToken.address);
+  const tierPrices: TierPriceInputs = chainTierPrices || record?.tierPrices || [price || '', '', ''];
+  const offeredTiers = RENTAL_TIERS.filter(t => tierPrices[t.id]);
+  const [selectedTier, setSelectedTier] = useState<RentalTierId>(() => offeredTiers[0]?.id ?? 0);
+  const selectedPrice = tierPrices[selectedTier];
 
-  // Smart contract configuration
-  const RENT_AGENT_CONTRACT = (import.meta.env.VITE_RENT_AGENT_ADDRESS as string) || '';
-  
-  // Prepare contract write for renting agent
-  const { config: rentConfig } = usePrepareContractWrite({
-    address: RENT_AGENT_CONTRACT as `0x${string}`,
-    abi: RentAgentABI,
-    functionName: 'rentAgent',
-    args: [cid],
-    value: price ? parseEther(price) : undefined,
-    enabled: !!price && !!RENT_AGENT_CONTRACT,
-  });
+  // Token/NFT-gated agents: holders unlock without paying; checked up front so the button can say so
+  const [holdsGate, setHoldsGate] = useState(false);
+  const accessGate = record?.accessGate;
+
+  // Smart contract configuration: the deployment on the wallet's chain, or the primary one
+  const RENT_AGENT_CONTRACT = getRentAgentAddress();
+
+  // Contract tier prices are authoritative; the current expiry lets us preview an extension
+  useEffect(() => {
+    const provider = getReadProvider();
+    if (!RENT_AGENT_CONTRACT || !provider) return;
+    let cancelled = false;
+    const contract = new ethers.Contract(RENT_AGENT_CONTRACT, RentAgentABI, provider);
+    (async () => {
+      try {
+        const [agent, pricesWei] = await Promise.all([contract.agents(cid), contract.getTierPrices(cid)]);
+        const prices = formatTierPrices(pricesWei, findPaymentToken(agent.paymentToken).decimals);
+        if (cancelled || !prices.some(Boolean)) return;
+        setChainPaymentToken(String(agent.paymentToken).toLowerCase());
+        setChainTierPrices(prices);
+        setSelectedTier(prev => (prices[prev] ? prev : RENTAL_TIERS.find(t => prices[t.id])?.id ?? prev));
+        const [feeBps, agentSplits] = await Promise.all([contract.platformFeeBps(), contract.getSplits(cid)]);
+        if (cancelled) return;
+        setPlatformFeeBps(feeBps);
+        setSplits(agentSplits.map((s: RevenueSplit) => ({ recipient: s.recipient, shareBps: s.shareBps })));
+        if (authAddress) {
+          const expiry = Number(await contract.rentals(cid, authAddress));
+          if (!cancelled) setCurrentExpiry(expiry);
+        }
+      } catch (e) {
+        console.warn('[RentModal] failed to read tier prices from RentAgent', e);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [cid, authAddress, RENT_AGENT_CONTRACT]);
+
+  useEffect(() => {
+    const provider = getReadProvider();
+    if (!accessGate || !authAddress || !provider) return;
+    let cancelled = false;
+    checkAccessGate(accessGate, authAddress, provider)
+      .then(holds => { if (!cancelled) setHoldsGate(holds); })
+      .catch(e => console.warn('[RentModal] failed to check the access gate', e));
+    return () => { cancelled = true; };
+  }, [accessGate, authAddress]);
+
+  const previewExpiry = selectedPrice ? new Date(computeRentalExpiry(selectedTier, currentExpiry) * 1000) : null;
+  const breakdown = (() => {
+    try {
+      return selectedPrice ? computeRentalBreakdown(parseTokenAmount(selectedPrice, paymentToken.decimals), platformFeeBps, splits) : null;
+    } catch {
+      return null;
+    }
+  })();
   
-  const { write: rentAgent, isLoading: isRenting } = useContractWrite({
-    ...rentConfig,
-    onSuccess: (data) => {
-      console.info('[RentModal] Agent rental successful', { txHash: data.hash });
-      setTxHash(data.hash);
-      setMessage('Payment confirmed on blockchain');
-    },
-    onError: (error) => {
-      console.error('[RentModal] Agent rental failed', error);
-      setError(`Rental failed: ${error.message}`);
+  // Prefer a local record that already has Lit entries; otherwise resolve the published manifest
+  const resolveRecord = async (): Promise<LocalUploadRecord> => {
+    if (record?.encryptedSymmetricKeys?.length) return record;
+    const manifestRef = knownManifestCid || manifestInput.trim();
+    if (!manifestRef) {
+      if (record) return record;
+      throw new InvalidInputError('Record not found. Paste the agent manifest CID shared by the owner to rent from this device.');
     }
-  });
-
-  // Check if user is already a renter
-  const { data: isRenter } = useContractRead({
-    address: RENT_AGENT_CONTRACT as `0x${string}`,
-    abi: RentAgentABI,
-    functionName: 'isRenter',
-    args: [cid, address || '0x0'],
-    enabled: !!address && !!RENT_AGENT_CONTRACT,
-  });
+    setRentStage('Resolving agent manifest...');
+    const manifest = await fetchAgentManifest(manifestRef);
+    if (manifest.payloadCid !== cid) throw new InvalidInputError('Manifest does not describe this agent (payload CID mismatch)');
+    rememberManifestCid(cid, manifestRef);
+    const resolved = manifestToUploadRecord(manifest, manifestRef);
+    setRecord(resolved);
+    return resolved;
+  };
 
   const handlePayAndFetch = async () => {
     setError(null);
+    setErrorKind(null);
     setMessage(null);
     setLoading(true);
     setRentStage('Initiating payment...');
     
     try {
-      const stored = JSON.parse(localStorage.getItem('lighthouse_uploads') || '[]') as any[];
-      const record = stored.find(r => r.cid === cid);
-      if (!record) throw new Error('Record not found');
+      const record = await resolveRecord();
 
-      // Check if this is a legacy agent that should not be rented
+      // The key never reached Lit; its owner repairs it in place (agentService.recoverKey), no re-upload needed
       if (record.litPersisted === false) {
-        throw new Error('This is a legacy agent that was uploaded before the latest fixes. The owner needs to re-upload it for compatibility. Please ask the agent owner to re-upload the agent.');
+        throw new InvalidInputError('This agent\'s decryption key is not available on Lit yet. Ask the owner to click Repair Key on the agent in their dashboard, then try again.');
       }
 
       const ownerRaw = record.owner || record.accessControlConditions?.[0]?.returnValueTest?.value || '';
@@ -106,113 +162,132 @@ const RentModal: React.FC<Props> = ({ cid, onClose, authAddress, price }) => {
       console.debug('[RentModal] record snapshot', record);
       console.debug('[RentModal] owner/requester', { ownerRaw, owner, requester });
 
+      const signerForAuth = await getWalletSigner(authAddress);
+      const providerForSign = signerForAuth.provider;
+      const signerAddress = await signerForAuth.getAddress();
+      let rentAgentContract: ethers.Contract | null = null;
+      let rentAgentAddress = RENT_AGENT_CONTRACT;
+      if (RENT_AGENT_CONTRACT) {
+        // Lit checks isRenter() on the chain named in the agent's conditions; a rental elsewhere would not count
+        const deployment = requireDeployedChain(Number((await providerForSign.getNetwork()).chainId));
+        const accChain = getConditionsChain(record.encryptedSymmetricKeys?.[0]?.accessControlConditions ?? record.accessControlConditions);
+        if (deployment.litChain !== accChain) {
+          throw new ConfigError(`This agent's access is checked on ${accChain}, but your wallet is on ${deployment.litChain}. Switch networks and try again.`);
+        }
+        rentAgentAddress = deployment.address;
+        rentAgentContract = new ethers.Contract(rentAgentAddress, RentAgentABI, signerForAuth);
+      }
+      const isRenter = rentAgentContract ? Boolean(await rentAgentContract.isRenter(cid, signerAddress)) : false;
+      // a creator subscription only unlocks agents whose Lit conditions check it
+      const coveredBySubscription = !extend && rentAgentContract && !isRenter && (record.encryptedSymmetricKeys || []).some((e: LitKeyEntry) => hasSubscriberCondition(e.accessControlConditions))
+        ? Boolean(await rentAgentContract.isAgentSubscriber(cid, signerAddress).catch((e: unknown) => {
+          console.warn('[RentModal] isAgentSubscriber check failed; falling back to payment', e);
+          return false;
+        }))
+        : false;
+      const gate: AccessGate | undefined = record.accessGate;
+      // Lit evaluates the gate on the conditions' chain, which the check above made the wallet's chain
+      const satisfiesGate = !extend && gate && !isRenter && !coveredBySubscription
+        ? await checkAccessGate(gate, signerAddress, providerForSign).catch(e => {
+          console.warn('[RentModal] access gate check failed; falling back to payment', e);
+          return false;
+        })
+        : false;
+
       // Check if user is already a renter (owner or has active rental)
       if (owner && owner === requester) {
         setRentStage('Owner detected — skipping payment');
         setMessage('Owner detected — skipping payment');
-      } else if (isRenter) {
+      } else if (isRenter && !extend) {
         setRentStage('Active rental detected — skipping payment');
         setMessage('You already have an active rental for this agent');
+      } else if (coveredBySubscription) {
+        setRentStage('Active subscription detected — skipping payment');
+        setMessage('This agent is covered by your subscription to its creator');
+      } else if (satisfiesGate) {
+        setRentStage('Token gate satisfied — skipping payment');
+        setMessage(`Access granted to ${describeAccessGate(gate)} — no payment needed`);
       } else {
-        if (!price) throw new Error('This agent requires a rental fee');
-        if (!RENT_AGENT_CONTRACT) throw new Error('Smart contract not configured');
+        if (gate && !offeredTiers.length) throw new InvalidInputError(`This agent is only available to ${describeAccessGate(gate)}, and your wallet doesn't qualify`);
+        if (!selectedPrice) throw new InvalidInputError('Select a rental duration offered by this agent');
+        if (!rentAgentContract) throw new ConfigError('Smart contract not configured');
+
+        const amount = parseTokenAmount(selectedPrice, paymentToken.decimals);
+        if (!isNativeToken(paymentToken.address)) {
+          // RentAgent pulls the price with transferFrom, so it needs an allowance first
+          const token = new ethers.Contract(paymentToken.address, ERC20_ABI, signerForAuth);
+          const [allowance, balance] = await Promise.all([
+            token.allowance(signerAddress, rentAgentAddress) as Promise<bigint>,
+            token.balanceOf(signerAddress) as Promise<bigint>,
+          ]);
+          if (balance < amount) throw new InvalidInputError(`Insufficient ${paymentToken.symbol} balance: need ${selectedPrice}, have ${formatTokenAmount(balance, paymentToken.decimals)}`);
+          if (allowance < amount) {
+            setRentStage(`Approving ${paymentToken.symbol}...`);
+            setMessage(`Approve RentAgent to spend ${selectedPrice} ${paymentToken.symbol}`);
+            const approveTx = await token.approve(rentAgentAddress, amount);
+            await approveTx.wait();
+            console.info('[RentModal] token approval confirmed', { txHash: approveTx.hash });
+          }
+        }
 
         setRentStage('Submitting rental transaction...');
-        setMessage(`Renting agent for ${price} ETH`);
-        
-        // Use wagmi contract write for rental
-        await rentAgent?.();
-        
+        setMessage(`Renting agent (${RENTAL_TIERS[selectedTier].label.toLowerCase()}) for ${selectedPrice} ${paymentToken.symbol}`);
+        const tx = isNativeToken(paymentToken.address)
+          ? await rentAgentContract.rentAgent(cid, selectedTier, { value: amount })
+          : await rentAgentContract.rentAgent(cid, selectedTier);
+        console.info('[RentModal] rentAgent submitted', { txHash: tx.hash });
+        setTxHash(tx.hash);
+
+        // Lit evaluates RentAgent.isRenter against chain state, so the rental must be mined first
         setRentStage('Waiting for confirmation...');
         setMessage('Transaction submitted — waiting for confirmation');
-        
-        // Wait for transaction confirmation (handled by wagmi onSuccess callback)
-        // The txHash and success message will be set by the onSuccess callback
+        await tx.wait();
+        setMessage('Payment confirmed on blockchain');
       }
 
-      // Step 3: Retrieving decryption key from Lit
+      // Step 3: Retrieving decryption key from Lit. Entries are gated by the token gate (if any) OR
+      // RentAgent.isRenter OR isAgentSubscriber OR owner equality, so holding the token, a subscription or a
+      // confirmed rental is enough; Lit nodes may lag the wallet's RPC by a block, hence the retries.
       setRentStage('Retrieving decryption key from Lit...');
+      const gotKey = await agentService.unlockKey(signerForAuth, record, { attempts: 3 });
 
-  // No local symmetricKey fallbacks allowed. Only Lit-encrypted keys will be used.
-
-  // attempt Lit retrieval
-      const entries: any[] = [];
-      if (record.encryptedSymmetricKeys && Array.isArray(record.encryptedSymmetricKeys)) entries.push(...record.encryptedSymmetricKeys);
-      else if (record.encryptedSymmetricKey) entries.push({ key: record.encryptedSymmetricKey, accessControlConditions: record.accessControlConditions });
-
-      if (entries.length === 0) {
-        console.error('No encrypted keys available — record snapshot:', record);
-        throw new Error('No encrypted keys available (no Lit entries). The uploader likely failed to persist the key to Lit — ask them to retry publishing.');
-      }
-
-  // use centralized lit helper for key retrieval
-  // Create a proper Lit authSig (SIWE formatted) for Lit decrypt calls
-  const providerForSign = new ethers.BrowserProvider((window as any).ethereum);
-  const signerForAuth = await providerForSign.getSigner();
-  const signerAddress = await signerForAuth.getAddress();
-  const authSig = await createLitAuthSig(signerForAuth, signerAddress);
-
-      // After payment, attempt to retrieve symmetric key from Lighthouse and persist a Lit entry for the renter
-      // so they can decrypt. We will try to fetch the symmetric key from Lighthouse (owner should still have it)
-      // and then save it to Lit with ACC granting the renter address access for the rental period.
-
-      // Try existing Lit entries first (in case uploader already persisted for this renter)
-      let gotKey: string | null = null;
-      for (const e of entries) {
-        console.debug('[RentModal] trying existing Lit entry', { hasACC: !!e?.accessControlConditions });
-        try {
-          const k = await getKeyFromLit(e.key, e.accessControlConditions || null, authSig);
-          console.debug('[RentModal] getKeyFromLit response for entry', { got: !!k });
-          if (k) { gotKey = k; break; }
-        } catch (litErr) {
-          console.warn('getKeyFromLit failed for one entry:', litErr);
-        }
-      }
-
-      // If no Lit key available immediately after payment, poll for a short period — this covers the small propagation window after on-chain rent
-      if (!gotKey) {
-        console.debug('[RentModal] No Lit key available immediately after payment; will poll for up to 30s');
-        const start = Date.now();
-        const timeoutMs = 30_000;
-        while (!gotKey && (Date.now() - start) < timeoutMs) {
-          // eslint-disable-next-line no-await-in-loop
-          await new Promise(r => setTimeout(r, 3000));
-          for (const e of entries) {
-            try {
-              const k = await getKeyFromLit(e.key, e.accessControlConditions || null, authSig);
-              if (k) { gotKey = k; break; }
-            } catch (litErr) {
-              console.debug('[RentModal] poll getKeyFromLit still failing for one entry', typeof litErr === 'object' ? JSON.stringify(litErr) : String(litErr));
-            }
-          }
-        }
-        if (!gotKey) {
-          console.debug('[RentModal] No Lit key available for renter after polling');
-          // Provide a more helpful error message with recovery options
-          throw new Error('Unable to retrieve decryption key from Lit Protocol. This may be due to:\n\n1. Session expiration issues - try asking the owner to re-upload the agent\n2. Network connectivity issues - try again in a few minutes\n3. Access control conditions not met - ensure you have the required permissions\n\nContact the agent owner for assistance or try the "Recover Key" option if available.');
-        }
-      }
-
-      if (!gotKey) throw new Error('Unable to retrieve symmetric key from Lit after payment/persist attempt');
-
-      // Step 4: Decrypting agent files
-      setRentStage('Decrypting agent files...');
-      
-      const { decryptIpfsFile } = await import('./lib/cryptoHelpers');
-      const decrypted = await decryptIpfsFile(cid, gotKey as string);
-      const url = URL.createObjectURL(decrypted);
-      setDownloadUrl(url);
-      
+      // Step 4: decryption streams from the gateway straight to the saved file in handleDownload
+      setDecryptionKey(gotKey);
       setRentSuccess(true);
-      setMessage('Payment complete. Your agent is ready to download.');
+      setMessage(null);
     } catch (err: any) {
       console.error(err);
-      setError(err.message || String(err));
+      setError(describeError(err));
+      setErrorKind(errorCode(err));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleDownload = async () => {
+    if (!decryptionKey || downloading) return;
+    setError(null);
+    setErrorKind(null);
+    setDownloading(true);
+    setDownloadProgress({ loaded: 0, total: null });
+    try {
+      await saveStreamAsFile(async () => agentService.download(await getWalletSigner(authAddress), cid, { record: record ?? undefined, symmetricKey: decryptionKey, onProgress: setDownloadProgress }), `rented_${cid}`);
+      setMessage('Agent downloaded ✓');
+    } catch (err) {
+      // AbortError: the renter cancelled the save dialog
+      if ((err as Error)?.name !== 'AbortError') {
+        console.error('[RentModal] download failed', err);
+        setError(describeError(err));
+        setErrorKind(errorCode(err));
+      }
+      setDownloadProgress(null);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
   // Success state
   if (rentSuccess) {
     return (
@@ -220,27 +295,18 @@ const RentModal: React.FC<Props> = ({ cid, onClose, authAddress, price }) => {
         <h4 style={{ color: '#059669', marginTop: 0 }}>✅ Payment complete. Your agent is ready to download.</h4>
         <div style={{ display: 'flex', gap: 12, marginTop: 16 }}>
           <button 
-            onClick={() => {
-              if (downloadUrl) {
-                const a = document.createElement('a');
-                a.href = downloadUrl;
-                a.download = `rented_${cid}`;
-                document.body.appendChild(a);
-                a.click();
-                a.remove();
-                URL.revokeObjectURL(downloadUrl);
-              }
-            }}
+            onClick={handleDownload}
+            disabled={downloading}
             style={{ 
               padding: '12px 20px', 
-              background: '#06b6d4', 
+              background: downloading ? '#9ca3af' : '#06b6d4', 
               color: 'white', 
               border: 'none', 
               borderRadius: 8,
               fontWeight: 600
             }}
           >
-            Download Agent
+            {downloading ? 'Downloading...' : 'Download Agent'}
           </button>
           <button 
             onClick={() => {
@@ -259,47 +325,113 @@ const RentModal: React.FC<Props> = ({ cid, onClose, authAddress, price }) => {
             Open in Workspace
           </button>
         </div>
+        {downloadProgress && (
+          <div style={{ marginTop: 16 }}>
+            <div style={{ height: 8, background: '#d1fae5', borderRadius: 4, overflow: 'hidden' }}>
+              <div
+                style={{
+                  height: '100%',
+                  width: downloadProgress.total ? `${Math.min(100, (downloadProgress.loaded / downloadProgress.total) * 100)}%` : '0%',
+                  background: '#10b981',
+                  transition: 'width 0.2s',
+                }}
+              />
+            </div>
+            <div style={{ marginTop: 6, fontSize: 12, color: '#065f46' }}>
+              Decrypted {formatMb(downloadProgress.loaded)}
+              {downloadProgress.total !== null ? ` of ${formatMb(downloadProgress.total)}` : ''}
+            </div>
+          </div>
+        )}
+        {message && <div style={{ marginTop: 12, fontSize: 13, color: '#065f46' }}>{message}</div>}
+        {error && <div style={{ marginTop: 12, fontSize: 13, color: '#991b1b' }}>{error}</div>}
       </div>
     );
   }
 
   return (
     <div style={{ padding: 24, marginTop: 12, background: '#fff', borderRadius: 12, border: '1px solid #e6edf6' }}>
-      <h4 style={{ marginTop: 0, marginBottom: 16 }}>Rent Agent</h4>
+      <h4 style={{ marginTop: 0, marginBottom: 16 }}>{extend ? 'Extend Rental' : 'Rent Agent'}</h4>
       
       {/* Agent Info */}
-      {(() => {
-        try {
-          const stored = JSON.parse(localStorage.getItem('lighthouse_uploads') || '[]') as any[];
-          const r = stored.find(s => s.cid === cid) || {};
-          return (
-            <div style={{ marginBottom: 16 }}>
-              <div style={{ marginBottom: 8 }}>
-                <strong>Agent name:</strong> <span style={{ color: '#6b7280' }}>{r.title || cid}</span>
-              </div>
-              <div style={{ marginBottom: 8 }}>
-                <strong>Price:</strong> <span style={{ color: '#059669', fontWeight: 600 }}>{price || '0.05'} ETH</span>
-              </div>
-              <div>
-                <strong>Recipient wallet address:</strong> 
-                <div style={{ 
-                  marginTop: 4, 
-                  padding: 8, 
-                  background: '#f3f4f6', 
-                  borderRadius: 6, 
-                  fontFamily: 'monospace', 
-                  fontSize: 14,
-                  color: '#374151'
-                }}>
-                  {authAddress || 'Not connected'}
-                </div>
-              </div>
+      <div style={{ marginBottom: 16 }}>
+        <div style={{ marginBottom: 8 }}>
+          <strong>Agent name:</strong> <span style={{ color: '#6b7280' }}>{record?.title || cid}</span>
+        </div>
+        {accessGate && (
+          <div style={{ marginBottom: 8 }}>
+            <strong>Access:</strong> <span style={{ color: '#6d28d9' }}>{describeAccessGate(accessGate)}</span>
+            {holdsGate && !extend && <div style={{ fontSize: 13, color: '#047857', marginTop: 2 }}>Your wallet qualifies — no payment needed</div>}
+          </div>
+        )}
+        <div style={{ marginBottom: 8 }}>
+          <strong>Duration:</strong>
+          <div style={{ display: 'flex', gap: 8, marginTop: 4 }}>
+            {offeredTiers.length === 0 && <span style={{ color: '#6b7280' }}>No rental tiers offered</span>}
+            {offeredTiers.map(t => (
+              <button
+                key={t.key}
+                onClick={() => setSelectedTier(t.id)}
+                disabled={loading}
+                style={{
+                  padding: '8px 12px',
+                  borderRadius: 6,
+                  border: selectedTier === t.id ? '2px solid #06b6d4' : '1px solid #d1d5db',
+                  background: selectedTier === t.id ? '#ecfeff' : '#fff',
+                  cursor: 'pointer'
+                }}
+              >
+                {t.label} · {symbol} {tierPrices[t.id]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div style={{ marginBottom: 8 }}>
+          <strong>Price:</strong> <span style={{ color: '#059669', fontWeight: 600 }}>{selectedPrice || '—'} {paymentToken.symbol}</span>
+          {previewExpiry && (
+            <div style={{ fontSize: 13, color: '#6b7280', marginTop: 2 }}>
+              {currentExpiry * 1000 > Date.now() ? 'Extends your rental until ' : 'Access until '}{previewExpiry.toLocaleString()}
             </div>
-          );
-        } catch (e) {
-          return null;
-        }
-      })()}
+          )}
+        </div>
+        {breakdown && (platformFeeBps > 0n || splits.length > 0) && (
+          <div style={{ marginBottom: 8, padding: 8, background: '#f9fafb', borderRadius: 6, fontSize: 13, color: '#374151' }}>
+            <div style={{ fontWeight: 600, marginBottom: 4 }}>Payment breakdown</div>
+            {platformFeeBps > 0n && <div>Platform fee ({formatBps(platformFeeBps)}): {symbol} {formatTokenAmount(breakdown.platformFee, paymentToken.decimals)}</div>}
+            {breakdown.collaborators.map((c, i) => (
+              <div key={c.recipient + i}>
+                Collaborator {c.recipient.slice(0, 6)}…{c.recipient.slice(-4)} ({formatBps(splits[i].shareBps)}): {symbol} {formatTokenAmount(c.amount, paymentToken.decimals)}
+              </div>
+            ))}
+            <div>Creator: {symbol} {formatTokenAmount(breakdown.creator, paymentToken.decimals)}</div>
+          </div>
+        )}
+        <div>
+          <strong>Recipient wallet address:</strong> 
+          <div style={{ 
+            marginTop: 4, 
+            padding: 8, 
+            background: '#f3f4f6', 
+            borderRadius: 6, 
+            fontFamily: 'monospace', 
+            fontSize: 14,
+            color: '#374151'
+          }}>
+            {authAddress || 'Not connected'}
+          </div>
+        </div>
+        {!record?.encryptedSymmetricKeys?.length && !knownManifestCid && (
+          <div style={{ marginTop: 12 }}>
+            <strong>Agent manifest CID:</strong>
+            <input
+              value={manifestInput}
+              onChange={(e) => setManifestInput(e.target.value)}
+              placeholder='Manifest CID shared by the agent owner'
+              style={{ display: 'block', width: '100%', marginTop: 4, padding: 8, border: '1px solid #d1d5db', borderRadius: 6, fontFamily: 'monospace' }}
+            />
+          </div>
+        )}
+      </div>
 
       {/* Progress Stages */}
       {loading && rentStage && (
@@ -323,7 +455,7 @@ const RentModal: React.FC<Props> = ({ cid, onClose, authAddress, price }) => {
             cursor: loading ? 'not-allowed' : 'pointer'
           }}
         >
-          {loading ? 'Processing...' : 'Pay & Unlock'}
+          {loading ? 'Processing...' : extend ? 'Pay & Extend' : holdsGate ? 'Unlock' : 'Pay & Unlock'}
         </button>
         <button 
           onClick={onClose} 
@@ -372,29 +504,19 @@ const RentModal: React.FC<Props> = ({ cid, onClose, authAddress, price }) => {
         <div style={{ marginTop: 12, padding: 12, background: '#fef2f2', borderRadius: 8, color: '#991b1b' }}>
           <div style={{ fontWeight: 600, marginBottom: 4 }}>Error:</div>
           <div style={{ fontSize: 14 }}>{error}</div>
-          {error.includes('Lit') && (
+          {errorKind === 'LIT' && (
             <div style={{ marginTop: 8, fontSize: 12 }}>
               <strong>Fallback:</strong> If Lit fails, try using the owner's Lighthouse recovery key.
             </div>
           )}
-          {error.includes('Decryption unavailable') && (
+          {errorKind === 'DECRYPTION' && (
             <div style={{ marginTop: 8, fontSize: 12 }}>
               <strong>Note:</strong> Owner may need to recover the key.
             </div>
           )}
-          {error.includes('Session expiration') && (
-            <div style={{ marginTop: 8, fontSize: 12 }}>
-              <strong>Solution:</strong> This agent was uploaded with an older version that has compatibility issues. Ask the agent owner to re-upload the agent with the latest version.
-            </div>
-          )}
-          {error.includes('Missing session expiration') && (
-            <div style={{ marginTop: 8, fontSize: 12, padding: 8, background: '#fef3c7', borderRadius: 4 }}>
-              <strong>⚠️ Legacy Agent Detected:</strong> This agent was uploaded before the latest fixes. The owner needs to re-upload it for compatibility.
-            </div>
-          )}
-          {error.includes('legacy agent') && (
+          {errorKind === 'SESSION_EXPIRED' && (
             <div style={{ marginTop: 8, fontSize: 12, padding: 8, background: '#fef3c7', borderRadius: 4 }}>
-              <strong>🚫 Legacy Agent Blocked:</strong> This agent cannot be rented because it was uploaded before the latest fixes. Please ask the agent owner to re-upload it.
+              <strong>⚠️ Session expired:</strong> The next attempt asks your wallet to sign a new Lit session. An active rental is not charged again.
             </div>
           )}
         </div>
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { agentService, getGrantees } from './lib/agentService';
+import { parseShareTargets, type ShareTarget, type ShareTargetStatus } from './lib/shareTargets';
+import type { LocalUploadRecord } from './lib/agentCatalog';
+import { getWalletSigner } from './lib/wallet';
+import { describeError } from './lib/errorMessages';
+
+const TARGET_STATUS: Record<ShareTargetStatus, { label: string; color: string }> = {
+  resolved: { label: 'Resolved', color: '#0891b2' },
+  granted: { label: 'Granted', color: '#047857' },
+  'already-shared': { label: 'Already shared', color: '#6b7280' },
+  duplicate: { label: 'Duplicate', color: '#6b7280' },
+  invalid: { label: 'Invalid', color: '#991b1b' },
+  unresolved: { label: 'Not resolved', color: '#b45309' },
+};
+
+const formatGrantedAt = (grantedAt: string | null) => (grantedAt ? new Date(grantedAt).toLocaleString() : 'date not recorded');
+
+// Owner view of an agent's explicit shares: who has been granted access and when, a form to share with
+// another address, and Revoke, which rotates the agent key so the revoked address can't read new versions
+const ShareManager: React.FC<{ record: LocalUploadRecord }> = ({ record }) => {
+  const { address } = useAccount();
+  const [target, setTarget] = useState('');
+  const [busy, setBusy] = useState<string | null>(null); // progress message while sharing or rotating
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [bulkText, setBulkText] = useState('');
+  const [bulkResults, setBulkResults] = useState<ShareTarget[] | null>(null);
+  const grantees = getGrantees(record);
+  const bulkInputs = parseShareTargets(bulkText);
+
+  const handleShare = async () => {
+    setError(null);
+    setMessage(null);
+    setBusy('Sharing...');
+    try {
+      await agentService.share(await getWalletSigner(address), record.cid, target.trim());
+      setTarget('');
+    } catch (err) {
+      console.error('[ShareManager] share failed', err);
+      setError(describeError(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // CSV or plain-text lists are appended to whatever was already pasted
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setBulkText(prev => (prev.trim() ? `${prev.trim()}\n${text}` : text));
+  };
+
+  const handleBulkShare = async () => {
+    setError(null);
+    setMessage(null);
+    setBulkResults(null);
+    setBusy('Resolving addresses...');
+    try {
+      const { targets } = await agentService.shareMany(await getWalletSigner(address), record.cid, bulkInputs, setBusy);
+      setBulkResults(targets);
+      const granted = targets.filter(t => t.status === 'granted').length;
+      setMessage(`Shared with ${granted} of ${targets.length} entr${targets.length === 1 ? 'y' : 'ies'}`);
+      if (granted) setBulkText('');
+    } catch (err) {
+      console.error('[ShareManager] batch share failed', err);
+      setError(describeError(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRevoke = async (grantee: string) => {
+    if (!window.confirm(`Revoke ${grantee}? The agent is re-encrypted under a new key and uploaded again; the remaining grantees and renters keep access.`)) return;
+    setError(null);
+    setMessage(null);
+    setBusy('Revoking...');
+    try {
+      const { chainUpdate } = await agentService.revoke(await getWalletSigner(address), record.cid, grantee, setBusy);
+      if (chainUpdate.status === 'failed') {
+        setError(`Access revoked, but the on-chain record still points at the old payload: ${describeError(chainUpdate.error)}`);
+      } else {
+        setMessage(`Access revoked for ${grantee}; the agent now uses a new key`);
+      }
+    } catch (err) {
+      console.error('[ShareManager] revoke failed', err);
+      setError(describeError(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 8, fontSize: 12 }}>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        <input value={target} onChange={(e) => setTarget(e.target.value)} placeholder='0xAddress to share with' style={{ padding: 8, border: '1px solid #d1d5db', borderRadius: 6, width: '60%' }} />
+        <button onClick={handleShare} disabled={!!busy || !target.trim()} style={{ padding: '8px 12px', background: '#10b981', color: 'white', border: 'none', borderRadius: 6 }}>Share</button>
+      </div>
+      <button onClick={() => setBulkOpen(open => !open)} style={{ marginTop: 6, padding: 0, background: 'none', border: 'none', color: '#0891b2', cursor: 'pointer', fontSize: 12 }}>
+        {bulkOpen ? 'Hide batch share' : 'Share with many (ENS names, lists, CSV)'}
+      </button>
+      {bulkOpen && (
+        <div style={{ marginTop: 6 }}>
+          <textarea
+            value={bulkText}
+            onChange={(e) => setBulkText(e.target.value)}
+            placeholder={'One address or ENS name per line, or separated by commas\n0x1234...\nvitalik.eth'}
+            rows={4}
+            style={{ width: '100%', padding: 8, border: '1px solid #d1d5db', borderRadius: 6, fontFamily: 'monospace', fontSize: 12, boxSizing: 'border-box' }}
+          />
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 4 }}>
+            <input type='file' accept='.csv,.txt,text/csv,text/plain' onChange={handleImport} style={{ fontSize: 12 }} />
+            <span style={{ color: '#6b7280' }}>{bulkInputs.length} found</span>
+            <button onClick={handleBulkShare} disabled={!!busy || !bulkInputs.length} style={{ marginLeft: 'auto', padding: '6px 12px', background: '#10b981', color: 'white', border: 'none', borderRadius: 6 }}>Share with all</button>
+          </div>
+          {bulkResults && (
+            <div style={{ marginTop: 6 }}>
+              {bulkResults.map((t, i) => (
+                <div key={`${t.input}-${i}`} style={{ display: 'flex', gap: 8, marginTop: 2 }}>
+                  <span style={{ fontFamily: 'monospace' }}>{t.input}</span>
+                  {t.address && t.address !== t.input.toLowerCase() && <span style={{ fontFamily: 'monospace', color: '#6b7280' }}>→ {t.address}</span>}
+                  <span style={{ color: TARGET_STATUS[t.status].color }}>{TARGET_STATUS[t.status].label}{t.error ? `: ${t.error}` : ''}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      {grantees.length > 0 && (
+        <div style={{ marginTop: 8 }}>
+          <strong>Shared with:</strong>
+          {grantees.map(g => (
+            <div key={g.address} style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 4 }}>
+              <span style={{ fontFamily: 'monospace' }}>{g.address}</span>
+              <span style={{ color: '#6b7280' }}>since {formatGrantedAt(g.grantedAt)}</span>
+              <button onClick={() => handleRevoke(g.address)} disabled={!!busy} style={{ padding: '2px 8px', background: '#ef4444', color: 'white', border: 'none', borderRadius: 4, fontSize: 12 }}>Revoke</button>
+            </div>
+          ))}
+        </div>
+      )}
+      {record.contentCid && record.contentCid !== record.cid && (
+        <div style={{ marginTop: 6, color: '#6b7280', fontFamily: 'monospace', wordBreak: 'break-all' }}>Current payload: {record.contentCid}</div>
+      )}
+      {busy && <div style={{ marginTop: 6, color: '#0891b2' }}>{busy}</div>}
+      {message && <div style={{ marginTop: 6, color: '#047857' }}>{message}</div>}
+      {error && <div style={{ marginTop: 6, color: '#991b1b' }}>{error}</div>}
+    </div>
+  );
+};
+
+export default ShareManager;
@@ -1,5 +1,33 @@
 import React, { useRef, useState } from 'react';
 import { useAccount } from 'wagmi';
+import { RENTAL_TIERS, type TierPriceInputs } from './lib/rentalTiers';
+import { MAX_SPLITS, parseCollaborators, type CollaboratorInput } from './lib/revenueSplits';
+import { NATIVE_TOKEN, getPaymentTokens, parseTokenAmount } from './lib/paymentTokens';
+import { describeError } from './lib/errorMessages';
+import { agentService, type AgentMeta, type UploadProgress, type UploadResult } from './lib/agentService';
+import { getWalletSigner } from './lib/wallet';
+import { ACCESS_MODES, parseAccessGate, readTokenDecimals, type AccessGateInput, type AccessMode } from './lib/accessGates';
+
+const DEFAULT_TIER_PRICES: TierPriceInputs = ['0.05', '', ''];
+const DEFAULT_ACCESS_GATE: AccessGateInput = { mode: 'rental', contractAddress: '', tokenId: '', minBalance: '' };
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Steps of an upload that did not complete, as shown on the result screen
+const uploadWarnings = (result: UploadResult) => {
+  const warnings: string[] = [];
+  if (result.registration.status === 'failed') {
+    warnings.push(`Uploaded but not registered on-chain: ${describeError(result.registration.error)}. Renters can't pay for it until it is registered.`);
+  } else if (result.registration.status === 'skipped') {
+    warnings.push(`Not registered on-chain: ${result.registration.reason}.`);
+  }
+  if (result.litError) {
+    warnings.push(`The decryption key was not saved to Lit Protocol: ${describeError(result.litError)}. Retry from your uploads list; until then only you can decrypt it.`);
+  } else if (!result.manifestCid) {
+    warnings.push('The agent manifest was not published, so other devices cannot discover this agent yet.');
+  }
+  return warnings;
+};
 
 const UploadAgent: React.FC = () => {
   const { address, isConnected } = useAccount();
@@ -8,33 +36,19 @@ const UploadAgent: React.FC = () => {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState('AI');
-  const [price, setPrice] = useState('0.05');
+  const [tierPrices, setTierPrices] = useState<TierPriceInputs>(DEFAULT_TIER_PRICES);
+  const [collaborators, setCollaborators] = useState<CollaboratorInput[]>([]);
+  const [paymentToken, setPaymentToken] = useState(NATIVE_TOKEN.address);
+  const [accessGate, setAccessGate] = useState<AccessGateInput>(DEFAULT_ACCESS_GATE);
+  const isGated = accessGate.mode !== 'rental';
+  const paymentTokens = getPaymentTokens();
+  const selectedToken = paymentTokens.find(t => t.address === paymentToken) || NATIVE_TOKEN;
   const [contractFile, setContractFile] = useState<File | null>(null);
   const [agentFile, setAgentFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadStage, setUploadStage] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
-  const [uploadSuccess, setUploadSuccess] = useState(false);
-  const [isReupload, setIsReupload] = useState(false);
-
-  // Check for re-upload data on component mount
-  React.useEffect(() => {
-    const reuploadData = localStorage.getItem('reupload_agent');
-    if (reuploadData) {
-      try {
-        const data = JSON.parse(reuploadData);
-        setName(data.title || '');
-        setDescription(data.description || '');
-        setCategory(data.category || 'AI');
-        setPrice(data.price || '0.05');
-        setIsReupload(true);
-        // Clear the reupload data after using it
-        localStorage.removeItem('reupload_agent');
-      } catch (e) {
-        console.warn('Failed to parse reupload data:', e);
-      }
-    }
-  }, []);
+  const [uploadResult, setUploadResult] = useState<UploadResult | null>(null);
 
   const handleContractFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -62,39 +76,62 @@ const UploadAgent: React.FC = () => {
       return;
     }
 
+    // gated agents may also be rented by non-holders, but don't have to be; without a tier they register unpriced
+    if (!isGated && !tierPrices.some(p => p.trim() && Number(p) > 0)) {
+      alert('Please offer at least one rental tier');
+      return;
+    }
+
+    try {
+      tierPrices.filter(p => p.trim()).forEach(p => parseTokenAmount(p, selectedToken.decimals));
+    } catch (e) {
+      alert(`Invalid ${selectedToken.symbol} price: ${describeError(e)}`);
+      return;
+    }
+
+    try {
+      parseCollaborators(collaborators);
+    } catch (e) {
+      alert(describeError(e));
+      return;
+    }
+
     setIsUploading(true);
     setUploadProgress(0);
-    setUploadStage('Encrypting...');
-    
+    setUploadStage('Connecting to wallet...');
+
+    let signer;
+    let gate;
     try {
-      // Simulate upload stages with progress
-      const stages = [
-        { stage: 'Encrypting...', progress: 25 },
-        { stage: 'Uploading to Lighthouse...', progress: 50 },
-        { stage: 'Saving key to Lit Protocol...', progress: 75 },
-        { stage: 'Finalizing...', progress: 100 }
-      ];
+      signer = await getWalletSigner(address);
+      gate = parseAccessGate(accessGate, accessGate.mode === 'erc20' ? await readTokenDecimals(signer, accessGate.contractAddress.trim()) : undefined);
+    } catch (e) {
+      alert(describeError(e));
+      setIsUploading(false);
+      setUploadStage(null);
+      return;
+    }
 
-      for (const { stage, progress } of stages) {
-        setUploadStage(stage);
-        setUploadProgress(progress);
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+    const onProgress = ({ message, percent, bytes }: UploadProgress) => {
+      setUploadStage(bytes ? `${message} (${formatMb(bytes.loaded)} / ${formatMb(bytes.total)})` : message);
+      setUploadProgress(percent);
+    };
 
-      // Dispatch the actual upload event
-      const meta = { 
-        title: name, 
-        description, 
-        category, 
-        price,
-        contractFile: contractFile || undefined
+    try {
+      const meta: AgentMeta = {
+        title: name,
+        description,
+        category,
+        accessType: accessGate.mode,
+        accessGate: gate,
+        tierPrices,
+        paymentToken,
+        collaborators
       };
-      window.dispatchEvent(new CustomEvent('upload-with-meta', { detail: { file: agentFile, meta } }));
-      
-      setUploadSuccess(true);
+      setUploadResult(await agentService.upload(signer, agentFile, meta, onProgress));
     } catch (error) {
       console.error('Upload error:', error);
-      alert('Upload failed. Please try again.');
+      alert(`Upload failed: ${describeError(error)}`);
     } finally {
       setIsUploading(false);
       setUploadStage(null);
@@ -117,13 +154,26 @@ const UploadAgent: React.FC = () => {
     );
   }
 
-  if (uploadSuccess) {
+  if (uploadResult) {
+    const warnings = uploadWarnings(uploadResult);
     return (
       <div style={{ maxWidth: 800, margin: '1rem auto', padding: 12, textAlign: 'center' }}>
         <h2>Upload Agent</h2>
-        <div style={{ padding: 24, border: '1px solid #10b981', borderRadius: 8, background: '#f0fdf4' }}>
-          <h3 style={{ color: '#059669' }}>✅ Agent uploaded successfully!</h3>
-          <p style={{ color: '#047857' }}>Your agent has been encrypted and uploaded to Lighthouse with proper Lit Protocol integration</p>
+        <div style={{ padding: 24, border: `1px solid ${warnings.length ? '#f59e0b' : '#10b981'}`, borderRadius: 8, background: warnings.length ? '#fffbeb' : '#f0fdf4' }}>
+          {warnings.length === 0 ? (
+            <>
+              <h3 style={{ color: '#059669' }}>✅ Agent uploaded successfully!</h3>
+              <p style={{ color: '#047857' }}>Your agent has been encrypted, uploaded to Lighthouse, registered on-chain and its key saved to Lit Protocol</p>
+            </>
+          ) : (
+            <>
+              <h3 style={{ color: '#b45309' }}>⚠️ Agent uploaded with issues</h3>
+              <ul style={{ color: '#92400e', textAlign: 'left', margin: '0 auto', maxWidth: 640 }}>
+                {warnings.map(w => <li key={w} style={{ marginBottom: 6 }}>{w}</li>)}
+              </ul>
+            </>
+          )}
+          <p style={{ fontSize: 12, color: '#6b7280', wordBreak: 'break-all' }}>CID: {uploadResult.cid}</p>
           <div style={{ display: 'flex', gap: 12, justifyContent: 'center', marginTop: 16 }}>
             <button 
               onClick={handleViewDashboard}
@@ -140,11 +190,14 @@ const UploadAgent: React.FC = () => {
             </button>
             <button 
               onClick={() => {
-                setUploadSuccess(false);
+                setUploadResult(null);
                 setName('');
                 setDescription('');
                 setCategory('AI');
-                setPrice('0.05');
+                setTierPrices(DEFAULT_TIER_PRICES);
+                setCollaborators([]);
+                setPaymentToken(NATIVE_TOKEN.address);
+                setAccessGate(DEFAULT_ACCESS_GATE);
                 setContractFile(null);
                 setAgentFile(null);
               }}
@@ -168,11 +221,6 @@ const UploadAgent: React.FC = () => {
           return (
             <div style={{ maxWidth: 800, margin: '1rem auto', padding: 12 }}>
               <h2>Upload Agent</h2>
-              {isReupload && (
-                <div style={{ marginBottom: 16, padding: 12, background: '#fef3c7', borderRadius: 8, border: '1px solid #f59e0b' }}>
-                  <strong>🔄 Re-uploading Agent:</strong> This form has been pre-filled with your previous agent details. Please select the same files and re-upload to fix Lit Protocol compatibility issues.
-                </div>
-              )}
               <div style={{ padding: 24, border: '1px solid #e6edf6', borderRadius: 8, background: '#f8fafc' }}>
         
         {/* Wallet Connection Status */}
@@ -219,15 +267,138 @@ const UploadAgent: React.FC = () => {
                 <option value='General'>General</option>
               </select>
             </div>
-            <div style={{ flex: 1 }}>
-              <label style={{ display: 'block', marginBottom: 4, fontWeight: 600 }}>Price (ETH)</label>
-              <input 
-                value={price} 
-                onChange={(e) => setPrice(e.target.value)} 
-                placeholder='0.05'
-                style={{ width: '100%', padding: 12, border: '1px solid #d1d5db', borderRadius: 6 }} 
-              />
+          </div>
+
+          {paymentTokens.length > 1 && (
+            <div>
+              <label style={{ display: 'block', marginBottom: 4, fontWeight: 600 }}>Payment Currency</label>
+              <select
+                value={paymentToken}
+                onChange={(e) => setPaymentToken(e.target.value)}
+                style={{ width: '100%', padding: 12, border: '1px solid #d1d5db', borderRadius: 6 }}
+              >
+                {paymentTokens.map(t => (
+                  <option key={t.address} value={t.address}>{t.symbol}</option>
+                ))}
+              </select>
             </div>
+          )}
+
+          <div>
+            <label style={{ display: 'block', marginBottom: 4, fontWeight: 600 }}>Access</label>
+            <select
+              value={accessGate.mode}
+              onChange={(e) => setAccessGate(prev => ({ ...prev, mode: e.target.value as AccessMode }))}
+              style={{ width: '100%', padding: 12, border: '1px solid #d1d5db', borderRadius: 6 }}
+            >
+              {ACCESS_MODES.map(m => (
+                <option key={m.id} value={m.id}>{m.label}</option>
+              ))}
+            </select>
+            {isGated && (
+              <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+                <input
+                  value={accessGate.contractAddress}
+                  onChange={(e) => setAccessGate(prev => ({ ...prev, contractAddress: e.target.value }))}
+                  placeholder='Token contract address (0x...)'
+                  style={{ flex: 3, padding: 12, border: '1px solid #d1d5db', borderRadius: 6, fontFamily: 'monospace' }}
+                />
+                {accessGate.mode === 'erc1155' && (
+                  <input
+                    value={accessGate.tokenId}
+                    onChange={(e) => setAccessGate(prev => ({ ...prev, tokenId: e.target.value }))}
+                    placeholder='Token id'
+                    style={{ flex: 1, padding: 12, border: '1px solid #d1d5db', borderRadius: 6 }}
+                  />
+                )}
+                {accessGate.mode !== 'erc721' && (
+                  <input
+                    value={accessGate.minBalance}
+                    onChange={(e) => setAccessGate(prev => ({ ...prev, minBalance: e.target.value }))}
+                    placeholder={accessGate.mode === 'erc20' ? 'Minimum balance' : 'Minimum balance (default 1)'}
+                    style={{ flex: 1, padding: 12, border: '1px solid #d1d5db', borderRadius: 6 }}
+                  />
+                )}
+              </div>
+            )}
+            {isGated && (
+              <div style={{ fontSize: 13, color: '#6b7280', marginTop: 6 }}>
+                Holders decrypt without paying. Rental tiers below are optional and let everyone else rent it.
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label style={{ display: 'block', marginBottom: 4, fontWeight: 600 }}>Rental Tiers ({selectedToken.symbol}){isGated ? ' — optional' : ''}</label>
+            <div style={{ display: 'flex', gap: 16 }}>
+              {RENTAL_TIERS.map(tier => {
+                const enabled = tierPrices[tier.id] !== '';
+                return (
+                  <div key={tier.key} style={{ flex: 1 }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 14, marginBottom: 4 }}>
+                      <input
+                        type='checkbox'
+                        checked={enabled}
+                        onChange={(e) => setTierPrices(prev => {
+                          const next = [...prev] as TierPriceInputs;
+                          next[tier.id] = e.target.checked ? (prev[tier.id] || '0.05') : '';
+                          return next;
+                        })}
+                      />
+                      {tier.label}
+                    </label>
+                    <input
+                      value={tierPrices[tier.id]}
+                      disabled={!enabled}
+                      onChange={(e) => setTierPrices(prev => {
+                        const next = [...prev] as TierPriceInputs;
+                        next[tier.id] = e.target.value;
+                        return next;
+                      })}
+                      placeholder='Not offered'
+                      style={{ width: '100%', padding: 12, border: '1px solid #d1d5db', borderRadius: 6, background: enabled ? 'white' : '#f3f4f6' }}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <label style={{ display: 'block', marginBottom: 4, fontWeight: 600 }}>Revenue Splits</label>
+            <div style={{ fontSize: 13, color: '#6b7280', marginBottom: 8 }}>
+              Collaborators receive a percentage of each rental after the platform fee; you keep the rest.
+            </div>
+            {collaborators.map((c, i) => (
+              <div key={i} style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+                <input
+                  value={c.address}
+                  onChange={(e) => setCollaborators(prev => prev.map((row, j) => (j === i ? { ...row, address: e.target.value } : row)))}
+                  placeholder='Collaborator address (0x...)'
+                  style={{ flex: 3, padding: 12, border: '1px solid #d1d5db', borderRadius: 6, fontFamily: 'monospace' }}
+                />
+                <input
+                  value={c.percent}
+                  onChange={(e) => setCollaborators(prev => prev.map((row, j) => (j === i ? { ...row, percent: e.target.value } : row)))}
+                  placeholder='%'
+                  style={{ flex: 1, padding: 12, border: '1px solid #d1d5db', borderRadius: 6 }}
+                />
+                <button
+                  onClick={() => setCollaborators(prev => prev.filter((_, j) => j !== i))}
+                  style={{ padding: '0 12px', background: '#ef4444', color: 'white', border: 'none', borderRadius: 6 }}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            {collaborators.length < MAX_SPLITS && (
+              <button
+                onClick={() => setCollaborators(prev => [...prev, { address: '', percent: '' }])}
+                style={{ padding: '8px 12px', background: '#6b7280', color: 'white', border: 'none', borderRadius: 6, fontSize: 13 }}
+              >
+                + Add collaborator
+              </button>
+            )}
           </div>
 
           <div>
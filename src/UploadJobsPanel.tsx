@@ -0,0 +1,110 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { agentService } from './lib/agentService';
+import { UPLOAD_JOB_STEPS, deleteUploadJob, loadUploadJobs, subscribeUploadJobs, type UploadJob, type UploadJobStep } from './lib/uploadJobs';
+import { getWalletSigner } from './lib/wallet';
+import { describeError } from './lib/errorMessages';
+
+const STEP_LABELS: Record<UploadJobStep, string> = {
+  encrypted: 'Encrypted',
+  uploaded: 'Uploaded to Lighthouse',
+  'key-persisted': 'Key saved to Lit',
+  registered: 'Registered on-chain',
+  'manifest-published': 'Manifest published',
+  'manifest-announced': 'Manifest recorded on-chain',
+};
+
+const STATUS_COLORS: Record<UploadJob['status'], string> = { running: '#0891b2', failed: '#b45309', done: '#059669' };
+
+// The connected wallet's upload jobs and the step each one reached. Failed jobs can be resumed from the
+// first incomplete step; interrupted ones are resumed automatically when the app starts.
+const UploadJobsPanel: React.FC = () => {
+  const { address } = useAccount();
+  const [jobs, setJobs] = useState<UploadJob[]>([]);
+  const [busy, setBusy] = useState<Record<string, string>>({}); // job id -> progress message
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const refresh = useCallback(async () => {
+    if (!address) return setJobs([]);
+    try {
+      setJobs((await loadUploadJobs()).filter(job => job.owner === address.toLowerCase()));
+    } catch (e) {
+      console.warn('[UploadJobsPanel] failed to load upload jobs', e);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    refresh();
+    return subscribeUploadJobs(() => { refresh(); });
+  }, [refresh]);
+
+  const handleResume = async (job: UploadJob) => {
+    setErrors(prev => ({ ...prev, [job.id]: '' }));
+    setBusy(prev => ({ ...prev, [job.id]: 'Resuming...' }));
+    try {
+      await agentService.resumeUpload(await getWalletSigner(address), job.id, p => setBusy(prev => ({ ...prev, [job.id]: `${p.message} (${p.percent}%)` })));
+    } catch (e) {
+      console.error('[UploadJobsPanel] resume failed', e);
+      setErrors(prev => ({ ...prev, [job.id]: describeError(e) }));
+    } finally {
+      setBusy(prev => {
+        const next = { ...prev };
+        delete next[job.id];
+        return next;
+      });
+    }
+  };
+
+  const handleDiscard = async (job: UploadJob) => {
+    if (job.status !== 'done' && !window.confirm(`Discard the unfinished upload of ${job.fileName}? Steps that already completed are not undone.`)) return;
+    await deleteUploadJob(job.id);
+  };
+
+  if (!jobs.length) return null;
+
+  return (
+    <div style={{ marginBottom: 24, padding: 16, border: '1px solid #e5e7eb', borderRadius: 12, background: 'white', color: '#1f2937' }}>
+      <h4 style={{ marginTop: 0, marginBottom: 12 }}>Upload Jobs</h4>
+      {jobs.map(job => (
+        <div key={job.id} style={{ padding: '10px 0', borderTop: '1px solid #f3f4f6' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+            <div style={{ fontWeight: 600 }}>
+              {job.meta.title || job.fileName}
+              <span style={{ marginLeft: 8, fontSize: 12, fontWeight: 500, color: STATUS_COLORS[job.status] }}>{job.status}</span>
+            </div>
+            <div style={{ display: 'flex', gap: 8 }}>
+              {job.status === 'failed' && (
+                <button onClick={() => handleResume(job)} disabled={!!busy[job.id]} style={{ padding: '4px 10px', background: '#06b6d4', color: 'white', border: 'none', borderRadius: 6 }}>
+                  {busy[job.id] ? 'Resuming...' : 'Resume'}
+                </button>
+              )}
+              <button onClick={() => handleDiscard(job)} disabled={!!busy[job.id]} style={{ padding: '4px 10px', background: '#f3f4f6', border: '1px solid #d1d5db', borderRadius: 6 }}>
+                {job.status === 'done' ? 'Clear' : 'Discard'}
+              </button>
+            </div>
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, marginTop: 6, fontSize: 13 }}>
+            {UPLOAD_JOB_STEPS.map(step => {
+              const done = job.completed.includes(step);
+              const error = job.errors[step];
+              return (
+                <span key={step} title={error} style={{ color: done ? '#059669' : error ? '#b91c1c' : '#9ca3af' }}>
+                  {done ? '✓' : error ? '✗' : '○'} {STEP_LABELS[step]}
+                </span>
+              );
+            })}
+          </div>
+          {job.registrationSkipped && <div style={{ fontSize: 12, color: '#6b7280', marginTop: 4 }}>Not registered: {job.registrationSkipped}</div>}
+          {Object.entries(job.errors).map(([step, message]) => (
+            <div key={step} style={{ fontSize: 12, color: '#b91c1c', marginTop: 4 }}>{STEP_LABELS[step as UploadJobStep]}: {message}</div>
+          ))}
+          {busy[job.id] && <div style={{ fontSize: 12, color: '#0891b2', marginTop: 4 }}>{busy[job.id]}</div>}
+          {errors[job.id] && <div style={{ fontSize: 12, color: '#b91c1c', marginTop: 4 }}>{errors[job.id]}</div>}
+          {job.cid && <div style={{ fontSize: 12, color: '#6b7280', marginTop: 4, wordBreak: 'break-all' }}>CID: {job.cid}</div>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default UploadJobsPanel;
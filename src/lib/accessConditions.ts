@@ -0,0 +1,168 @@
+// Builders for the Lit access control conditions attached to an agent's symmetric key.
+// Rental access is enforced by the RentAgent contract itself: Lit nodes call `isRenter(cid, :userAddress)`
+// at decrypt time, so a renter who paid on-chain can decrypt without the owner persisting anything new.
+// Mixing a contract call with a plain address check requires Lit's *unified* condition format, where
+// every entry carries a `conditionType`.
+import type { StoredAccessControlCondition } from './agentCatalog';
+import type { AccessGate } from './accessGates';
+import { ConfigError, InvalidInputError } from './errors';
+import { getLitChain } from './config';
+
+export type AccessControlCondition = StoredAccessControlCondition;
+
+const IS_RENTER_ABI = {
+  name: 'isRenter',
+  type: 'function',
+  stateMutability: 'view',
+  constant: true,
+  payable: false,
+  inputs: [
+    { name: 'cid', type: 'string', internalType: 'string' },
+    { name: 'user', type: 'address', internalType: 'address' },
+  ],
+  outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+};
+
+const IS_AGENT_SUBSCRIBER_ABI = {
+  name: 'isAgentSubscriber',
+  type: 'function',
+  stateMutability: 'view',
+  constant: true,
+  payable: false,
+  inputs: [
+    { name: 'cid', type: 'string', internalType: 'string' },
+    { name: 'user', type: 'address', internalType: 'address' },
+  ],
+  outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+};
+
+const addressEquals = (address: string, chain: string) => ({
+  contractAddress: '',
+  standardContractType: '',
+  chain,
+  method: '',
+  parameters: [':userAddress'],
+  returnValueTest: { comparator: '=', value: address.toLowerCase() },
+});
+
+// Legacy (non-unified) ACC granting a single address, used for explicit shares
+export const buildAddressAccessConditions = (address: string, chain = getLitChain()): AccessControlCondition[] => {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) throw new InvalidInputError(`Invalid address for access control: ${address}`);
+  return [addressEquals(address, chain)];
+};
+
+// Legacy ACC granting any of `addresses`, their address checks OR-ed together. Batch shares use it so a
+// whole cohort costs one Lit entry instead of one per address.
+export const buildAllowlistAccessConditions = (addresses: string[], chain = getLitChain()): AccessControlCondition[] => {
+  if (!addresses.length) throw new InvalidInputError('At least one address required for an allowlist');
+  return addresses.flatMap((address, i) => [...(i ? [{ operator: 'or' }] : []), ...buildAddressAccessConditions(address, chain)]);
+};
+
+// Addresses granted by conditions made only of `:userAddress == address` checks joined by 'or' (a single
+// share or an allowlist); empty for anything else, such as contract-gated rental conditions
+export const getAllowlistAddresses = (accs: unknown): string[] => {
+  if (!Array.isArray(accs) || !accs.length) return [];
+  const addresses: string[] = [];
+  for (const acc of accs) {
+    if (isOperatorCondition(acc)) {
+      if ((acc as { operator: string }).operator !== 'or') return [];
+      continue;
+    }
+    const c = acc as StoredAccessControlCondition;
+    const value = c.returnValueTest?.value;
+    if (isContractCondition(c) || (c.parameters as unknown[] | undefined)?.[0] !== ':userAddress' || c.returnValueTest?.comparator !== '=' || !value) return [];
+    addresses.push(String(value).toLowerCase());
+  }
+  return addresses;
+};
+
+// Unified ACC: `RentAgent.isRenter(cid, :userAddress) == true` OR `RentAgent.isAgentSubscriber(cid, :userAddress) == true`
+// OR `:userAddress == owner`. The contract resolves the agent's current owner, whose catalog pass covers it, so
+// subscriber access moves with transferAgentOwnership; it is included even before the owner prices a pass, so
+// none of their agents need re-keying once they do.
+export const buildRenterAccessConditions = (params: { cid: string; owner: string; contractAddress: string; chain?: string }): AccessControlCondition[] => {
+  const { cid, owner, contractAddress } = params;
+  const chain = params.chain || getLitChain();
+  if (!cid) throw new InvalidInputError('CID required to build rental access conditions');
+  if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) throw new ConfigError('RentAgent contract address not configured');
+  if (!/^0x[a-fA-F0-9]{40}$/.test(owner)) throw new InvalidInputError(`Invalid owner address: ${owner}`);
+
+  return [
+    {
+      conditionType: 'evmContract',
+      contractAddress: contractAddress.toLowerCase(),
+      functionName: 'isRenter',
+      functionParams: [cid, ':userAddress'],
+      functionAbi: IS_RENTER_ABI,
+      chain,
+      returnValueTest: { key: '', comparator: '=', value: 'true' },
+    },
+    { operator: 'or' },
+    {
+      conditionType: 'evmContract',
+      contractAddress: contractAddress.toLowerCase(),
+      functionName: 'isAgentSubscriber',
+      functionParams: [cid, ':userAddress'],
+      functionAbi: IS_AGENT_SUBSCRIBER_ABI,
+      chain,
+      returnValueTest: { key: '', comparator: '=', value: 'true' },
+    },
+    { operator: 'or' },
+    { conditionType: 'evmBasic', ...addressEquals(owner, chain) },
+  ];
+};
+
+// Unified condition a token holder satisfies: any ERC-721 of the collection, at least `minBalance` of an
+// ERC-1155 id, or at least `minBalance` base units of an ERC-20
+export const buildGateCondition = (gate: AccessGate, chain = getLitChain()): AccessControlCondition => {
+  const base = { conditionType: 'evmBasic', contractAddress: gate.contractAddress.toLowerCase(), chain, method: 'balanceOf' };
+  if (gate.mode === 'erc721') {
+    return { ...base, standardContractType: 'ERC721', parameters: [':userAddress'], returnValueTest: { comparator: '>', value: '0' } };
+  }
+  if (gate.mode === 'erc1155') {
+    return { ...base, standardContractType: 'ERC1155', parameters: [':userAddress', gate.tokenId], returnValueTest: { comparator: '>=', value: gate.minBalance } };
+  }
+  return { ...base, standardContractType: 'ERC20', parameters: [':userAddress'], returnValueTest: { comparator: '>=', value: gate.minBalance } };
+};
+
+// Pick the strongest conditions available: contract-gated when RentAgent is configured, owner-only otherwise.
+// A token gate is OR-ed in front, so holders decrypt without renting.
+export const buildAgentAccessConditions = (params: { cid: string; owner: string; contractAddress?: string; chain?: string; gate?: AccessGate | null }) => {
+  const chain = params.chain || getLitChain();
+  const gated = (conditions: AccessControlCondition[]) => (params.gate ? [buildGateCondition(params.gate, chain), { operator: 'or' }, ...conditions] : conditions);
+  if (params.contractAddress) {
+    return gated(buildRenterAccessConditions({ ...params, contractAddress: params.contractAddress }));
+  }
+  console.warn('[accessConditions] RentAgent not configured; falling back to owner-only access conditions');
+  if (params.gate) {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(params.owner)) throw new InvalidInputError(`Invalid owner address: ${params.owner}`);
+    return gated([{ conditionType: 'evmBasic', ...addressEquals(params.owner, chain) }]);
+  }
+  return buildAddressAccessConditions(params.owner, params.chain);
+};
+
+// Whether conditions OR in RentAgent.isAgentSubscriber. Agents keyed before subscriptions existed don't, nor do
+// ones keyed with `isSubscriber(uploader, ...)`, which stays pinned to the uploader after a transfer; their owner
+// has to recover the key before the current owner's subscribers can decrypt them
+export const hasSubscriberCondition = (accs: unknown) =>
+  Array.isArray(accs) && accs.some(acc => typeof acc === 'object' && acc !== null && (acc as { functionName?: unknown }).functionName === 'isAgentSubscriber');
+
+export const isOperatorCondition = (acc: unknown) =>
+  typeof acc === 'object' && acc !== null && typeof (acc as { operator?: unknown }).operator === 'string';
+
+// Contract-evaluated conditions can't be checked locally against an authSig address
+export const isContractCondition = (acc: unknown) => {
+  if (typeof acc !== 'object' || acc === null) return false;
+  const c = acc as { conditionType?: unknown; functionName?: unknown; standardContractType?: unknown };
+  return c.conditionType === 'evmContract' || typeof c.functionName === 'string' || (typeof c.standardContractType === 'string' && c.standardContractType !== '');
+};
+
+// Chain named by stored conditions, i.e. where they were created; Lit must be asked on that chain
+export const getConditionsChain = (accs: unknown) => {
+  const withChain = Array.isArray(accs) ? accs.find(acc => typeof acc === 'object' && acc !== null && typeof (acc as { chain?: unknown }).chain === 'string') : null;
+  return (withChain as { chain?: string } | null)?.chain || getLitChain();
+};
+
+// Unified conditions must be sent to Lit as `unifiedAccessControlConditions`
+export const isUnifiedConditions = (accs: unknown) =>
+  Array.isArray(accs) && accs.some(acc => typeof acc === 'object' && acc !== null && 'conditionType' in acc);
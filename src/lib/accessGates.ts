@@ -0,0 +1,91 @@
+// Token and NFT gates a creator can put on an agent at upload time. Holders of the gating token decrypt
+// without paying: the gate becomes a Lit condition OR-ed with the rental and owner checks, is kept on the
+// upload record and manifest, and is checked here against chain state so RentModal can skip the payment.
+import { ethers } from 'ethers';
+import { ERC20_ABI, formatTokenAmount, parseTokenAmount } from './paymentTokens';
+import { InvalidInputError } from './errors';
+
+export type AccessMode = 'rental' | 'erc721' | 'erc1155' | 'erc20';
+
+export const ACCESS_MODES: { id: AccessMode; label: string }[] = [
+  { id: 'rental', label: 'Pay per rental' },
+  { id: 'erc721', label: 'ERC-721 holders' },
+  { id: 'erc1155', label: 'ERC-1155 balance' },
+  { id: 'erc20', label: 'ERC-20 minimum balance' },
+];
+
+// Amounts are integers in the token's base units, as Lit compares them
+export type AccessGate =
+  | { mode: 'erc721'; contractAddress: string }
+  | { mode: 'erc1155'; contractAddress: string; tokenId: string; minBalance: string }
+  | { mode: 'erc20'; contractAddress: string; minBalance: string; decimals: number };
+
+// Upload form fields as typed; minBalance is a decimal amount for ERC-20 and a whole count for ERC-1155
+export type AccessGateInput = {
+  mode: AccessMode;
+  contractAddress: string;
+  tokenId: string;
+  minBalance: string;
+};
+
+const ERC721_ABI = ['function balanceOf(address owner) view returns (uint256)'];
+const ERC1155_ABI = ['function balanceOf(address account, uint256 id) view returns (uint256)'];
+
+// null for pay-per-rental; `decimals` is the ERC-20's (see readTokenDecimals)
+export const parseAccessGate = (input: AccessGateInput, decimals = 18): AccessGate | null => {
+  if (input.mode === 'rental') return null;
+  const contractAddress = input.contractAddress.trim();
+  if (!ethers.isAddress(contractAddress)) throw new InvalidInputError(`Invalid token contract address: ${contractAddress || '(empty)'}`);
+  const address = contractAddress.toLowerCase();
+  if (input.mode === 'erc721') return { mode: 'erc721', contractAddress: address };
+  if (input.mode === 'erc1155') {
+    const tokenId = input.tokenId.trim();
+    if (!/^\d+$/.test(tokenId)) throw new InvalidInputError(`Invalid ERC-1155 token id: ${tokenId || '(empty)'}`);
+    const minBalance = input.minBalance.trim() || '1';
+    if (!/^\d+$/.test(minBalance) || BigInt(minBalance) === 0n) throw new InvalidInputError(`Invalid minimum balance: ${minBalance}`);
+    return { mode: 'erc1155', contractAddress: address, tokenId: BigInt(tokenId).toString(), minBalance: BigInt(minBalance).toString() };
+  }
+  const minBalance = parseTokenAmount(input.minBalance.trim(), decimals);
+  if (minBalance === 0n) throw new InvalidInputError('Minimum balance must be greater than zero');
+  return { mode: 'erc20', contractAddress: address, minBalance: minBalance.toString(), decimals };
+};
+
+export const readTokenDecimals = async (runner: ethers.ContractRunner, tokenAddress: string) => {
+  try {
+    return Number(await new ethers.Contract(tokenAddress, ERC20_ABI, runner).decimals());
+  } catch (e) {
+    console.warn('[accessGates] decimals() failed', { tokenAddress, err: (e as Error)?.message });
+    throw new InvalidInputError(`${tokenAddress} does not look like an ERC-20 token on this network`);
+  }
+};
+
+// Whether `user` satisfies the gate, read from chain state the way the Lit nodes will evaluate it
+export const checkAccessGate = async (gate: AccessGate, user: string, runner: ethers.ContractRunner) => {
+  if (gate.mode === 'erc1155') {
+    const balance: bigint = await new ethers.Contract(gate.contractAddress, ERC1155_ABI, runner).balanceOf(user, gate.tokenId);
+    return balance >= BigInt(gate.minBalance);
+  }
+  const balance: bigint = await new ethers.Contract(gate.contractAddress, gate.mode === 'erc20' ? ERC20_ABI : ERC721_ABI, runner).balanceOf(user);
+  return gate.mode === 'erc20' ? balance >= BigInt(gate.minBalance) : balance > 0n;
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// Badge text for an agent's access mode
+export const describeAccessGate = (gate: AccessGate | null | undefined) => {
+  if (!gate) return 'Pay per rental';
+  if (gate.mode === 'erc721') return `NFT holders (${shortAddress(gate.contractAddress)})`;
+  if (gate.mode === 'erc1155') return `${gate.minBalance}× token #${gate.tokenId} holders (${shortAddress(gate.contractAddress)})`;
+  return `≥ ${formatTokenAmount(BigInt(gate.minBalance), gate.decimals)} of ${shortAddress(gate.contractAddress)}`;
+};
+
+// Hand-rolled check for gates read from manifests and local storage
+export const isAccessGate = (v: unknown): v is AccessGate => {
+  if (typeof v !== 'object' || v === null) return false;
+  const g = v as Record<string, unknown>;
+  if (typeof g.contractAddress !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(g.contractAddress)) return false;
+  const isCount = (x: unknown) => typeof x === 'string' && /^\d+$/.test(x);
+  if (g.mode === 'erc721') return true;
+  if (g.mode === 'erc1155') return isCount(g.tokenId) && isCount(g.minBalance);
+  return g.mode === 'erc20' && isCount(g.minBalance) && typeof g.decimals === 'number';
+};
@@ -0,0 +1,346 @@
+// On-chain agent catalog rebuilt from RentAgent events and merged with local upload metadata.
+// The event scan is incremental: the last synced block and the decoded agents are persisted in
+// localStorage per chain + contract, so a reload only scans blocks produced since the last visit.
+import { ethers } from 'ethers';
+import RentAgentABI from '../abis/RentAgent.json';
+import { formatTierPrices, lowestTierPrice, type TierPriceInputs } from './rentalTiers';
+import { findPaymentToken } from './paymentTokens';
+import { ConfigError } from './errors';
+import { getRentAgentDeployment, getRpcUrl } from './config';
+import type { AccessGate } from './accessGates';
+
+// Agent state as reconstructed purely from RentAgent logs
+export type ChainAgent = {
+  cid: string;
+  owner: string; // lowercase current owner (uploader, or the latest ownership transfer target)
+  tierPricesWei: string[]; // indexed by RentalTier in paymentToken units, '0' for tiers not offered
+  paymentToken: string; // lowercase ERC-20 address, or the zero address for ETH
+  listed: boolean; // false after AgentDelisted until the owner re-lists
+  uploadedAtBlock: number;
+  uploadTxHash: string;
+  rentalCount: number;
+  earnedWei: string; // sum of AgentRented prices (payment token units) credited to escrow
+  renters: string[];
+  lastRentedAtBlock?: number;
+  contentCid?: string; // latest AgentContentUpdated payload, when the owner re-encrypted the agent
+  manifestCid?: string; // latest AgentManifestUpdated manifest, once the owner announced one
+};
+
+export type StoredAccessControlCondition = Record<string, unknown> & {
+  returnValueTest?: { key?: string; comparator?: string; value?: string };
+};
+
+export type LitKeyEntry = {
+  key: string;
+  accessControlConditions?: StoredAccessControlCondition[];
+  grantedAt?: string; // ISO-8601, when an explicit share was granted
+};
+
+// Shape of the records LighthouseUploader keeps under `lighthouse_uploads`
+export type LocalUploadRecord = {
+  cid: string;
+  owner?: string;
+  title?: string;
+  description?: string;
+  category?: string;
+  accessType?: string; // AccessMode the agent was uploaded with ('rental', 'erc721', 'erc1155', 'erc20')
+  accessGate?: AccessGate; // token/NFT gate for the non-rental modes
+  price?: string; // decimal string in the payment token; the cheapest offered tier
+  tierPrices?: TierPriceInputs;
+  paymentToken?: string; // ERC-20 address; absent or zero address means ETH
+  encryptedSymmetricKey?: string;
+  encryptedSymmetricKeys?: LitKeyEntry[];
+  accessControlConditions?: StoredAccessControlCondition[];
+  litPersisted?: boolean;
+  txHash?: string | null;
+  lastLitError?: string | null;
+  manifestCid?: string; // unencrypted agent manifest published next to the payload
+  contentCid?: string; // encrypted payload after a key rotation; `cid` stays the agent's id (rentals, Lit conditions)
+};
+
+// Catalog entry handed to the UI: chain state (if any) with local metadata layered on top
+export type CatalogAgent = LocalUploadRecord & {
+  onChain: boolean;
+  listed: boolean;
+  rentalCount: number;
+  earnedWei: string;
+};
+
+// Bump when the decoded event shape changes so stale snapshots are rescanned
+const CATALOG_SNAPSHOT_VERSION = 7;
+
+type CatalogSnapshot = {
+  version: typeof CATALOG_SNAPSHOT_VERSION;
+  chainId: number;
+  contractAddress: string;
+  lastSyncedBlock: number;
+  agents: Record<string, ChainAgent>;
+};
+
+export type SyncOptions = {
+  fromBlock?: number;
+  chunkSize?: number;
+  onProgress?: (syncedTo: number, latest: number) => void;
+};
+
+const CATALOG_STORAGE_PREFIX = 'agent_catalog';
+const DEFAULT_CHUNK_SIZE = 5000;
+const MIN_CHUNK_SIZE = 100;
+
+const rentAgentInterface = new ethers.Interface(RentAgentABI);
+
+const CATALOG_EVENTS = ['AgentUploaded', 'AgentRented', 'AgentPriceUpdated', 'AgentDelisted', 'AgentOwnershipTransferred', 'AgentContentUpdated', 'AgentManifestUpdated'];
+
+const snapshotKey = (chainId: number, contractAddress: string) =>
+  `${CATALOG_STORAGE_PREFIX}:${chainId}:${contractAddress.toLowerCase()}`;
+
+const emptySnapshot = (chainId: number, contractAddress: string, fromBlock: number): CatalogSnapshot => ({
+  version: CATALOG_SNAPSHOT_VERSION,
+  chainId,
+  contractAddress: contractAddress.toLowerCase(),
+  lastSyncedBlock: fromBlock - 1,
+  agents: {},
+});
+
+// First block worth scanning on a chain: the deployment block from config (VITE_RENT_AGENT_DEPLOY_BLOCK)
+export const getCatalogStartBlock = (chainId: number) => getRentAgentDeployment(chainId)?.deployBlock ?? 0;
+
+// Prefer a dedicated RPC so browsing works without a wallet; fall back to the injected provider
+export const getReadProvider = (): ethers.Provider | null => {
+  const rpcUrl = getRpcUrl();
+  if (rpcUrl) return new ethers.JsonRpcProvider(rpcUrl);
+  const injected = typeof window !== 'undefined' ? (window as unknown as { ethereum?: ethers.Eip1193Provider }).ethereum : undefined;
+  return injected ? new ethers.BrowserProvider(injected) : null;
+};
+
+export const loadCatalogSnapshot = (chainId: number, contractAddress: string): CatalogSnapshot | null => {
+  try {
+    const raw = localStorage.getItem(snapshotKey(chainId, contractAddress));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (parsed?.version !== CATALOG_SNAPSHOT_VERSION || typeof parsed.lastSyncedBlock !== 'number' || !parsed.agents) return null;
+    return parsed as CatalogSnapshot;
+  } catch (e) {
+    console.warn('[agentCatalog] failed to read cached snapshot, rescanning', e);
+    return null;
+  }
+};
+
+const saveCatalogSnapshot = (snapshot: CatalogSnapshot) => {
+  try {
+    localStorage.setItem(snapshotKey(snapshot.chainId, snapshot.contractAddress), JSON.stringify(snapshot));
+  } catch (e) {
+    console.warn('[agentCatalog] failed to persist snapshot', e);
+  }
+};
+
+export const clearCatalogSnapshot = (chainId: number, contractAddress: string) => {
+  localStorage.removeItem(snapshotKey(chainId, contractAddress));
+};
+
+const applyLog = (snapshot: CatalogSnapshot, log: ethers.Log) => {
+  let parsed: ethers.LogDescription | null = null;
+  try {
+    parsed = rentAgentInterface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch (e) {
+    console.debug('[agentCatalog] skipping undecodable log', { txHash: log.transactionHash, e });
+    return;
+  }
+  if (!parsed) return;
+
+  const cid = String(parsed.args.cid);
+  if (parsed.name === 'AgentUploaded') {
+    const previous = snapshot.agents[cid];
+    const paymentToken = String(parsed.args.paymentToken).toLowerCase();
+    // earnings are only summable within one currency, so a re-list in another token restarts them
+    const sameToken = previous?.paymentToken === paymentToken;
+    snapshot.agents[cid] = {
+      cid,
+      owner: String(parsed.args.uploader).toLowerCase(),
+      tierPricesWei: Array.from(parsed.args.tierPrices as bigint[], p => p.toString()),
+      paymentToken,
+      listed: true,
+      uploadedAtBlock: log.blockNumber,
+      uploadTxHash: log.transactionHash,
+      rentalCount: previous?.rentalCount || 0,
+      earnedWei: (sameToken && previous?.earnedWei) || '0',
+      renters: previous?.renters || [],
+      lastRentedAtBlock: previous?.lastRentedAtBlock,
+      contentCid: previous?.contentCid,
+      manifestCid: previous?.manifestCid,
+    };
+  } else if (parsed.name === 'AgentRented') {
+    const agent = snapshot.agents[cid];
+    if (!agent) return;
+    const renter = String(parsed.args.renter).toLowerCase();
+    agent.rentalCount += 1;
+    agent.earnedWei = (BigInt(agent.earnedWei) + BigInt(parsed.args.price)).toString();
+    if (!agent.renters.includes(renter)) agent.renters.push(renter);
+    agent.lastRentedAtBlock = log.blockNumber;
+  } else if (parsed.name === 'AgentPriceUpdated') {
+    const agent = snapshot.agents[cid];
+    if (agent) agent.tierPricesWei = Array.from(parsed.args.tierPrices as bigint[], p => p.toString());
+  } else if (parsed.name === 'AgentDelisted') {
+    const agent = snapshot.agents[cid];
+    if (agent) agent.listed = false;
+  } else if (parsed.name === 'AgentOwnershipTransferred') {
+    const agent = snapshot.agents[cid];
+    if (agent) agent.owner = String(parsed.args.newOwner).toLowerCase();
+  } else if (parsed.name === 'AgentContentUpdated') {
+    const agent = snapshot.agents[cid];
+    if (agent) agent.contentCid = String(parsed.args.contentCid);
+  } else if (parsed.name === 'AgentManifestUpdated') {
+    const agent = snapshot.agents[cid];
+    if (agent) agent.manifestCid = String(parsed.args.manifestCid);
+  }
+};
+
+// getLogs over [from, latest] in chunks, halving the range when the RPC rejects it as too large. Logs of each
+// chunk arrive in chain order; `onChunk` runs after each one so callers can persist a cursor.
+export const scanLogsInChunks = async (
+  provider: ethers.Provider,
+  filter: { address: string; topics: (string | string[] | null)[] },
+  from: number,
+  latest: number,
+  onChunk: (logs: ethers.Log[], to: number) => void,
+  initialChunkSize?: number,
+) => {
+  let chunkSize = initialChunkSize || DEFAULT_CHUNK_SIZE;
+  while (from <= latest) {
+    const to = Math.min(from + chunkSize - 1, latest);
+    let logs: ethers.Log[];
+    try {
+      logs = await provider.getLogs({ ...filter, fromBlock: from, toBlock: to });
+    } catch (e) {
+      if (chunkSize <= MIN_CHUNK_SIZE) throw e;
+      chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(chunkSize / 2));
+      console.debug('[agentCatalog] getLogs failed, shrinking range', { from, to, chunkSize });
+      continue;
+    }
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    onChunk(logs, to);
+    from = to + 1;
+  }
+};
+
+// Scan RentAgent logs from the persisted cursor up to the latest block. The cursor is persisted after
+// every chunk so an interrupted sync resumes where it stopped.
+export const syncAgentCatalog = async (provider: ethers.Provider, contractAddress: string, opts: SyncOptions = {}) => {
+  if (!ethers.isAddress(contractAddress)) throw new ConfigError('RentAgent contract address not configured');
+  const network = await provider.getNetwork();
+  const chainId = Number(network.chainId);
+  const startBlock = opts.fromBlock ?? getCatalogStartBlock(chainId);
+
+  const snapshot = loadCatalogSnapshot(chainId, contractAddress) || emptySnapshot(chainId, contractAddress, startBlock);
+  const latest = await provider.getBlockNumber();
+  const topics = [CATALOG_EVENTS.map(name => rentAgentInterface.getEvent(name)!.topicHash)];
+  const from = Math.max(snapshot.lastSyncedBlock + 1, startBlock);
+  console.debug('[agentCatalog] sync start', { chainId, from, latest });
+
+  await scanLogsInChunks(provider, { address: contractAddress, topics }, from, latest, (logs, to) => {
+    for (const log of logs) applyLog(snapshot, log);
+    snapshot.lastSyncedBlock = to;
+    saveCatalogSnapshot(snapshot);
+    opts.onProgress?.(to, latest);
+  }, opts.chunkSize);
+
+  console.debug('[agentCatalog] sync complete', { chainId, lastSyncedBlock: snapshot.lastSyncedBlock, agents: Object.keys(snapshot.agents).length });
+  return snapshot;
+};
+
+// Read uploads recorded by this browser, normalizing the legacy single-key shape
+export const loadLocalUploads = (): LocalUploadRecord[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem('lighthouse_uploads') || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.map((s: LocalUploadRecord) => ({
+      ...s,
+      owner: s.owner ? String(s.owner).toLowerCase() : undefined,
+      encryptedSymmetricKeys: s.encryptedSymmetricKeys || (s.encryptedSymmetricKey
+        ? [{ key: s.encryptedSymmetricKey, accessControlConditions: s.accessControlConditions }]
+        : undefined),
+    }));
+  } catch (e) {
+    console.warn('[agentCatalog] failed to parse lighthouse_uploads', e);
+    return [];
+  }
+};
+
+const uploadListeners = new Set<() => void>();
+
+export const saveLocalUploads = (records: LocalUploadRecord[]) => {
+  localStorage.setItem('lighthouse_uploads', JSON.stringify(records));
+  uploadListeners.forEach(listener => listener());
+};
+
+// Apply `update` to the record for `cid` (if this browser has one) and persist; returns the updated record
+export const updateLocalUpload = (cid: string, update: (record: LocalUploadRecord) => LocalUploadRecord) => {
+  let updated: LocalUploadRecord | null = null;
+  saveLocalUploads(loadLocalUploads().map(r => {
+    if (r.cid !== cid) return r;
+    updated = update(r);
+    return updated;
+  }));
+  return updated as LocalUploadRecord | null;
+};
+
+// CID the encrypted payload currently lives at
+export const getContentCid = (record: Pick<LocalUploadRecord, 'cid' | 'contentCid'>) => record.contentCid || record.cid;
+
+// Called after every saveLocalUploads; returns an unsubscribe function
+export const subscribeLocalUploads = (listener: () => void) => {
+  uploadListeners.add(listener);
+  return () => {
+    uploadListeners.delete(listener);
+  };
+};
+
+// Chain state wins for ownership and price; local records contribute metadata and Lit entries.
+// Local uploads that never made it on-chain are kept so their owner can still see and repair them.
+export const mergeCatalog = (chainAgents: ChainAgent[], localRecords: LocalUploadRecord[]): CatalogAgent[] => {
+  const localByCid = new Map<string, LocalUploadRecord>();
+  for (const r of localRecords) if (r?.cid) localByCid.set(r.cid, { ...localByCid.get(r.cid), ...r });
+
+  const merged: CatalogAgent[] = chainAgents
+    .slice()
+    .sort((a, b) => b.uploadedAtBlock - a.uploadedAtBlock)
+    .map(agent => {
+      const local = localByCid.get(agent.cid);
+      localByCid.delete(agent.cid);
+      const tierPrices = formatTierPrices(agent.tierPricesWei, findPaymentToken(agent.paymentToken).decimals);
+      return {
+        ...local,
+        cid: agent.cid,
+        owner: agent.owner,
+        tierPrices,
+        paymentToken: agent.paymentToken,
+        price: lowestTierPrice(tierPrices),
+        txHash: local?.txHash || agent.uploadTxHash,
+        contentCid: agent.contentCid || local?.contentCid,
+        manifestCid: agent.manifestCid || local?.manifestCid,
+        onChain: true,
+        listed: agent.listed,
+        rentalCount: agent.rentalCount,
+        earnedWei: agent.earnedWei,
+      };
+    });
+
+  for (const local of localByCid.values()) {
+    merged.push({ ...local, onChain: false, listed: false, rentalCount: 0, earnedWei: '0' });
+  }
+  return merged;
+};
+
+// Convenience for the UI: merge whatever is cached right now without touching the network
+export const getCachedCatalog = async (provider: ethers.Provider | null, contractAddress: string) => {
+  const local = loadLocalUploads();
+  if (!provider || !ethers.isAddress(contractAddress)) return mergeCatalog([], local);
+  try {
+    const { chainId } = await provider.getNetwork();
+    const snapshot = loadCatalogSnapshot(Number(chainId), contractAddress);
+    return mergeCatalog(snapshot ? Object.values(snapshot.agents) : [], local);
+  } catch (e) {
+    console.warn('[agentCatalog] could not resolve network for cached catalog', e);
+    return mergeCatalog([], local);
+  }
+};
@@ -0,0 +1,212 @@
+// Versioned agent manifest published unencrypted to IPFS next to the encrypted payload.
+// A manifest carries the public listing metadata, the Lit-encrypted symmetric key entries with their
+// access control conditions, and the payload CID, so a renter can go from one manifest CID to a
+// decrypted download on any machine.
+import { getLighthouse } from './lighthouseClient';
+import { fetchIpfsBytes } from './cryptoHelpers';
+import type { LitKeyEntry, LocalUploadRecord } from './agentCatalog';
+import type { TierPriceInputs } from './rentalTiers';
+import { isNativeToken } from './paymentTokens';
+import { isAccessGate, type AccessGate } from './accessGates';
+import { ConfigError, InvalidInputError, LighthouseError } from './errors';
+
+export const AGENT_MANIFEST_SCHEMA = 'annol.agent-manifest';
+export const AGENT_MANIFEST_VERSION = 1;
+
+export type AgentManifestMetadata = {
+  title: string;
+  description: string;
+  category: string;
+  price: string; // decimal string in the payment token, mirrors the cheapest on-chain tier at publish time
+  tierPrices?: TierPriceInputs; // per RentalTier, '' for tiers not offered
+  paymentToken?: string; // ERC-20 address the agent is priced in; absent means ETH
+  accessType?: string; // AccessMode; absent for manifests published before access modes
+  accessGate?: AccessGate; // token/NFT holders decrypt without renting
+};
+
+export type AgentManifest = {
+  schema: typeof AGENT_MANIFEST_SCHEMA;
+  version: typeof AGENT_MANIFEST_VERSION;
+  payloadCid: string; // the agent's id on RentAgent and in its Lit conditions
+  contentCid?: string; // where the payload lives when it was re-encrypted under a new key; defaults to payloadCid
+  owner: string;
+  createdAt: string; // ISO-8601
+  metadata: AgentManifestMetadata;
+  encryption: {
+    provider: 'lighthouse';
+    litKeys: LitKeyEntry[];
+  };
+};
+
+const MANIFEST_CACHE_KEY = 'agent_manifests';
+
+const invalidManifest = (issues: string[]) => new InvalidInputError(`Invalid agent manifest: ${issues.join('; ')}`);
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const checkString = (issues: string[], obj: Record<string, unknown>, key: string, path: string, required = true) => {
+  const v = obj[key];
+  if (v === undefined && !required) return;
+  if (typeof v !== 'string' || (required && v.length === 0)) issues.push(`${path}.${key} must be a non-empty string`);
+};
+
+const validateAccessControlConditions = (issues: string[], accs: unknown, path: string) => {
+  if (accs === undefined) return;
+  if (!Array.isArray(accs)) {
+    issues.push(`${path} must be an array`);
+    return;
+  }
+  accs.forEach((acc, i) => {
+    // Lit allows `{ operator: 'or' | 'and' }` entries between conditions
+    if (isRecord(acc) && typeof acc.operator === 'string') return;
+    if (!isRecord(acc) || !isRecord(acc.returnValueTest)) issues.push(`${path}[${i}].returnValueTest is required`);
+  });
+};
+
+// Hand-rolled structural check so untrusted JSON fetched from a gateway is never used blindly
+export const validateAgentManifest = (input: unknown): AgentManifest => {
+  const issues: string[] = [];
+  if (!isRecord(input)) throw invalidManifest(['manifest must be a JSON object']);
+
+  if (input.schema !== AGENT_MANIFEST_SCHEMA) issues.push(`schema must be "${AGENT_MANIFEST_SCHEMA}"`);
+  if (input.version !== AGENT_MANIFEST_VERSION) issues.push(`unsupported version ${String(input.version)}`);
+  checkString(issues, input, 'payloadCid', 'manifest');
+  checkString(issues, input, 'contentCid', 'manifest', false);
+  checkString(issues, input, 'createdAt', 'manifest');
+  if (typeof input.owner !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(input.owner)) issues.push('manifest.owner must be an address');
+
+  if (!isRecord(input.metadata)) {
+    issues.push('manifest.metadata must be an object');
+  } else {
+    checkString(issues, input.metadata, 'title', 'metadata');
+    checkString(issues, input.metadata, 'description', 'metadata', false);
+    checkString(issues, input.metadata, 'category', 'metadata', false);
+    checkString(issues, input.metadata, 'price', 'metadata', false);
+    if (typeof input.metadata.price === 'string' && input.metadata.price && !/^\d+(\.\d+)?$/.test(input.metadata.price)) {
+      issues.push('metadata.price must be a decimal amount');
+    }
+    const tiers = input.metadata.tierPrices;
+    if (tiers !== undefined && (!Array.isArray(tiers) || tiers.length !== 3 || tiers.some(t => typeof t !== 'string' || (t !== '' && !/^\d+(\.\d+)?$/.test(t))))) {
+      issues.push('metadata.tierPrices must be three decimal amounts (empty for tiers not offered)');
+    }
+    const token = input.metadata.paymentToken;
+    if (token !== undefined && (typeof token !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(token))) {
+      issues.push('metadata.paymentToken must be an address');
+    }
+    checkString(issues, input.metadata, 'accessType', 'metadata', false);
+    if (input.metadata.accessGate !== undefined && !isAccessGate(input.metadata.accessGate)) {
+      issues.push('metadata.accessGate must be an ERC-721, ERC-1155 or ERC-20 gate');
+    }
+  }
+
+  if (!isRecord(input.encryption)) {
+    issues.push('manifest.encryption must be an object');
+  } else {
+    if (input.encryption.provider !== 'lighthouse') issues.push('encryption.provider must be "lighthouse"');
+    if (!Array.isArray(input.encryption.litKeys)) {
+      issues.push('encryption.litKeys must be an array');
+    } else {
+      input.encryption.litKeys.forEach((entry, i) => {
+        if (!isRecord(entry) || typeof entry.key !== 'string' || !entry.key) {
+          issues.push(`encryption.litKeys[${i}].key must be a non-empty string`);
+          return;
+        }
+        validateAccessControlConditions(issues, entry.accessControlConditions, `encryption.litKeys[${i}].accessControlConditions`);
+        checkString(issues, entry, 'grantedAt', `encryption.litKeys[${i}]`, false);
+      });
+    }
+  }
+
+  if (issues.length) throw invalidManifest(issues);
+  return input as AgentManifest;
+};
+
+export const buildAgentManifest = (record: LocalUploadRecord): AgentManifest => {
+  if (!record.owner) throw new InvalidInputError('Cannot build a manifest without an owner address');
+  return validateAgentManifest({
+    schema: AGENT_MANIFEST_SCHEMA,
+    version: AGENT_MANIFEST_VERSION,
+    payloadCid: record.cid,
+    ...(record.contentCid && record.contentCid !== record.cid ? { contentCid: record.contentCid } : {}),
+    owner: record.owner.toLowerCase(),
+    createdAt: new Date().toISOString(),
+    metadata: {
+      title: record.title || record.cid,
+      description: record.description || '',
+      category: record.category || '',
+      price: record.price || '',
+      ...(record.tierPrices ? { tierPrices: record.tierPrices } : {}),
+      ...(record.paymentToken && !isNativeToken(record.paymentToken) ? { paymentToken: record.paymentToken } : {}),
+      ...(record.accessType ? { accessType: record.accessType } : {}),
+      ...(record.accessGate ? { accessGate: record.accessGate } : {}),
+    },
+    encryption: {
+      provider: 'lighthouse',
+      litKeys: (record.encryptedSymmetricKeys || []).map(e => ({
+        key: e.key,
+        accessControlConditions: e.accessControlConditions,
+        ...(e.grantedAt ? { grantedAt: e.grantedAt } : {}),
+      })),
+    },
+  });
+};
+
+// Upload the manifest as plain JSON; returns the manifest CID
+export const publishAgentManifest = async (manifest: AgentManifest, apiKey: string) => {
+  if (!apiKey) throw new ConfigError('Lighthouse API key required to publish the agent manifest');
+  const body = JSON.stringify(validateAgentManifest(manifest), null, 2);
+  const res = await getLighthouse().uploadText(body, apiKey, `${manifest.payloadCid}.manifest.json`);
+  const manifestCid = res?.data?.Hash;
+  if (!manifestCid) throw new LighthouseError('Manifest upload succeeded but no CID returned');
+  console.debug('[agentManifest] published manifest', { payloadCid: manifest.payloadCid, manifestCid });
+  return String(manifestCid);
+};
+
+export const fetchAgentManifest = async (manifestCid: string) => {
+  const bytes = await fetchIpfsBytes(manifestCid);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw invalidManifest(['manifest is not valid JSON']);
+  }
+  return validateAgentManifest(parsed);
+};
+
+// Turn a manifest into the record shape the rest of the app already understands
+export const manifestToUploadRecord = (manifest: AgentManifest, manifestCid: string): LocalUploadRecord => ({
+  cid: manifest.payloadCid,
+  ...(manifest.contentCid ? { contentCid: manifest.contentCid } : {}),
+  owner: manifest.owner.toLowerCase(),
+  title: manifest.metadata.title,
+  description: manifest.metadata.description,
+  category: manifest.metadata.category,
+  price: manifest.metadata.price,
+  tierPrices: manifest.metadata.tierPrices,
+  paymentToken: manifest.metadata.paymentToken,
+  ...(manifest.metadata.accessType ? { accessType: manifest.metadata.accessType } : {}),
+  ...(manifest.metadata.accessGate ? { accessGate: manifest.metadata.accessGate } : {}),
+  encryptedSymmetricKeys: manifest.encryption.litKeys,
+  litPersisted: manifest.encryption.litKeys.length > 0,
+  manifestCid,
+});
+
+// payloadCid -> manifestCid lookups remembered from manifests this browser has resolved before
+export const rememberManifestCid = (payloadCid: string, manifestCid: string) => {
+  try {
+    const cache = JSON.parse(localStorage.getItem(MANIFEST_CACHE_KEY) || '{}');
+    cache[payloadCid] = manifestCid;
+    localStorage.setItem(MANIFEST_CACHE_KEY, JSON.stringify(cache));
+  } catch (e) {
+    console.warn('[agentManifest] failed to cache manifest CID', e);
+  }
+};
+
+export const getRememberedManifestCid = (payloadCid: string): string | null => {
+  try {
+    const cache = JSON.parse(localStorage.getItem(MANIFEST_CACHE_KEY) || '{}');
+    return typeof cache[payloadCid] === 'string' ? cache[payloadCid] : null;
+  } catch {
+    return null;
+  }
+};
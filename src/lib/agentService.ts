@@ -0,0 +1,635 @@
+// Headless agent workflows: upload, download, share, revoke and recovering an agent key. Everything that
+// signs, talks to Lighthouse / Lit / RentAgent or writes the local upload records lives here; components
+// pass a signer, render the progress callbacks and show the typed results.
+import { ethers } from 'ethers';
+import RentAgentABI from '../abis/RentAgent.json';
+import { getLighthouse } from './lighthouseClient';
+import { getKeyFromLit, saveKeyToLit } from './litHelpers';
+import { clearLitSession, getLitSession } from './litSession';
+import { getLighthouseApiKeyFromEnv, getRentAgentAddress, requireDeployedChain } from './config';
+import { buildAddressAccessConditions, buildAgentAccessConditions, buildAllowlistAccessConditions, getAllowlistAddresses } from './accessConditions';
+import { getContentCid, loadLocalUploads, saveLocalUploads, updateLocalUpload, type LitKeyEntry, type LocalUploadRecord } from './agentCatalog';
+import { buildAgentManifest, fetchAgentManifest, manifestToUploadRecord, publishAgentManifest } from './agentManifest';
+import { lowestTierPrice, parseTierPrices, type TierPriceInputs } from './rentalTiers';
+import { parseCollaborators, type CollaboratorInput } from './revenueSplits';
+import { findPaymentToken } from './paymentTokens';
+import { decryptIpfsFile, decryptIpfsStream, encryptChunked, type DecryptProgress } from './cryptoHelpers';
+import { errorCode } from './errorMessages';
+import { resolveShareTargets, type ShareTarget } from './shareTargets';
+import type { AccessGate } from './accessGates';
+import { UPLOAD_JOB_STEPS, completeStep, createUploadJob, failStep, getUploadJob, isStepDone, loadUploadJobs, saveUploadJob, withUploadJobLock, type UploadJob } from './uploadJobs';
+import { AppError, AuthError, InvalidInputError, LighthouseError, LitNodeError, toAppError } from './errors';
+
+export type AgentMeta = {
+  title?: string;
+  description?: string;
+  category?: string;
+  accessType?: string; // AccessMode; defaults to 'rental'
+  accessGate?: AccessGate | null; // parsed gate for the token/NFT modes (see parseAccessGate)
+  tierPrices?: TierPriceInputs;
+  price?: string; // older callers pass a single price, which maps to the hourly tier
+  paymentToken?: string;
+  collaborators?: CollaboratorInput[];
+};
+
+export type UploadStage = 'authorizing' | 'uploading' | 'registering' | 'fetching-key' | 'persisting-key' | 'publishing-manifest' | 'announcing-manifest' | 'done';
+
+export type UploadProgress = {
+  stage: UploadStage;
+  message: string;
+  percent: number; // 0-100 across the whole pipeline
+  bytes?: { loaded: number; total: number }; // while uploading: request body bytes sent so far
+};
+
+export type RegistrationResult =
+  | { status: 'registered'; txHash: string }
+  | { status: 'skipped'; reason: string }
+  | { status: 'failed'; error: AppError };
+
+export type UploadResult = {
+  jobId: string; // the persisted upload job (src/lib/uploadJobs.ts)
+  cid: string;
+  record: LocalUploadRecord; // as saved to the local upload records
+  registration: RegistrationResult;
+  litError: AppError | null; // set when the key could not be persisted to Lit; recoverKey can fix it later
+  manifestCid: string | null;
+};
+
+export type ChainUpdateResult =
+  | { status: 'updated'; txHash: string }
+  | { status: 'skipped'; reason: string }
+  | { status: 'failed'; error: AppError };
+
+export type RotationResult = {
+  record: LocalUploadRecord;
+  contentCid: string; // the re-encrypted payload
+  chainUpdate: ChainUpdateResult; // RentAgent.updateContent; a failure leaves other devices on the old payload until retried
+};
+
+export type BatchShareResult = {
+  record: LocalUploadRecord | null; // null when nothing was granted and the record is unchanged
+  targets: ShareTarget[]; // one per input, in input order
+};
+
+export type UnlockOptions = {
+  // rounds over all key entries; rounds after the first wait `retryDelayMs` (Lit nodes may read chain state
+  // a block behind the wallet's RPC right after a rental)
+  attempts?: number;
+  retryDelayMs?: number;
+};
+
+export type DownloadOptions = UnlockOptions & {
+  record?: LocalUploadRecord; // defaults to this browser's record for the CID
+  symmetricKey?: string; // already unlocked, e.g. right after a rental
+  onProgress?: (progress: DecryptProgress) => void;
+};
+
+type LighthouseAuth = { publicKey: string; signedMessage: string };
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const signLighthouseAuth = async (signer: ethers.Signer): Promise<LighthouseAuth> => {
+  const publicKey = await signer.getAddress();
+  const response = await getLighthouse().getAuthMessage(publicKey);
+  const message = response?.data?.message;
+  if (!message) throw new LighthouseError('failed to get auth message');
+  return { publicKey, signedMessage: await signer.signMessage(message) };
+};
+
+const apiKeys = new Map<string, string>();
+
+// VITE_LIGHTHOUSE_API_KEY when set, otherwise a key generated for the signer (one signature per page load)
+export const getLighthouseApiKey = async (signer: ethers.Signer) => {
+  const configured = getLighthouseApiKeyFromEnv();
+  if (configured) return configured;
+  const address = (await signer.getAddress()).toLowerCase();
+  const cached = apiKeys.get(address);
+  if (cached) return cached;
+  const { publicKey, signedMessage } = await signLighthouseAuth(signer);
+  const response = await getLighthouse().getApiKey(publicKey, signedMessage);
+  if (!response?.data?.apiKey) throw new LighthouseError('no API key returned');
+  apiKeys.set(address, response.data.apiKey);
+  console.debug('[agentService] Lighthouse API key generated', { address });
+  return response.data.apiKey;
+};
+
+// RentAgent deployment on the signer's chain (null when no contract is configured). Keys are gated on this
+// deployment's chain, so working from an unsupported chain fails before anything is stored.
+const resolveDeployment = async (signer: ethers.Signer) => {
+  if (!getRentAgentAddress()) return null;
+  if (!signer.provider) throw new AuthError('Signer is not connected to a network');
+  return requireDeployedChain(Number((await signer.provider.getNetwork()).chainId));
+};
+
+// Lighthouse sometimes rejects a fresh signature (HTTP 406 / address mismatch); re-sign and retry with backoff
+const fetchSymmetricKey = async (signer: ethers.Signer, cid: string, auth: LighthouseAuth, maxAttempts = 5, delayMs = 2000) => {
+  let current = auth;
+  let lastError: unknown = null;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const response = await getLighthouse().fetchEncryptionKey(cid, current.publicKey, current.signedMessage);
+      if (response?.data?.key) return response.data.key;
+      throw new LighthouseError('no key in fetchEncryptionKey response');
+    } catch (e) {
+      lastError = e;
+      const msg = String((e as Error)?.message || '');
+      console.warn('[agentService] fetchEncryptionKey attempt failed', { attempt, cid, err: msg });
+      if (attempt === maxAttempts) break;
+      if (msg.includes('===') || (e as { statusCode?: number })?.statusCode === 406 || msg.toLowerCase().includes('address mismatch')) {
+        current = await signLighthouseAuth(signer);
+      }
+      await delay(delayMs * attempt);
+    }
+  }
+  throw lastError instanceof AppError ? lastError : new LighthouseError(`fetchEncryptionKey failed: ${toAppError(lastError).message}`, { cause: lastError });
+};
+
+// Encrypt into the chunked format (cryptoHelpers) under a fresh Kavach key, upload the ciphertext and hand
+// the key's shards to Lighthouse for the new CID, as the SDK's uploadEncrypted does for its own format.
+// fetchSymmetricKey recovers the key afterwards; downloads stream through decryptIpfsStream.
+const uploadChunkedEncrypted = async (file: Blob, name: string, apiKey: string, auth: LighthouseAuth, onProgress?: (fraction: number) => void) => {
+  const { masterKey, keyShards } = await getLighthouse().generate();
+  if (!masterKey) throw new LighthouseError('Kavach returned no encryption key');
+  const encrypted = new File([await encryptChunked(file, masterKey)], name, { type: 'application/octet-stream' });
+  const output = await getLighthouse().upload([encrypted], apiKey, 1, (data: { progress?: number }) => {
+    onProgress?.(Math.min(Math.max(Number(data?.progress) || 0, 0), 1));
+  });
+  const cid = output?.data?.Hash;
+  if (!cid) throw new LighthouseError('upload succeeded but no CID returned');
+  const saved = await getLighthouse().saveShards(auth.publicKey, cid, auth.signedMessage, keyShards);
+  if (!saved.isSuccess) throw new LighthouseError(`Lighthouse did not store the key for ${cid}: ${JSON.stringify(saved.error)}`);
+  return String(cid);
+};
+
+// Re-point a registered agent at a new payload (updateContent) or manifest (updateManifest)
+const updateAgentOnChain = async (signer: ethers.Signer, contractAddress: string, cid: string, method: 'updateContent' | 'updateManifest', value: string): Promise<ChainUpdateResult> => {
+  try {
+    const contract = new ethers.Contract(contractAddress, RentAgentABI, signer);
+    if ((await contract.agents(cid)).uploader === ethers.ZeroAddress) return { status: 'skipped', reason: 'Agent not registered on-chain' };
+    const tx = await contract.getFunction(method)(cid, value);
+    await tx.wait();
+    console.info(`[agentService] ${method} confirmed`, { cid, value, txHash: tx.hash });
+    return { status: 'updated', txHash: tx.hash };
+  } catch (e) {
+    console.warn(`[agentService] ${method} failed (non-fatal)`, e);
+    return { status: 'failed', error: toAppError(e) };
+  }
+};
+
+// RentAgent's view of an agent: its current owner, payload and manifest CIDs (empty until set); null when unregistered
+const readChainAgent = async (signer: ethers.Signer, contractAddress: string, cid: string) => {
+  const contract = new ethers.Contract(contractAddress, RentAgentABI, signer);
+  const [agent, contentCid, manifestCid] = await Promise.all([contract.agents(cid), contract.contentCids(cid), contract.manifestCids(cid)]);
+  if (agent.uploader === ethers.ZeroAddress) return null;
+  return { owner: String(agent.uploader).toLowerCase(), contentCid: String(contentCid), manifestCid: String(manifestCid) };
+};
+
+// Re-publish the manifest after a record's Lit entries change; the new manifest CID replaces the old one,
+// locally and on RentAgent, where renters on other devices look it up
+const republishManifest = async (signer: ethers.Signer, cid: string) => {
+  const record = loadLocalUploads().find(r => r.cid === cid) ?? null;
+  if (!record) return null;
+  let manifestCid: string;
+  try {
+    manifestCid = await publishAgentManifest(buildAgentManifest(record), await getLighthouseApiKey(signer));
+    console.info('[agentService] manifest re-published', { cid, manifestCid });
+  } catch (e) {
+    console.warn('[agentService] manifest re-publish failed (non-fatal)', e);
+    return record;
+  }
+  const updated = updateLocalUpload(cid, r => ({ ...r, manifestCid }));
+  const deployment = await resolveDeployment(signer).catch(e => {
+    console.warn('[agentService] manifest not recorded on-chain (non-fatal)', e);
+    return null;
+  });
+  if (deployment) await updateAgentOnChain(signer, deployment.address, cid, 'updateManifest', manifestCid);
+  return updated;
+};
+
+const registerOnChain = async (signer: ethers.Signer, contractAddress: string, cid: string, tierPrices: TierPriceInputs, meta: AgentMeta): Promise<RegistrationResult> => {
+  try {
+    const paymentToken = findPaymentToken(meta.paymentToken);
+    const contract = new ethers.Contract(contractAddress, RentAgentABI, signer);
+    // A CID belongs to its first uploader; fail with a clear message instead of a gas-estimation revert
+    const existing = await contract.agents(cid);
+    const signerAddress = (await signer.getAddress()).toLowerCase();
+    if (existing.uploader !== ethers.ZeroAddress && existing.uploader.toLowerCase() !== signerAddress) {
+      throw new InvalidInputError(`This CID is already registered on RentAgent by ${existing.uploader}. Only its owner can list or re-price it.`);
+    }
+    const splits = parseCollaborators(meta.collaborators || []);
+    console.debug('[agentService] registering agent on-chain', { contractAddress, cid, tierPrices, paymentToken: paymentToken.symbol, splits });
+    // Gated agents without a rental tier are claimed unpriced, so their manifest and subscriber access still resolve
+    const tx = lowestTierPrice(tierPrices)
+      ? await contract.uploadAgent(cid, parseTierPrices(tierPrices, paymentToken.decimals), paymentToken.address, splits)
+      : await contract.uploadGatedAgent(cid);
+    await tx.wait();
+    console.info('[agentService] uploadAgent registered on-chain', { cid, txHash: tx.hash });
+    return { status: 'registered', txHash: tx.hash };
+  } catch (e) {
+    console.warn('[agentService] failed to register agent on-chain (non-fatal)', e);
+    return { status: 'failed', error: toAppError(e) };
+  }
+};
+
+// Lit entries of a record, including the legacy single-key shape
+const keyEntries = (record: LocalUploadRecord): LitKeyEntry[] =>
+  record.encryptedSymmetricKeys?.length
+    ? record.encryptedSymmetricKeys
+    : record.encryptedSymmetricKey ? [{ key: record.encryptedSymmetricKey, accessControlConditions: record.accessControlConditions }] : [];
+
+const jobTierPrices = (meta: AgentMeta): TierPriceInputs => meta.tierPrices || [meta.price ? String(meta.price) : '', '', ''];
+
+// The local upload record for a job; Lit entries added since (shares) are kept
+const buildJobRecord = (job: UploadJob): LocalUploadRecord => {
+  const existing = loadLocalUploads().find(r => r.cid === job.cid);
+  const entries = existing ? keyEntries(existing) : [];
+  const tierPrices = jobTierPrices(job.meta);
+  const { keyEntry } = job;
+  return {
+    ...existing,
+    cid: job.cid!,
+    owner: job.owner,
+    title: job.meta.title || '',
+    description: job.meta.description || '',
+    category: job.meta.category || '',
+    accessType: job.meta.accessGate?.mode || job.meta.accessType || 'rental',
+    ...(job.meta.accessGate ? { accessGate: job.meta.accessGate } : {}),
+    price: lowestTierPrice(tierPrices),
+    tierPrices,
+    paymentToken: findPaymentToken(job.meta.paymentToken).address.toLowerCase(),
+    litPersisted: !!keyEntry,
+    txHash: job.txHash ?? null,
+    lastLitError: job.errors['key-persisted'] ?? null,
+    ...(keyEntry && !entries.some(e => e.key === keyEntry.key) ? { encryptedSymmetricKeys: [...entries, keyEntry] } : {}),
+    ...(job.manifestCid ? { manifestCid: job.manifestCid } : {}),
+  };
+};
+
+const saveJobRecord = (job: UploadJob) => {
+  const record = buildJobRecord(job);
+  saveLocalUploads([...loadLocalUploads().filter(r => r.cid !== record.cid), record]);
+  return record;
+};
+
+// Run the steps `job` has not completed yet, saving the job after each one. Only the upload itself is
+// fatal: later steps record their failure on the job and in the result so the owner can retry them.
+const runUploadJob = async (signer: ethers.Signer, initial: UploadJob, onProgress?: (progress: UploadProgress) => void): Promise<UploadResult> => {
+  const report = (stage: UploadStage, message: string, percent: number, bytes?: UploadProgress['bytes']) => onProgress?.({ stage, message, percent, ...(bytes ? { bytes } : {}) });
+  let job: UploadJob = { ...initial, status: 'running' };
+  const save = (next: UploadJob) => {
+    job = next;
+    return saveUploadJob(job);
+  };
+  if ((await signer.getAddress()).toLowerCase() !== job.owner) {
+    throw new AuthError(`This upload belongs to ${job.owner}; connect that wallet to resume it`);
+  }
+  const tierPrices = jobTierPrices(job.meta);
+  let auth: LighthouseAuth | null = null;
+  const getAuth = async () => (auth ??= await signLighthouseAuth(signer));
+  let registration: RegistrationResult | null = null;
+  let litError: AppError | null = null;
+
+  try {
+    await save(job);
+    const deployment = await resolveDeployment(signer);
+
+    if (!isStepDone(job, 'uploaded')) {
+      const file = job.file;
+      if (!file) throw new InvalidInputError('The file for this upload is no longer stored; start a new upload');
+      report('authorizing', 'Waiting for wallet signature...', 5);
+      const apiKey = await getLighthouseApiKey(signer);
+      const auth = await getAuth();
+
+      report('uploading', 'Encrypting and uploading to Lighthouse...', 15);
+      console.info('[agentService] upload start', { job: job.id, file: job.fileName, size: job.fileSize, owner: job.owner });
+      // The SDK reports the fraction of the (encrypted) request body sent; scale it to the plaintext size
+      const cid = await uploadChunkedEncrypted(file, job.fileName, apiKey, auth, fraction => {
+        if (!isStepDone(job, 'encrypted')) {
+          save(completeStep(job, 'encrypted')).catch(e => console.warn('[agentService] failed to save upload job', e));
+        }
+        report('uploading', 'Uploading to Lighthouse...', 15 + Math.round(35 * fraction), { loaded: Math.round(fraction * file.size), total: file.size });
+      });
+      console.info('[agentService] upload got CID', { job: job.id, cid });
+      await save(completeStep(completeStep(job, 'encrypted'), 'uploaded', { cid, file: null }));
+      saveJobRecord(job);
+    }
+    const cid = job.cid!;
+
+    if (!isStepDone(job, 'key-persisted')) {
+      // Renters who paid on-chain (RentAgent.isRenter), holders of the gating token, or the owner can decrypt
+      const accessControlConditions = buildAgentAccessConditions({ cid, owner: job.owner, contractAddress: deployment?.address, chain: deployment?.litChain ?? undefined, gate: job.meta.accessGate });
+      try {
+        report('fetching-key', 'Retrieving symmetric key from Lighthouse...', 55);
+        const symmetricKey = await fetchSymmetricKey(signer, cid, await getAuth());
+        report('persisting-key', 'Saving key to Lit Protocol...', 65);
+        const key = await saveKeyToLit(symmetricKey, accessControlConditions, 3);
+        await save(completeStep(job, 'key-persisted', { keyEntry: { key, accessControlConditions } }));
+      } catch (e) {
+        litError = toAppError(e);
+        console.warn('[agentService] key not persisted to Lit; saving record with litPersisted=false', litError.message);
+        await save(failStep(job, 'key-persisted', litError.message));
+      }
+    }
+
+    if (!isStepDone(job, 'registered')) {
+      if (!deployment || (!lowestTierPrice(tierPrices) && !job.meta.accessGate)) {
+        const reason = deployment ? 'No rental tier priced' : 'RentAgent contract not configured';
+        registration = { status: 'skipped', reason };
+        await save(completeStep(job, 'registered', { txHash: null, registrationSkipped: reason }));
+      } else {
+        report('registering', 'Registering agent on-chain...', 75);
+        const result = await registerOnChain(signer, deployment.address, cid, tierPrices, job.meta);
+        if (result.status === 'registered') await save(completeStep(job, 'registered', { txHash: result.txHash }));
+        else if (result.status === 'failed') await save(failStep(job, 'registered', result.error.message));
+        registration = result;
+      }
+    }
+
+    // The unencrypted manifest lets renters on other machines resolve metadata + Lit entries
+    if (!isStepDone(job, 'manifest-published') && isStepDone(job, 'key-persisted')) {
+      report('publishing-manifest', 'Publishing agent manifest...', 88);
+      try {
+        const manifestCid = await publishAgentManifest(buildAgentManifest(buildJobRecord(job)), await getLighthouseApiKey(signer));
+        console.info('[agentService] manifest published', { cid, manifestCid });
+        await save(completeStep(job, 'manifest-published', { manifestCid }));
+      } catch (e) {
+        console.warn('[agentService] manifest publish failed (non-fatal)', e);
+        await save(failStep(job, 'manifest-published', toAppError(e).message));
+      }
+    }
+
+    // RentAgent keeps the manifest CID, so renters on any device resolve the agent from its id alone
+    if (!isStepDone(job, 'manifest-announced') && isStepDone(job, 'manifest-published') && isStepDone(job, 'registered')) {
+      if (!deployment || !job.txHash) {
+        await save(completeStep(job, 'manifest-announced'));
+      } else {
+        report('announcing-manifest', 'Recording the manifest on-chain...', 94);
+        const result = await updateAgentOnChain(signer, deployment.address, cid, 'updateManifest', job.manifestCid!);
+        if (result.status === 'failed') await save(failStep(job, 'manifest-announced', result.error.message));
+        else await save(completeStep(job, 'manifest-announced'));
+      }
+    }
+
+    const done = UPLOAD_JOB_STEPS.every(step => isStepDone(job, step));
+    await save({ ...job, status: done ? 'done' : 'failed', updatedAt: Date.now() });
+    const record = saveJobRecord(job);
+    report('done', done ? 'Upload complete' : 'Upload finished with errors', 100);
+    return {
+      jobId: job.id,
+      cid,
+      record,
+      registration: registration ?? (job.txHash ? { status: 'registered', txHash: job.txHash } : { status: 'skipped', reason: job.registrationSkipped || '' }),
+      litError,
+      manifestCid: job.manifestCid ?? null,
+    };
+  } catch (e) {
+    const step = UPLOAD_JOB_STEPS.find(s => !isStepDone(job, s)) ?? 'uploaded';
+    await save({ ...failStep(job, step, toAppError(e).message), status: 'failed' }).catch(err => console.warn('[agentService] failed to save upload job', err));
+    throw e;
+  }
+};
+
+// Encrypt + upload through Lighthouse, persist the key to Lit under the rental conditions, register on
+// RentAgent and publish the manifest, as a persisted job that can be resumed if the tab closes midway
+const upload = async (signer: ethers.Signer, file: File, meta: AgentMeta = {}, onProgress?: (progress: UploadProgress) => void): Promise<UploadResult> => {
+  if (!file) throw new InvalidInputError('No file provided');
+  findPaymentToken(meta.paymentToken);
+  parseCollaborators(meta.collaborators || []);
+  const job = createUploadJob(await signer.getAddress(), file, meta);
+  // a new job's lock is always free
+  return (await withUploadJobLock(job.id, () => runUploadJob(signer, job, onProgress)))!;
+};
+
+// Continue a failed or interrupted upload job from its first incomplete step
+const resumeUpload = async (signer: ethers.Signer, jobId: string, onProgress?: (progress: UploadProgress) => void) => {
+  const job = await getUploadJob(jobId);
+  if (!job) throw new InvalidInputError(`No upload job ${jobId} in this browser`);
+  const result = await withUploadJobLock(jobId, () => runUploadJob(signer, job, onProgress));
+  if (!result) throw new InvalidInputError('This upload is already running in another tab');
+  return result;
+};
+
+// Startup worker: resume the signer's jobs left 'running' by a tab that closed mid-upload. Failed jobs
+// wait for their owner to retry them from the dashboard.
+const resumeInterruptedUploads = async (signer: ethers.Signer) => {
+  const address = (await signer.getAddress()).toLowerCase();
+  const interrupted = (await loadUploadJobs()).filter(job => job.status === 'running' && job.owner === address);
+  const results: UploadResult[] = [];
+  for (const job of interrupted) {
+    try {
+      const result = await withUploadJobLock(job.id, () => runUploadJob(signer, job));
+      if (result) {
+        console.info('[agentService] resumed interrupted upload', { job: job.id, cid: result.cid });
+        results.push(result);
+      }
+    } catch (e) {
+      console.warn('[agentService] could not resume upload job', { job: job.id, err: toAppError(e).message });
+    }
+  }
+  return results;
+};
+
+// Symmetric key of `record`, from the first Lit entry the signer's session can decrypt
+const unlockKey = async (signer: ethers.Signer, record: LocalUploadRecord, options: UnlockOptions = {}) => {
+  const { attempts = 1, retryDelayMs = 4000 } = options;
+  const entries = keyEntries(record);
+  if (!entries.length) {
+    throw new LitNodeError('No encrypted keys available (no Lit entries). The uploader likely failed to persist the key to Lit — ask them to retry publishing.');
+  }
+  // Reuses the cached Lit session when one exists, so the wallet signs at most once per session
+  const session = await getLitSession(signer);
+
+  let lastError: unknown = null;
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    for (const entry of entries) {
+      try {
+        return await getKeyFromLit(entry.key, entry.accessControlConditions || null, session);
+      } catch (e) {
+        console.warn('[agentService] getKeyFromLit failed for one entry', { cid: record.cid, attempt, err: (e as Error)?.message });
+        lastError = e;
+      }
+    }
+    // retrying cannot fix a wallet that is not granted or a rejected signature
+    const code = errorCode(lastError);
+    if (code === 'ACC_MISMATCH' || code === 'USER_REJECTED' || code === 'SESSION_EXPIRED') break;
+    if (attempt < attempts) await delay(retryDelayMs);
+  }
+
+  // keep the node's complaint on the owner's record so it can be inspected from the uploads list
+  updateLocalUpload(record.cid, r => ({ ...r, lastLitError: toAppError(lastError).message }));
+  const code = errorCode(lastError);
+  // drop the rejected session so the next attempt signs a new one instead of reusing it
+  if (code === 'SESSION_EXPIRED') clearLitSession(session.address);
+  if (code === 'ACC_MISMATCH' || code === 'USER_REJECTED' || code === 'SESSION_EXPIRED') throw lastError;
+  const cause = toAppError(lastError);
+  throw new LitNodeError(`unable to retrieve the decryption key (${cause.message}). The rental may not be confirmed on-chain yet, or the owner needs to recover the key`, {
+    cause: lastError,
+    nodeInfo: cause instanceof LitNodeError ? cause.nodeInfo : null,
+  });
+};
+
+// Decrypted payload as a stream (chunked payloads are decrypted as they arrive); pass it to saveStreamAsFile
+const download = async (signer: ethers.Signer, cid: string, options: DownloadOptions = {}) => {
+  const record = options.record ?? loadLocalUploads().find(r => r.cid === cid);
+  let symmetricKey = options.symmetricKey;
+  if (!symmetricKey) {
+    if (!record) throw new InvalidInputError(`No record of agent ${cid} in this browser. Resolve its manifest first.`);
+    symmetricKey = await unlockKey(signer, record, options);
+  }
+  // after a key rotation the payload lives at the record's contentCid
+  return decryptIpfsStream(record ? getContentCid(record) : cid, symmetricKey, { onProgress: options.onProgress });
+};
+
+// Grant one address its own Lit entry for the agent key
+const share = async (signer: ethers.Signer, cid: string, targetAddress: string) => {
+  if (!ethers.isAddress(targetAddress)) throw new InvalidInputError('Invalid target address');
+  const record = loadLocalUploads().find(r => r.cid === cid);
+  const auth = await signLighthouseAuth(signer);
+  console.info('[agentService] share start', { cid, targetAddress, owner: auth.publicKey });
+  const symmetricKey = await fetchSymmetricKey(signer, record ? getContentCid(record) : cid, auth);
+  const accessControlConditions = buildAddressAccessConditions(targetAddress.toLowerCase());
+  const key = await saveKeyToLit(symmetricKey, accessControlConditions, 3);
+  const grantedAt = new Date().toISOString();
+  updateLocalUpload(cid, r => ({ ...r, encryptedSymmetricKeys: [...keyEntries(r), { key, accessControlConditions, grantedAt }] }));
+  return republishManifest(signer, cid);
+};
+
+// Addresses an explicit share entry grants: one for a single share, several for a batch allowlist
+const sharedAddresses = (entry: LitKeyEntry) => getAllowlistAddresses(entry.accessControlConditions);
+
+// Share with many addresses or ENS names at once. Every input is resolved and validated on its own; the
+// ones not already granted get a single Lit entry whose conditions OR their addresses together.
+const shareMany = async (signer: ethers.Signer, cid: string, inputs: string[], onProgress?: (message: string) => void): Promise<BatchShareResult> => {
+  const record = loadLocalUploads().find(r => r.cid === cid);
+  if (!record) throw new InvalidInputError(`No record of agent ${cid} in this browser`);
+  const owner = (await signer.getAddress()).toLowerCase();
+  if (record.owner && record.owner.toLowerCase() !== owner) throw new AuthError('Only the agent owner can share it');
+  if (!inputs.length) throw new InvalidInputError('No addresses or ENS names to share with');
+
+  const resolved = await resolveShareTargets(inputs, async name => {
+    if (!signer.provider) throw new Error('wallet has no provider for ENS lookups');
+    return signer.provider.resolveName(name);
+  }, onProgress);
+  const granted = new Set([owner, ...getSharedAddresses(record)]);
+  const targets = resolved.map(t => (t.status === 'resolved' && granted.has(t.address!) ? { ...t, status: 'already-shared' as const } : t));
+  const addresses = targets.filter(t => t.status === 'resolved').map(t => t.address!);
+  console.info('[agentService] batch share start', { cid, inputs: inputs.length, new: addresses.length });
+  if (!addresses.length) return { record: null, targets };
+
+  const auth = await signLighthouseAuth(signer);
+  const symmetricKey = await fetchSymmetricKey(signer, getContentCid(record), auth);
+  onProgress?.(`Saving one Lit entry for ${addresses.length} address${addresses.length === 1 ? '' : 'es'}...`);
+  const accessControlConditions = buildAllowlistAccessConditions(addresses);
+  const key = await saveKeyToLit(symmetricKey, accessControlConditions, 3);
+  const grantedAt = new Date().toISOString();
+  updateLocalUpload(cid, r => ({ ...r, encryptedSymmetricKeys: [...keyEntries(r), { key, accessControlConditions, grantedAt }] }));
+  onProgress?.('Publishing agent manifest...');
+  const updated = await republishManifest(signer, cid);
+  return { record: updated, targets: targets.map(t => (t.status === 'resolved' ? { ...t, status: 'granted' as const } : t)) };
+};
+
+export type Grantee = { address: string; grantedAt: string | null }; // grantedAt is null for shares made before it was recorded
+
+// Addresses with an explicit share, oldest grant first
+export const getGrantees = (record: LocalUploadRecord): Grantee[] => {
+  const owner = record.owner?.toLowerCase();
+  const grantees = new Map<string, Grantee>();
+  for (const entry of keyEntries(record)) {
+    for (const address of sharedAddresses(entry)) {
+      if (address !== owner && !grantees.has(address)) grantees.set(address, { address, grantedAt: entry.grantedAt ?? null });
+    }
+  }
+  return [...grantees.values()];
+};
+
+export const getSharedAddresses = (record: LocalUploadRecord) => getGrantees(record).map(g => g.address);
+
+// Revoke an explicit share by rotating the agent key: the payload is decrypted and uploaded again under a
+// fresh Lighthouse key, and Lit entries are re-created only for owner/renters and the remaining grantees.
+// The agent keeps `cid` as its id (rentals, Lit conditions); RentAgent.updateContent re-points it at the
+// new payload. The old ciphertext stays on IPFS, so a revoked grantee keeps the version they could read.
+const revoke = async (signer: ethers.Signer, cid: string, address: string, onProgress?: (message: string) => void): Promise<RotationResult> => {
+  const record = loadLocalUploads().find(r => r.cid === cid);
+  if (!record) throw new InvalidInputError(`No record of agent ${cid} in this browser`);
+  const owner = (await signer.getAddress()).toLowerCase();
+  if (record.owner && record.owner.toLowerCase() !== owner) throw new AuthError('Only the agent owner can revoke access');
+  const target = address.toLowerCase();
+  const grantees = getGrantees(record);
+  if (!grantees.some(g => g.address === target)) throw new InvalidInputError(`${address} has no explicit share for this agent`);
+  // each remaining share entry (single address or batch allowlist) is re-created without the revoked address
+  const remaining = keyEntries(record)
+    .map(entry => ({ addresses: sharedAddresses(entry).filter(a => a !== target && a !== owner), grantedAt: entry.grantedAt }))
+    .filter(group => group.addresses.length);
+  const deployment = await resolveDeployment(signer);
+  const auth = await signLighthouseAuth(signer);
+  console.info('[agentService] key rotation start', { cid, revoked: target, remaining: remaining.length });
+
+  onProgress?.('Decrypting the current payload...');
+  const payload = await decryptIpfsFile(getContentCid(record), await fetchSymmetricKey(signer, getContentCid(record), auth));
+  onProgress?.('Re-encrypting under a new key and uploading...');
+  const contentCid = await uploadChunkedEncrypted(payload, record.title || cid, await getLighthouseApiKey(signer), auth);
+  const symmetricKey = await fetchSymmetricKey(signer, contentCid, auth);
+
+  onProgress?.('Saving keys to Lit Protocol...');
+  const agentConditions = buildAgentAccessConditions({ cid, owner, contractAddress: deployment?.address, chain: deployment?.litChain ?? undefined, gate: record.accessGate });
+  const entries: LitKeyEntry[] = [{ key: await saveKeyToLit(symmetricKey, agentConditions, 3), accessControlConditions: agentConditions }];
+  for (const group of remaining) {
+    const accessControlConditions = buildAllowlistAccessConditions(group.addresses);
+    entries.push({ key: await saveKeyToLit(symmetricKey, accessControlConditions, 3), accessControlConditions, ...(group.grantedAt ? { grantedAt: group.grantedAt } : {}) });
+  }
+  updateLocalUpload(cid, r => ({ ...r, contentCid, encryptedSymmetricKeys: entries, encryptedSymmetricKey: undefined, accessControlConditions: undefined, litPersisted: true, lastLitError: null }));
+  console.info('[agentService] key rotated', { cid, contentCid });
+
+  let chainUpdate: ChainUpdateResult;
+  if (!deployment) chainUpdate = { status: 'skipped', reason: 'RentAgent contract not configured' };
+  else {
+    onProgress?.('Pointing the on-chain record at the new payload...');
+    chainUpdate = await updateAgentOnChain(signer, deployment.address, cid, 'updateContent', contentCid);
+  }
+
+  onProgress?.('Publishing agent manifest...');
+  const updated = await republishManifest(signer, cid);
+  return { record: updated!, contentCid, chainUpdate };
+};
+
+// Repair an agent's key in place, without re-uploading the payload: fetch the symmetric key from Lighthouse
+// (only the uploader can), persist it to Lit under the current rental conditions and replace the record's
+// owner/renter entries with it, including the single-key shape of older uploads. Explicit shares are kept.
+// An upload whose job never persisted the key resumes the job instead, which also retries its later steps.
+// On a device without the local record the agent is rebuilt from its on-chain manifest; RentAgent's owner and
+// content CID win over both, so a key rotated elsewhere is recovered for the current payload.
+const recoverKey = async (signer: ethers.Signer, cid: string) => {
+  const job = (await loadUploadJobs()).find(j => j.cid === cid && !isStepDone(j, 'key-persisted'));
+  if (job) return (await resumeUpload(signer, job.id)).record;
+  const deployment = await resolveDeployment(signer);
+  const auth = await signLighthouseAuth(signer);
+  const owner = auth.publicKey.toLowerCase();
+  const chainAgent = deployment ? await readChainAgent(signer, deployment.address, cid) : null;
+  let existing = loadLocalUploads().find(r => r.cid === cid) ?? null;
+  if (!existing && chainAgent?.manifestCid) {
+    existing = { ...manifestToUploadRecord(await fetchAgentManifest(chainAgent.manifestCid), chainAgent.manifestCid), cid };
+  }
+  // republishing a bare record would replace the published manifest with an empty one
+  if (!existing) throw new InvalidInputError(`No record of agent ${cid} in this browser or on RentAgent. Recover it from the browser it was uploaded from.`);
+  if (chainAgent) existing = { ...existing, owner: chainAgent.owner, ...(chainAgent.contentCid ? { contentCid: chainAgent.contentCid } : {}) };
+  if (existing.owner && existing.owner.toLowerCase() !== owner) throw new AuthError('Only the agent owner can recover its key');
+  console.info('[agentService] recoverKey start', { cid, owner, legacy: !!existing.encryptedSymmetricKey, contentCid: getContentCid(existing) });
+  const symmetricKey = await fetchSymmetricKey(signer, getContentCid(existing), auth);
+  const accessControlConditions = buildAgentAccessConditions({ cid, owner, contractAddress: deployment?.address, chain: deployment?.litChain ?? undefined, gate: existing.accessGate });
+  const key = await saveKeyToLit(symmetricKey, accessControlConditions, 3);
+  const record: LocalUploadRecord = {
+    ...existing,
+    encryptedSymmetricKeys: [{ key, accessControlConditions }, ...(existing.encryptedSymmetricKeys ?? []).filter(e => sharedAddresses(e).some(a => a !== owner))],
+    encryptedSymmetricKey: undefined,
+    accessControlConditions: undefined,
+    litPersisted: true,
+    lastLitError: null,
+  };
+  saveLocalUploads([...loadLocalUploads().filter(r => r.cid !== cid), record]);
+  console.info('[agentService] key recovered', { cid, shares: record.encryptedSymmetricKeys!.length - 1 });
+  return republishManifest(signer, cid);
+};
+
+export const agentService = { upload, resumeUpload, resumeInterruptedUploads, download, unlockKey, share, shareMany, revoke, recoverKey };
+
+export type AgentService = typeof agentService;
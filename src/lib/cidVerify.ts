@@ -0,0 +1,317 @@
+// Trustless IPFS downloads. Gateways are asked for a CAR (application/vnd.ipld.car), every block is hashed
+// and checked against its CID, and the file is rebuilt by walking the DAG from the requested root, so a
+// tampering gateway can't make a renter decrypt or run modified content.
+// Supports raw-leaf CIDs and UnixFS files (dag-pb, CIDv0 or v1) with sha2-256 or identity multihashes.
+// Decoding is hand-rolled (varints, protobuf, base32/base58) to keep IPLD libraries out of the bundle.
+import { fetchFromGateways, type GatewayFetchOptions } from './ipfsGateways';
+import { AppError, InvalidInputError } from './errors';
+
+const CODEC_RAW = 0x55;
+const CODEC_DAG_PB = 0x70;
+const HASH_IDENTITY = 0x00;
+const HASH_SHA2_256 = 0x12;
+const UNIXFS_RAW = 0;
+const UNIXFS_FILE = 2;
+
+// dfs order lets blocks be verified and emitted as they arrive; dups=y avoids caching repeated chunks
+export const CAR_ACCEPT = 'application/vnd.ipld.car; version=1; order=dfs; dups=y';
+
+export class CidVerificationError extends AppError {
+  readonly cid: string;
+
+  constructor(cid: string, detail: string) {
+    super('INTEGRITY', `Content for ${cid} failed verification: ${detail}`);
+    this.name = 'CidVerificationError';
+    this.cid = cid;
+  }
+}
+
+export type ParsedCid = {
+  version: 0 | 1;
+  codec: number;
+  hashCode: number;
+  digest: Uint8Array;
+  multihash: Uint8Array;
+};
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const equalBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+// Returns [value, bytesRead], or null when the buffer ends mid-varint
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] | null => {
+  let value = 0;
+  let multiplier = 1;
+  for (let pos = offset; pos < bytes.length; pos++) {
+    const b = bytes[pos];
+    value += (b & 0x7f) * multiplier;
+    if (b < 0x80) return [value, pos - offset + 1];
+    multiplier *= 128;
+    if (multiplier > 2 ** 49) throw new Error('varint too long');
+  }
+  return null;
+};
+
+const requireVarint = (bytes: Uint8Array, offset: number) => {
+  const v = readVarint(bytes, offset);
+  if (!v) throw new Error('truncated varint');
+  return v;
+};
+
+const decodeBase32 = (s: string) => {
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const ch of s) {
+    const v = BASE32_ALPHABET.indexOf(ch);
+    if (v < 0) throw new Error(`invalid base32 character "${ch}"`);
+    buffer = (buffer << 5) | v;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      out.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(out);
+};
+
+const decodeBase58 = (s: string) => {
+  const bytes: number[] = [];
+  for (const ch of s) {
+    let carry = BASE58_ALPHABET.indexOf(ch);
+    if (carry < 0) throw new Error(`invalid base58 character "${ch}"`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (const ch of s) {
+    if (ch !== '1') break;
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+};
+
+// Binary CID at `offset`; CIDv0 is a bare sha2-256 multihash and always dag-pb
+const readBinaryCid = (bytes: Uint8Array, offset: number): { cid: ParsedCid; length: number } => {
+  let pos = offset;
+  let version: 0 | 1 = 0;
+  let codec = CODEC_DAG_PB;
+  if (!(bytes[pos] === HASH_SHA2_256 && bytes[pos + 1] === 0x20)) {
+    const [v, vLen] = requireVarint(bytes, pos);
+    if (v !== 1) throw new Error(`unsupported CID version ${v}`);
+    pos += vLen;
+    const [c, cLen] = requireVarint(bytes, pos);
+    pos += cLen;
+    version = 1;
+    codec = c;
+  }
+  const mhStart = pos;
+  const [hashCode, hLen] = requireVarint(bytes, pos);
+  pos += hLen;
+  const [digestLength, dLen] = requireVarint(bytes, pos);
+  pos += dLen;
+  if (pos + digestLength > bytes.length) throw new Error('truncated multihash');
+  const digest = bytes.slice(pos, pos + digestLength);
+  pos += digestLength;
+  return { cid: { version, codec, hashCode, digest, multihash: bytes.slice(mhStart, pos) }, length: pos - offset };
+};
+
+export const parseCid = (cid: string): ParsedCid => {
+  const s = cid.trim();
+  try {
+    let bytes: Uint8Array;
+    if (/^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(s)) bytes = decodeBase58(s);
+    else if (s.startsWith('b')) bytes = decodeBase32(s.slice(1));
+    else if (s.startsWith('B')) bytes = decodeBase32(s.slice(1).toLowerCase());
+    else if (s.startsWith('z')) bytes = decodeBase58(s.slice(1));
+    else throw new Error('unsupported multibase encoding');
+    const { cid: parsed, length } = readBinaryCid(bytes, 0);
+    if (length !== bytes.length) throw new Error('trailing bytes');
+    return parsed;
+  } catch (e) {
+    throw new InvalidInputError(`Invalid CID ${cid}: ${(e as Error).message}`, { cause: e });
+  }
+};
+
+// Blocks are matched by multihash, so CIDv0 and CIDv1 links to the same content are interchangeable
+const blockKey = (cid: ParsedCid) => toHex(cid.multihash);
+
+const verifyBlock = async (rootCid: string, cid: ParsedCid, data: Uint8Array) => {
+  let actual: Uint8Array;
+  if (cid.hashCode === HASH_IDENTITY) actual = data;
+  else if (cid.hashCode === HASH_SHA2_256) actual = new Uint8Array(await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>));
+  else throw new CidVerificationError(rootCid, `unsupported hash function 0x${cid.hashCode.toString(16)}`);
+  if (!equalBytes(actual, cid.digest)) throw new CidVerificationError(rootCid, `block ${toHex(cid.digest).slice(0, 16)}… does not match its hash`);
+};
+
+type PbField = { field: number; value: number | Uint8Array };
+
+const readProtobuf = (bytes: Uint8Array): PbField[] => {
+  const fields: PbField[] = [];
+  let pos = 0;
+  while (pos < bytes.length) {
+    const [key, keyLen] = requireVarint(bytes, pos);
+    pos += keyLen;
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    if (wireType === 0) {
+      const [value, len] = requireVarint(bytes, pos);
+      pos += len;
+      fields.push({ field, value });
+    } else if (wireType === 2) {
+      const [length, len] = requireVarint(bytes, pos);
+      pos += len;
+      if (pos + length > bytes.length) throw new Error('truncated protobuf field');
+      fields.push({ field, value: bytes.subarray(pos, pos + length) });
+      pos += length;
+    } else if (wireType === 1) pos += 8;
+    else if (wireType === 5) pos += 4;
+    else throw new Error(`unsupported protobuf wire type ${wireType}`);
+  }
+  if (pos !== bytes.length) throw new Error('truncated protobuf message');
+  return fields;
+};
+
+const bytesField = (fields: PbField[], field: number) => {
+  const f = fields.find(x => x.field === field && x.value instanceof Uint8Array);
+  return f ? (f.value as Uint8Array) : null;
+};
+
+const numberField = (fields: PbField[], field: number) => {
+  const f = fields.find(x => x.field === field && typeof x.value === 'number');
+  return f ? (f.value as number) : null;
+};
+
+// dag-pb PBNode { Links = 2; Data = 1 } wrapping a UnixFS Data { Type = 1; Data = 2; filesize = 3 }
+const decodeUnixFsFile = (rootCid: string, block: Uint8Array) => {
+  try {
+    const node = readProtobuf(block);
+    const links = node
+      .filter(f => f.field === 2 && f.value instanceof Uint8Array)
+      .map(f => {
+        const hash = bytesField(readProtobuf(f.value as Uint8Array), 1);
+        if (!hash) throw new Error('dag-pb link without a hash');
+        return readBinaryCid(hash, 0).cid;
+      });
+    const data = bytesField(node, 1);
+    if (!data) throw new Error('dag-pb node has no UnixFS data');
+    const unixfs = readProtobuf(data);
+    const type = numberField(unixfs, 1);
+    if (type !== UNIXFS_FILE && type !== UNIXFS_RAW) throw new Error(`UnixFS node type ${type} is not a file`);
+    return { links, content: bytesField(unixfs, 2) || new Uint8Array(0), filesize: numberField(unixfs, 3) };
+  } catch (e) {
+    if (e instanceof CidVerificationError) throw e;
+    throw new CidVerificationError(rootCid, (e as Error).message);
+  }
+};
+
+// TransformStream from a CAR response body to the verified file bytes. With dfs-ordered CARs each block is
+// emitted as soon as it is verified; blocks that arrive early are held until the traversal reaches them.
+export const createVerifiedCarStream = (rootCid: string) => {
+  const root = parseCid(rootCid);
+  const stack: ParsedCid[] = [root];
+  // outstanding links per block; a block is dropped once nothing on the stack still needs it
+  const refs = new Map<string, number>([[blockKey(root), 1]]);
+  const blocks = new Map<string, Uint8Array>();
+  let buffer = new Uint8Array(0);
+  let headerRead = false;
+  let emitted = 0;
+  let rootSize: number | null = null;
+
+  const walk = (controller: TransformStreamDefaultController<Uint8Array>) => {
+    while (stack.length) {
+      const next = stack[stack.length - 1];
+      const key = blockKey(next);
+      const block = blocks.get(key);
+      if (!block) return;
+      stack.pop();
+      const left = (refs.get(key) || 1) - 1;
+      if (left > 0) refs.set(key, left);
+      else {
+        refs.delete(key);
+        blocks.delete(key);
+      }
+
+      if (next.codec === CODEC_RAW) {
+        controller.enqueue(block);
+        emitted += block.length;
+        continue;
+      }
+      if (next.codec !== CODEC_DAG_PB) throw new CidVerificationError(rootCid, `unsupported codec 0x${next.codec.toString(16)}`);
+      const node = decodeUnixFsFile(rootCid, block);
+      if (next === root) rootSize = node.filesize;
+      if (node.content.length) {
+        controller.enqueue(node.content);
+        emitted += node.content.length;
+      }
+      for (let i = node.links.length - 1; i >= 0; i--) {
+        const linkKey = blockKey(node.links[i]);
+        refs.set(linkKey, (refs.get(linkKey) || 0) + 1);
+        stack.push(node.links[i]);
+      }
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      const merged = new Uint8Array(buffer.length + chunk.length);
+      merged.set(buffer, 0);
+      merged.set(chunk, buffer.length);
+      let offset = 0;
+      for (;;) {
+        const length = readVarint(merged, offset);
+        if (!length || offset + length[1] + length[0] > merged.length) break;
+        const section = merged.subarray(offset + length[1], offset + length[1] + length[0]);
+        offset += length[1] + length[0];
+        // the header (dag-cbor roots) is not trusted for anything, the root comes from the caller
+        if (!headerRead) {
+          headerRead = true;
+          continue;
+        }
+        let parsed: { cid: ParsedCid; length: number };
+        try {
+          parsed = readBinaryCid(section, 0);
+        } catch (e) {
+          throw new CidVerificationError(rootCid, `malformed CAR block: ${(e as Error).message}`);
+        }
+        const data = section.slice(parsed.length);
+        await verifyBlock(rootCid, parsed.cid, data);
+        const key = blockKey(parsed.cid);
+        if (!blocks.has(key)) blocks.set(key, data);
+        walk(controller);
+      }
+      buffer = merged.slice(offset);
+    },
+    flush() {
+      if (!headerRead) throw new CidVerificationError(rootCid, 'empty CAR response');
+      if (buffer.length) throw new CidVerificationError(rootCid, 'CAR response ended mid-block');
+      if (stack.length) throw new CidVerificationError(rootCid, `missing block ${toHex(stack[stack.length - 1].digest).slice(0, 16)}…`);
+      if (rootSize !== null && rootSize !== emitted) throw new CidVerificationError(rootCid, `file size ${emitted} does not match UnixFS size ${rootSize}`);
+    },
+  });
+};
+
+// Fetch a CID as a trustless CAR from the gateway race and stream out the verified file bytes.
+// Gateways that ignore the CAR request lose the race instead of serving unverifiable bytes.
+export const fetchVerifiedIpfsStream = async (cid: string, options: GatewayFetchOptions = {}) => {
+  const verifier = createVerifiedCarStream(cid);
+  const { response, gateway } = await fetchFromGateways(cid, {
+    ...options,
+    headers: { ...options.headers, Accept: CAR_ACCEPT },
+    validate: res => {
+      const type = res.headers.get('content-type') || '';
+      return type.includes('application/vnd.ipld.car') ? null : `not a CAR response (${type || 'no content-type'})`;
+    },
+  });
+  console.debug('[cidVerify] verifying CAR stream', { cid, gateway });
+  return (response.body as ReadableStream<Uint8Array>).pipeThrough(verifier);
+};
@@ -0,0 +1,156 @@
+// Typed view of the chain / Lit environment. Every module that needs the RentAgent address, the chain it
+// lives on, the Lit network or the Lit chain name reads it from here instead of import.meta.env.
+//
+// A deployment is a RentAgent contract on one chain. VITE_RENT_AGENT_ADDRESS (+ VITE_RENT_AGENT_CHAIN_ID,
+// VITE_RENT_AGENT_DEPLOY_BLOCK) describes the primary one; VITE_RENT_AGENT_DEPLOYMENTS can list more as
+// `chainId:address[:deployBlock]`, comma-separated. Access control conditions always name the deployment's
+// chain, so Lit evaluates isRenter() where the rental was paid, whatever chain the wallet is on later.
+import { ConfigError } from './errors';
+
+export type LitNetwork = 'datil-dev' | 'datil-test' | 'datil';
+
+export type RentAgentDeployment = {
+  chainId: number;
+  address: string;
+  deployBlock: number;
+  litChain: string | null; // null when Lit nodes cannot read this chain (e.g. a local Hardhat node)
+};
+
+const LIT_NETWORKS: LitNetwork[] = ['datil-dev', 'datil-test', 'datil'];
+const DEFAULT_LIT_NETWORK: LitNetwork = 'datil-dev';
+
+const SEPOLIA_CHAIN_ID = 11155111;
+const HARDHAT_CHAIN_ID = 31337;
+
+// EVM chain id -> chain name understood by Lit nodes
+export const LIT_CHAIN_NAMES: Record<number, string> = {
+  1: 'ethereum',
+  [SEPOLIA_CHAIN_ID]: 'sepolia',
+  137: 'polygon',
+  80002: 'amoy',
+  8453: 'base',
+  84532: 'baseSepolia',
+  10: 'optimism',
+  42161: 'arbitrum',
+};
+
+const env = import.meta.env as Record<string, string | undefined>;
+
+const isAddress = (value: string) => /^0x[a-fA-F0-9]{40}$/.test(value);
+
+const toBlock = (raw: string | undefined) => {
+  const n = Number(raw || 0);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+};
+
+export const getLitNetwork = (): LitNetwork => {
+  const raw = (env.VITE_LIT_NETWORK || '').trim() as LitNetwork;
+  if (!raw) return DEFAULT_LIT_NETWORK;
+  if (LIT_NETWORKS.includes(raw)) return raw;
+  console.warn('[config] unknown VITE_LIT_NETWORK, using default', { value: raw, default: DEFAULT_LIT_NETWORK });
+  return DEFAULT_LIT_NETWORK;
+};
+
+export const chainIdForLitChain = (litChain: string) => {
+  const entry = Object.entries(LIT_CHAIN_NAMES).find(([, name]) => name === litChain);
+  return entry ? Number(entry[0]) : null;
+};
+
+// A local node has no Lit chain name; VITE_LIT_CHAIN can still name one for forks of a public chain
+export const litChainForChainId = (chainId: number) =>
+  LIT_CHAIN_NAMES[chainId] ?? (chainId === HARDHAT_CHAIN_ID ? env.VITE_LIT_CHAIN || null : null);
+
+// Chain of the primary deployment. Older setups only set VITE_LIT_CHAIN, so derive it from that.
+const primaryChainId = () => {
+  const explicit = Number(env.VITE_RENT_AGENT_CHAIN_ID || 0);
+  if (Number.isInteger(explicit) && explicit > 0) return explicit;
+  if (import.meta.env.MODE === 'hardhat') return HARDHAT_CHAIN_ID;
+  return (env.VITE_LIT_CHAIN && chainIdForLitChain(env.VITE_LIT_CHAIN)) || SEPOLIA_CHAIN_ID;
+};
+
+let deploymentsCache: RentAgentDeployment[] | null = null;
+
+export const getRentAgentDeployments = (): RentAgentDeployment[] => {
+  if (deploymentsCache) return deploymentsCache;
+  const deployments: RentAgentDeployment[] = [];
+  const add = (chainId: number, address: string, deployBlock: number) => {
+    if (!Number.isInteger(chainId) || chainId <= 0 || !isAddress(address)) {
+      console.warn('[config] ignoring malformed RentAgent deployment', { chainId, address });
+      return;
+    }
+    if (deployments.some(d => d.chainId === chainId)) return;
+    deployments.push({ chainId, address, deployBlock, litChain: litChainForChainId(chainId) });
+  };
+
+  const primary = (env.VITE_RENT_AGENT_ADDRESS || '').trim();
+  if (primary) add(primaryChainId(), primary, toBlock(env.VITE_RENT_AGENT_DEPLOY_BLOCK));
+  (env.VITE_RENT_AGENT_DEPLOYMENTS || '').split(',').map(e => e.trim()).filter(Boolean).forEach(entry => {
+    const [chainId, address, deployBlock] = entry.split(':');
+    add(Number(chainId), address || '', toBlock(deployBlock));
+  });
+  deploymentsCache = deployments;
+  return deployments;
+};
+
+// Replaces the deployments read from the env, e.g. with a RentAgent deployed by a test; null re-reads the env
+export const setRentAgentDeployments = (deployments: RentAgentDeployment[] | null) => {
+  deploymentsCache = deployments;
+};
+
+export const getRentAgentDeployment = (chainId: number) => getRentAgentDeployments().find(d => d.chainId === chainId) ?? null;
+
+// The deployment the app uses when it cannot tell which chain the wallet is on
+export const getPrimaryDeployment = () => getRentAgentDeployments()[0] ?? null;
+
+// Wallet chain reported by wagmi (see ChainGuard); picks the deployment on that chain when there is one
+let walletChainId: number | null = null;
+
+export const setWalletChainId = (chainId: number | null) => {
+  walletChainId = chainId;
+};
+
+export const getActiveDeployment = () =>
+  (walletChainId !== null ? getRentAgentDeployment(walletChainId) : null) ?? getPrimaryDeployment();
+
+export const getRentAgentAddress = () => getActiveDeployment()?.address ?? '';
+
+// Optional read-only RPC; it serves the primary deployment's chain only
+export const getRpcUrl = () => {
+  const active = getActiveDeployment();
+  return active && active !== getPrimaryDeployment() ? '' : (env.VITE_RPC_URL || '').trim();
+};
+
+// Shared Lighthouse API key; without one each wallet generates its own (see agentService)
+export const getLighthouseApiKeyFromEnv = () => (env.VITE_LIGHTHOUSE_API_KEY || '').trim();
+
+// Lit chain used for ACCs and session signatures: the active deployment's chain (sepolia when unset)
+export const getLitChain = () => getActiveDeployment()?.litChain || env.VITE_LIT_CHAIN || 'sepolia';
+
+export type ChainStatus =
+  | { kind: 'ok'; deployment: RentAgentDeployment }
+  | { kind: 'not-deployed'; chainId: number; expected: RentAgentDeployment[] }
+  | { kind: 'no-lit-chain'; deployment: RentAgentDeployment }
+  | { kind: 'unconfigured' };
+
+// Whether RentAgent calls and Lit access checks will work for a wallet on `chainId`
+export const getChainStatus = (chainId: number): ChainStatus => {
+  const deployments = getRentAgentDeployments();
+  if (!deployments.length) return { kind: 'unconfigured' };
+  const deployment = deployments.find(d => d.chainId === chainId);
+  if (!deployment) return { kind: 'not-deployed', chainId, expected: deployments };
+  if (!deployment.litChain) return { kind: 'no-lit-chain', deployment };
+  return { kind: 'ok', deployment };
+};
+
+// Deployment a wallet on `chainId` must transact with; throws instead of letting a rental land on a chain
+// the access conditions do not point at
+export const requireDeployedChain = (chainId: number) => {
+  const status = getChainStatus(chainId);
+  if (status.kind === 'ok') return status.deployment;
+  if (status.kind === 'unconfigured') throw new ConfigError('RentAgent contract address not configured');
+  if (status.kind === 'no-lit-chain') {
+    throw new ConfigError(`Lit Protocol cannot read chain ${chainId}; set VITE_LIT_CHAIN or deploy RentAgent to a supported chain`);
+  }
+  const expected = status.expected.map(d => d.litChain || `chain ${d.chainId}`).join(' or ');
+  throw new ConfigError(`RentAgent is not deployed on chain ${chainId}. Switch your wallet to ${expected}.`);
+};
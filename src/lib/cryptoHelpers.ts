@@ -1,12 +1,32 @@
-// Minimal client-side AES-GCM decryption helper
+// Minimal client-side AES-GCM helpers for agent payloads
 // Assumes symmetric key is a UTF-8 string (from Lit) or a base64/hex encoded key.
-// The Lighthouse encrypted file format varies; many gateways return a file whose first
-// bytes contain the IV (12 bytes) followed by ciphertext+tag. This helper expects the
-// encrypted blob to be formatted as: [IV (12 bytes)] [ciphertext + tag]
+// Two payload formats are understood:
+//  - legacy single-shot: [IV (12 bytes)] [ciphertext + tag], decrypted in one call, so it must fit in memory
+//  - chunked (v1), written by uploads (encryptChunked) and decrypted as a stream:
+//      header: magic "AGCS" (4) | version (1) | chunkSize uint32 BE (4) | plaintextLength uint64 BE (8)
+//      chunks: [IV (12 bytes)] [ciphertext + tag] ...
+//    Every chunk holds chunkSize plaintext bytes except the last. Each chunk is authenticated with
+//    header || chunk index || final flag as additional data, so chunks can't be reordered, dropped or truncated.
 
-export const importAesKey = async (rawKey: string) => {
+import { fetchVerifiedIpfsStream } from './cidVerify';
+import { DecryptionError, InvalidInputError } from './errors';
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const CHUNKED_MAGIC = [0x41, 0x47, 0x43, 0x53]; // "AGCS"
+const CHUNKED_VERSION = 1;
+const CHUNKED_HEADER_LENGTH = 17;
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+// Plaintext bytes produced so far; total is known once the chunked header has been read
+export type DecryptProgress = { loaded: number; total: number | null };
+
+type ChunkedHeader = { chunkSize: number; plaintextLength: number; bytes: Uint8Array<ArrayBuffer> };
+
+export const importAesKey = async (rawKey: string, usages: KeyUsage[] = ['decrypt']) => {
   // Try as base64, hex, or raw text
-  let keyBytes: Uint8Array;
   const tryBase64 = (s: string) => {
     try {
       if (typeof window !== 'undefined' && window.atob) {
@@ -34,60 +54,221 @@ export const importAesKey = async (rawKey: string) => {
     } catch (e) { return null; }
   };
 
-  keyBytes = tryBase64(rawKey) || tryHex(rawKey) || new TextEncoder().encode(rawKey);
+  // a hex key (e.g. a Lighthouse/Kavach master key) also parses as base64, so take the first decoding that
+  // has an AES key length
+  const decoded = [tryBase64(rawKey), tryHex(rawKey)];
+  const keyBytes: Uint8Array = decoded.find(b => b && [16, 24, 32].includes(b.length)) || decoded.find(Boolean) || new TextEncoder().encode(rawKey);
 
   // crypto.subtle.importKey expects an ArrayBuffer or ArrayBufferView; ensure we pass an ArrayBuffer
   const keyBuffer = keyBytes.buffer instanceof ArrayBuffer ? keyBytes.buffer : (new Uint8Array(keyBytes)).buffer;
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    keyBuffer,
-    { name: 'AES-GCM' },
-    false,
-    ['decrypt']
-  );
-  return cryptoKey;
+  try {
+    return await crypto.subtle.importKey(
+      'raw',
+      keyBuffer,
+      { name: 'AES-GCM' },
+      false,
+      usages
+    );
+  } catch (e) {
+    throw new DecryptionError(`Symmetric key is not a valid AES-GCM key (${keyBytes.length} bytes)`, { cause: e });
+  }
 };
 
+// Whole file, verified against its CID (see cidVerify); only for small objects such as manifests
 export const fetchIpfsBytes = async (cid: string) => {
-  // Try public gateways; prefer ipfs.io
-  const urls = [
-    `https://ipfs.io/ipfs/${cid}`,
-    `https://cloudflare-ipfs.com/ipfs/${cid}`,
-    `https://dweb.link/ipfs/${cid}`
-  ];
-
-  let lastErr: any = null;
-  for (const u of urls) {
+  const stream = await fetchVerifiedIpfsStream(cid);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const concatBytes = (parts: Uint8Array[], length: number) => {
+  if (parts.length === 1) return parts[0];
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+const encodeChunkedHeader = (chunkSize: number, plaintextLength: number): ChunkedHeader => {
+  const bytes = new Uint8Array(CHUNKED_HEADER_LENGTH);
+  const view = new DataView(bytes.buffer);
+  bytes.set(CHUNKED_MAGIC, 0);
+  view.setUint8(4, CHUNKED_VERSION);
+  view.setUint32(5, chunkSize);
+  view.setBigUint64(9, BigInt(plaintextLength));
+  return { chunkSize, plaintextLength, bytes };
+};
+
+export const isChunkedPayload = (bytes: Uint8Array) =>
+  bytes.length >= CHUNKED_MAGIC.length && CHUNKED_MAGIC.every((b, i) => bytes[i] === b);
+
+const parseChunkedHeader = (bytes: Uint8Array): ChunkedHeader => {
+  if (!isChunkedPayload(bytes) || bytes.length < CHUNKED_HEADER_LENGTH) throw new DecryptionError('Not a chunked encrypted payload');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, CHUNKED_HEADER_LENGTH);
+  const version = view.getUint8(4);
+  if (version !== CHUNKED_VERSION) throw new DecryptionError(`Unsupported chunked payload version ${version}`);
+  const chunkSize = view.getUint32(5);
+  if (chunkSize === 0 || chunkSize > MAX_CHUNK_SIZE) throw new DecryptionError(`Invalid chunk size ${chunkSize}`);
+  const plaintextLength = Number(view.getBigUint64(9));
+  if (!Number.isSafeInteger(plaintextLength)) throw new DecryptionError('Invalid plaintext length in chunked payload header');
+  return { chunkSize, plaintextLength, bytes: bytes.slice(0, CHUNKED_HEADER_LENGTH) };
+};
+
+// An empty file still gets one (empty) final chunk, so its tag authenticates the header
+const chunkCount = (header: ChunkedHeader) => Math.max(1, Math.ceil(header.plaintextLength / header.chunkSize));
+
+const chunkPlainLength = (header: ChunkedHeader, index: number) =>
+  index < chunkCount(header) - 1 ? header.chunkSize : header.plaintextLength - header.chunkSize * (chunkCount(header) - 1);
+
+const chunkAdditionalData = (header: ChunkedHeader, index: number) => {
+  const aad = new Uint8Array(CHUNKED_HEADER_LENGTH + 5);
+  aad.set(header.bytes, 0);
+  const view = new DataView(aad.buffer);
+  view.setUint32(CHUNKED_HEADER_LENGTH, index);
+  view.setUint8(CHUNKED_HEADER_LENGTH + 4, index === chunkCount(header) - 1 ? 1 : 0);
+  return aad;
+};
+
+// Encrypt into the chunked format; only one chunk of plaintext is read into memory at a time
+export const encryptChunked = async (data: Blob, symmetricKey: string, chunkSize = DEFAULT_CHUNK_SIZE) => {
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0 || chunkSize > MAX_CHUNK_SIZE) throw new InvalidInputError(`Invalid chunk size ${chunkSize}`);
+  const cryptoKey = await importAesKey(symmetricKey, ['encrypt']);
+  const header = encodeChunkedHeader(chunkSize, data.size);
+  const parts: BlobPart[] = [header.bytes];
+  for (let index = 0; index < chunkCount(header); index++) {
+    const start = index * chunkSize;
+    const plain = await data.slice(start, start + chunkPlainLength(header, index)).arrayBuffer();
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: chunkAdditionalData(header, index) }, cryptoKey, plain);
+    parts.push(iv, new Uint8Array(ciphertext));
+  }
+  return new Blob(parts, { type: 'application/octet-stream' });
+};
+
+// TransformStream from chunked ciphertext to plaintext; memory use is bounded by one chunk plus network buffers
+export const createDecryptionStream = (cryptoKey: CryptoKey, onProgress?: (progress: DecryptProgress) => void) => {
+  let pending: Uint8Array[] = [];
+  let pendingLength = 0;
+  let header: ChunkedHeader | null = null;
+  let index = 0;
+  let loaded = 0;
+
+  const take = (n: number) => {
+    const all = concatBytes(pending, pendingLength);
+    const rest = all.subarray(n);
+    pending = rest.length ? [rest] : [];
+    pendingLength = rest.length;
+    return all.subarray(0, n);
+  };
+
+  const decryptChunk = async (h: ChunkedHeader, record: Uint8Array) => {
     try {
-      const res = await fetch(u);
-      if (!res.ok) throw new Error(`Gateway ${u} returned ${res.status}`);
-      const buf = await res.arrayBuffer();
-      return new Uint8Array(buf);
+      const plain = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: record.slice(0, IV_LENGTH), additionalData: chunkAdditionalData(h, index) },
+        cryptoKey,
+        record.slice(IV_LENGTH)
+      );
+      return new Uint8Array(plain);
     } catch (e) {
-      lastErr = e;
+      throw new DecryptionError(`Failed to decrypt chunk ${index + 1} of ${chunkCount(h)}: wrong key or corrupted data`, { cause: e });
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      pending.push(chunk);
+      pendingLength += chunk.length;
+      if (!header) {
+        if (pendingLength < CHUNKED_HEADER_LENGTH) return;
+        header = parseChunkedHeader(take(CHUNKED_HEADER_LENGTH));
+        onProgress?.({ loaded, total: header.plaintextLength });
+      }
+      const count = chunkCount(header);
+      while (index < count && pendingLength >= IV_LENGTH + chunkPlainLength(header, index) + TAG_LENGTH) {
+        const plain = await decryptChunk(header, take(IV_LENGTH + chunkPlainLength(header, index) + TAG_LENGTH));
+        controller.enqueue(plain);
+        loaded += plain.length;
+        index++;
+        onProgress?.({ loaded, total: header.plaintextLength });
+      }
+      if (index >= count && pendingLength > 0) throw new DecryptionError('Unexpected data after the final encrypted chunk');
+    },
+    flush() {
+      if (!header) throw new DecryptionError('Encrypted payload too small');
+      if (index < chunkCount(header)) throw new DecryptionError(`Encrypted payload truncated after ${index} of ${chunkCount(header)} chunks`);
+    },
+  });
+};
+
+// Read at least `n` bytes off the front of a stream and hand back a stream that still yields everything
+const peekStream = async (stream: ReadableStream<Uint8Array>, n: number) => {
+  const reader = stream.getReader();
+  const head: Uint8Array[] = [];
+  let headLength = 0;
+  let done = false;
+  while (headLength < n && !done) {
+    const r = await reader.read();
+    if (r.done) done = true;
+    else {
+      head.push(r.value);
+      headLength += r.value.length;
     }
   }
-  throw lastErr || new Error('Failed to fetch IPFS file');
+  const headBytes = concatBytes(head, headLength);
+  const replay = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (headLength) controller.enqueue(headBytes);
+      if (done) controller.close();
+    },
+    async pull(controller) {
+      const r = await reader.read();
+      if (r.done) controller.close();
+      else controller.enqueue(r.value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  return { head: headBytes, stream: replay };
 };
 
-export const decryptIpfsFile = async (cid: string, symmetricKey: string) => {
-  // Fetch encrypted bytes
-  const bytes = await fetchIpfsBytes(cid);
-  if (bytes.length < 13) throw new Error('Encrypted payload too small');
+const decryptLegacyPayload = async (bytes: Uint8Array, cryptoKey: CryptoKey) => {
+  if (bytes.length < IV_LENGTH + 1) throw new DecryptionError('Encrypted payload too small');
 
   // Extract IV (12 bytes) and ciphertext (rest)
-  const iv = bytes.slice(0, 12);
-  const ciphertext = bytes.slice(12);
+  const iv = bytes.slice(0, IV_LENGTH);
+  const ciphertext = bytes.slice(IV_LENGTH);
 
-  const cryptoKey = await importAesKey(symmetricKey);
+  try {
+    return await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: iv },
+      cryptoKey,
+      ciphertext
+    );
+  } catch (e) {
+    throw new DecryptionError('AES-GCM authentication failed: wrong key or corrupted data', { cause: e });
+  }
+};
+
+// CID-verified gateway response piped through decryption. Chunked payloads stream end to end; legacy
+// payloads are detected by their missing header and still have to be buffered and decrypted in one call.
+export const decryptIpfsStream = async (cid: string, symmetricKey: string, options: { onProgress?: (progress: DecryptProgress) => void } = {}) => {
+  const [verified, cryptoKey] = await Promise.all([fetchVerifiedIpfsStream(cid), importAesKey(symmetricKey)]);
+  const { head, stream } = await peekStream(verified, CHUNKED_MAGIC.length);
+  if (isChunkedPayload(head)) {
+    console.debug('[cryptoHelpers] streaming chunked payload', { cid });
+    return stream.pipeThrough(createDecryptionStream(cryptoKey, options.onProgress));
+  }
 
-  // Decrypt
-  const plainBuf = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv: iv },
-    cryptoKey,
-    ciphertext
-  );
+  console.debug('[cryptoHelpers] legacy single-shot payload; buffering', { cid });
+  const plain = await decryptLegacyPayload(new Uint8Array(await new Response(stream).arrayBuffer()), cryptoKey);
+  options.onProgress?.({ loaded: plain.byteLength, total: plain.byteLength });
+  return new Blob([plain]).stream();
+};
 
-  const blob = new Blob([plainBuf]);
-  return blob;
+export const decryptIpfsFile = async (cid: string, symmetricKey: string, onProgress?: (progress: DecryptProgress) => void) => {
+  const stream = await decryptIpfsStream(cid, symmetricKey, { onProgress });
+  return new Response(stream).blob();
 };
@@ -0,0 +1,39 @@
+// UI mapper for the error hierarchy in errors.ts: one actionable sentence per error code, shown as-is by
+// RentModal, UploadAgent, AgentDashboard and the uploader panels.
+import { ContractRevertError, toAppError, type AppError, type AppErrorCode } from './errors';
+import { REVERT_MESSAGES } from './rentAgentErrors';
+import { CidVerificationError } from './cidVerify';
+import { GatewayFetchError } from './ipfsGateways';
+
+const MESSAGES: Record<AppErrorCode, (err: AppError) => string> = {
+  AUTH: e => `${e.message}. Reconnect your wallet and sign the request again.`,
+  ACC_MISMATCH: () =>
+    'Your wallet is not allowed to decrypt this agent. Rent it with this wallet, or ask the owner to share it with your address.',
+  SESSION_EXPIRED: () =>
+    'Your Lit session expired and could not be renewed. Try again and sign the new session request in your wallet.',
+  GATEWAY: e =>
+    e instanceof GatewayFetchError
+      ? `Could not download ${e.cid}: none of the ${e.attempts.length} IPFS gateways tried returned it. Check your connection or configured gateways and try again.`
+      : `IPFS gateway error: ${e.message}. Try again later.`,
+  INTEGRITY: e =>
+    `⚠️ Integrity check failed: the IPFS gateway returned content that does not match ${e instanceof CidVerificationError ? e.cid : 'the requested CID'}. The download was discarded. Try again later; if it keeps happening, report the agent to its owner.`,
+  DECRYPTION: e => `Could not decrypt the agent files (${e.message}). The key may not match this upload — ask the owner to recover the key.`,
+  CONTRACT_REVERT: e => {
+    const reason = e instanceof ContractRevertError ? e.reason : null;
+    if (!reason) return 'The RentAgent transaction reverted. Check the agent is still listed and try again.';
+    return REVERT_MESSAGES[reason] || `RentAgent rejected the transaction: ${reason}`;
+  },
+  USER_REJECTED: () => 'Request rejected in your wallet. Approve it to continue.',
+  LIGHTHOUSE: e => `Lighthouse request failed: ${e.message}. Check your API key and connection, then try again.`,
+  LIT: e => `Lit Protocol could not complete the request: ${e.message}. Try again in a few minutes.`,
+  CONFIG: e => e.message,
+  INVALID_INPUT: e => e.message,
+  UNKNOWN: e => e.message,
+};
+
+export const describeError = (err: unknown) => {
+  const appError = toAppError(err);
+  return MESSAGES[appError.code](appError);
+};
+
+export const errorCode = (err: unknown): AppErrorCode => toAppError(err).code;
@@ -0,0 +1,129 @@
+// Shared error hierarchy. Helpers in src/lib throw these so callers can branch on `code` instead of
+// matching message text; wallet and ethers errors are folded in by toAppError. errorMessages.ts maps
+// each code to the message the UI shows.
+import { getRevertReason } from './rentAgentErrors';
+
+export type AppErrorCode =
+  | 'AUTH'
+  | 'ACC_MISMATCH'
+  | 'SESSION_EXPIRED'
+  | 'GATEWAY'
+  | 'INTEGRITY'
+  | 'DECRYPTION'
+  | 'CONTRACT_REVERT'
+  | 'USER_REJECTED'
+  | 'LIGHTHOUSE'
+  | 'LIT'
+  | 'CONFIG'
+  | 'INVALID_INPUT'
+  | 'UNKNOWN';
+
+export class AppError extends Error {
+  readonly code: AppErrorCode;
+
+  constructor(code: AppErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AppError';
+    this.code = code;
+  }
+}
+
+// Wallet not connected, signature could not be produced or did not recover to the expected address
+export class AuthError extends AppError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('AUTH', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+// The signing address is not granted by the key's access control conditions
+export class AccMismatchError extends AppError {
+  readonly address: string;
+
+  constructor(address: string, message = `${address} is not allowed by the access control conditions`, options?: { cause?: unknown }) {
+    super('ACC_MISMATCH', message, options);
+    this.name = 'AccMismatchError';
+    this.address = address;
+  }
+}
+
+export class SessionExpiredError extends AppError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('SESSION_EXPIRED', message, options);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+export class DecryptionError extends AppError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('DECRYPTION', message, options);
+    this.name = 'DecryptionError';
+  }
+}
+
+// `reason` is the decoded require() string, when the node returned one
+export class ContractRevertError extends AppError {
+  readonly reason: string | null;
+
+  constructor(reason: string | null, options?: { cause?: unknown }) {
+    super('CONTRACT_REVERT', reason ? `RentAgent reverted: ${reason}` : 'RentAgent transaction reverted', options);
+    this.name = 'ContractRevertError';
+    this.reason = reason;
+  }
+}
+
+export class UserRejectedError extends AppError {
+  constructor(options?: { cause?: unknown }) {
+    super('USER_REJECTED', 'Request rejected in wallet', options);
+    this.name = 'UserRejectedError';
+  }
+}
+
+export class LighthouseError extends AppError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('LIGHTHOUSE', message, options);
+    this.name = 'LighthouseError';
+  }
+}
+
+// `nodeInfo` keeps whatever response the Lit nodes sent, for diagnostics
+export class LitNodeError extends AppError {
+  readonly nodeInfo: unknown;
+
+  constructor(message: string, options?: { cause?: unknown; nodeInfo?: unknown }) {
+    super('LIT', message, options);
+    this.name = 'LitNodeError';
+    this.nodeInfo = options?.nodeInfo ?? null;
+  }
+}
+
+export class ConfigError extends AppError {
+  constructor(message: string) {
+    super('CONFIG', message);
+    this.name = 'ConfigError';
+  }
+}
+
+export class InvalidInputError extends AppError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('INVALID_INPUT', message, options);
+    this.name = 'InvalidInputError';
+  }
+}
+
+const isUserRejection = (e: { code?: unknown; info?: { error?: { code?: unknown } }; message?: unknown }) =>
+  e.code === 'ACTION_REJECTED' || e.code === 4001 || e.info?.error?.code === 4001 || (typeof e.message === 'string' && /user (rejected|denied)/i.test(e.message));
+
+// Fold anything thrown (ethers, wallet, SDK or our own errors) into the hierarchy
+export const toAppError = (err: unknown): AppError => {
+  if (err instanceof AppError) return err;
+  if (typeof err === 'object' && err !== null) {
+    const e = err as { code?: unknown; shortMessage?: unknown; message?: unknown; info?: { error?: { code?: unknown } } };
+    if (isUserRejection(e)) return new UserRejectedError({ cause: err });
+    const reason = getRevertReason(err);
+    if (reason || e.code === 'CALL_EXCEPTION') return new ContractRevertError(reason, { cause: err });
+    const message = typeof e.shortMessage === 'string' ? e.shortMessage : typeof e.message === 'string' ? e.message : String(err);
+    return new AppError('UNKNOWN', message, { cause: err });
+  }
+  return new AppError('UNKNOWN', String(err), { cause: err });
+};
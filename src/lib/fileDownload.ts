@@ -0,0 +1,42 @@
+// Save a (possibly very large) byte stream as a local file.
+// With the File System Access API the stream is written straight to disk; other browsers fall back to
+// collecting a Blob (which the browser may page to disk) and clicking a temporary download link.
+
+type WritableFileHandle = { createWritable: () => Promise<WritableStream<Uint8Array>> };
+type SaveFilePicker = (options: { suggestedName?: string }) => Promise<WritableFileHandle>;
+
+export const supportsStreamingSave = () =>
+  typeof window !== 'undefined' && typeof (window as unknown as { showSaveFilePicker?: unknown }).showSaveFilePicker === 'function';
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Must be called straight from a click handler: the save dialog needs the click's user activation, so it is
+// opened before `openStream` does any network work. Cancelling the dialog rejects with an AbortError.
+export const saveStreamAsFile = async (openStream: () => Promise<ReadableStream<Uint8Array>>, filename: string) => {
+  if (supportsStreamingSave()) {
+    const picker = (window as unknown as { showSaveFilePicker: SaveFilePicker }).showSaveFilePicker;
+    const handle = await picker({ suggestedName: filename });
+    const writable = await handle.createWritable();
+    let stream: ReadableStream<Uint8Array>;
+    try {
+      stream = await openStream();
+    } catch (e) {
+      await writable.abort(e).catch(() => undefined);
+      throw e;
+    }
+    // pipeTo closes the file on success and aborts the partial write on error
+    await stream.pipeTo(writable);
+    console.debug('[fileDownload] streamed to disk', { filename });
+    return;
+  }
+  downloadBlob(await new Response(await openStream()).blob(), filename);
+};
@@ -0,0 +1,223 @@
+// IPFS gateway manager: races CID fetches across configured gateways, aborts the losers and keeps a
+// per-gateway latency/failure score in localStorage so the fastest healthy gateways are tried first.
+// Gateways come from VITE_IPFS_GATEWAYS (comma-separated). An entry is either a base URL, fetched as
+// `<base>/ipfs/<cid>`, or a template containing `{cid}`. Put a local Kubo node (http://127.0.0.1:8080)
+// first to prefer it; its score still decides whether it wins the race.
+import { AppError } from './errors';
+
+export const DEFAULT_IPFS_GATEWAYS = [
+  'https://gateway.lighthouse.storage',
+  'https://ipfs.io',
+  'https://dweb.link',
+  'https://cloudflare-ipfs.com',
+];
+
+const STATS_KEY = 'ipfs_gateway_stats';
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RACE_WIDTH = 3;
+// EWMA weights; failures decay so a gateway that recovers climbs back up
+const LATENCY_ALPHA = 0.3;
+const FAILURE_ALPHA = 0.2;
+// assumed latency for gateways with no history, so new entries are tried before known-bad ones
+const UNKNOWN_LATENCY_MS = 1_500;
+const RECENT_FAILURE_WINDOW_MS = 5 * 60 * 1000;
+const RECENT_FAILURE_PENALTY_MS = 5_000;
+
+export type GatewayStats = {
+  successes: number;
+  failures: number;
+  latencyMs: number | null; // EWMA of time to response headers
+  failureRate: number; // EWMA of 0 (success) / 1 (failure)
+  lastFailureAt: number | null;
+};
+
+export type GatewayAttempt = {
+  gateway: string;
+  url: string;
+  outcome: 'success' | 'http-error' | 'invalid-response' | 'timeout' | 'network-error' | 'cancelled';
+  status?: number;
+  latencyMs: number;
+  error?: string;
+};
+
+export type GatewayFetchOptions = {
+  timeoutMs?: number; // per gateway, until response headers arrive
+  raceWidth?: number; // gateways raced at once; the rest are tried in later waves
+  signal?: AbortSignal;
+  gateways?: string[];
+  headers?: Record<string, string>;
+  // reject an OK response (e.g. wrong content type) by returning the reason; the race moves on
+  validate?: (response: Response) => string | null;
+};
+
+// Thrown when every gateway failed; `attempts` carries one entry per gateway tried
+export class GatewayFetchError extends AppError {
+  readonly cid: string;
+  readonly attempts: GatewayAttempt[];
+
+  constructor(cid: string, attempts: GatewayAttempt[]) {
+    const summary = attempts.map(a => `${a.gateway}: ${a.outcome === 'http-error' && a.status ? `HTTP ${a.status}` : a.outcome}${a.error ? ` (${a.error})` : ''}`).join('; ');
+    super('GATEWAY', `Failed to fetch ${cid} from IPFS gateways — ${summary || 'no gateways configured'}`);
+    this.name = 'GatewayFetchError';
+    this.cid = cid;
+    this.attempts = attempts;
+  }
+}
+
+export const getIpfsGateways = (): string[] => {
+  const raw = (import.meta.env.VITE_IPFS_GATEWAYS as string) || '';
+  const configured = raw.split(',').map(g => g.trim().replace(/\/+$/, '')).filter(Boolean).filter(g => {
+    if (/^https?:\/\//.test(g)) return true;
+    console.warn('[ipfsGateways] ignoring gateway without http(s) scheme', g);
+    return false;
+  });
+  return configured.length ? configured : DEFAULT_IPFS_GATEWAYS;
+};
+
+export const gatewayUrl = (gateway: string, cid: string) =>
+  gateway.includes('{cid}') ? gateway.replace('{cid}', cid) : `${gateway}/ipfs/${cid}`;
+
+export const loadGatewayStats = (): Record<string, GatewayStats> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STATS_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveGatewayStats = (stats: Record<string, GatewayStats>) => {
+  try {
+    localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+  } catch (e) {
+    console.warn('[ipfsGateways] failed to persist gateway stats', e);
+  }
+};
+
+export const resetGatewayStats = () => {
+  try {
+    localStorage.removeItem(STATS_KEY);
+  } catch {
+    // storage unavailable; nothing to reset
+  }
+};
+
+const recordAttempt = (attempt: GatewayAttempt) => {
+  // losing a race says nothing about the gateway's health
+  if (attempt.outcome === 'cancelled') return;
+  const stats = loadGatewayStats();
+  const prev: GatewayStats = stats[attempt.gateway] || { successes: 0, failures: 0, latencyMs: null, failureRate: 0, lastFailureAt: null };
+  const failed = attempt.outcome !== 'success';
+  stats[attempt.gateway] = {
+    successes: prev.successes + (failed ? 0 : 1),
+    failures: prev.failures + (failed ? 1 : 0),
+    latencyMs: failed ? prev.latencyMs : prev.latencyMs === null ? attempt.latencyMs : prev.latencyMs + LATENCY_ALPHA * (attempt.latencyMs - prev.latencyMs),
+    failureRate: prev.failureRate + FAILURE_ALPHA * ((failed ? 1 : 0) - prev.failureRate),
+    lastFailureAt: failed ? Date.now() : prev.lastFailureAt,
+  };
+  saveGatewayStats(stats);
+};
+
+// Lower is better: expected latency inflated by the failure rate, plus a penalty for very recent failures
+export const gatewayScore = (stats: GatewayStats | undefined, now = Date.now()) => {
+  if (!stats) return UNKNOWN_LATENCY_MS;
+  const latency = stats.latencyMs ?? UNKNOWN_LATENCY_MS;
+  const recentPenalty = stats.lastFailureAt && now - stats.lastFailureAt < RECENT_FAILURE_WINDOW_MS ? RECENT_FAILURE_PENALTY_MS : 0;
+  return latency * (1 + 4 * stats.failureRate) + recentPenalty;
+};
+
+// Stable sort, so configuration order breaks ties (e.g. a local node listed first)
+export const rankGateways = (gateways: string[], stats = loadGatewayStats()) =>
+  gateways.map((g, i) => ({ g, i, score: gatewayScore(stats[g]) })).sort((a, b) => a.score - b.score || a.i - b.i).map(x => x.g);
+
+const describeError = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+// Race one wave of gateways; resolves with the first OK response and aborts the others
+const raceWave = (cid: string, gateways: string[], timeoutMs: number, attempts: GatewayAttempt[], options: GatewayFetchOptions) => {
+  const { signal, headers, validate } = options;
+  const controllers = gateways.map(() => new AbortController());
+  const onOuterAbort = () => controllers.forEach(c => c.abort());
+  signal?.addEventListener('abort', onOuterAbort, { once: true });
+
+  return new Promise<{ response: Response; gateway: string } | null>(resolve => {
+    let settled = false;
+    let remaining = gateways.length;
+
+    const finishOne = () => {
+      remaining--;
+      if (remaining === 0 && !settled) {
+        settled = true;
+        resolve(null);
+      }
+    };
+
+    gateways.forEach((gateway, i) => {
+      const controller = controllers[i];
+      const url = gatewayUrl(gateway, cid);
+      const started = performance.now();
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+
+      const record = (attempt: Omit<GatewayAttempt, 'gateway' | 'url' | 'latencyMs'>) => {
+        const full: GatewayAttempt = { gateway, url, latencyMs: Math.round(performance.now() - started), ...attempt };
+        attempts.push(full);
+        recordAttempt(full);
+      };
+
+      fetch(url, { signal: controller.signal, headers })
+        .then(response => {
+          clearTimeout(timer);
+          if (!response.ok || !response.body) {
+            record({ outcome: 'http-error', status: response.status, ...(response.ok ? { error: 'empty body' } : {}) });
+            response.body?.cancel().catch(() => undefined);
+            return;
+          }
+          const invalid = validate?.(response);
+          if (invalid) {
+            record({ outcome: 'invalid-response', status: response.status, error: invalid });
+            response.body.cancel().catch(() => undefined);
+            return;
+          }
+          record({ outcome: 'success', status: response.status });
+          if (settled) {
+            // a slower gateway answered after the winner; keep its latency sample, drop the body
+            response.body.cancel().catch(() => undefined);
+            return;
+          }
+          settled = true;
+          controllers.forEach((c, j) => j !== i && c.abort());
+          resolve({ response, gateway });
+        })
+        .catch(e => {
+          clearTimeout(timer);
+          if (timedOut) record({ outcome: 'timeout', error: `no response within ${timeoutMs}ms` });
+          else if (controller.signal.aborted) record({ outcome: 'cancelled' });
+          else record({ outcome: 'network-error', error: describeError(e) });
+        })
+        .finally(finishOne);
+    });
+  }).finally(() => signal?.removeEventListener('abort', onOuterAbort)); // a lost wave must not leave it on a long-lived signal
+};
+
+// Fetch a CID from the best gateways. The response body is unread, so callers can stream it.
+export const fetchFromGateways = async (cid: string, options: GatewayFetchOptions = {}) => {
+  const timeoutMs = options.timeoutMs ?? (Number(import.meta.env.VITE_IPFS_GATEWAY_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS);
+  const raceWidth = Math.max(1, options.raceWidth ?? DEFAULT_RACE_WIDTH);
+  const ranked = rankGateways(options.gateways ?? getIpfsGateways());
+  const attempts: GatewayAttempt[] = [];
+
+  for (let start = 0; start < ranked.length; start += raceWidth) {
+    if (options.signal?.aborted) break;
+    const wave = ranked.slice(start, start + raceWidth);
+    const winner = await raceWave(cid, wave, timeoutMs, attempts, options);
+    if (winner) {
+      console.debug('[ipfsGateways] fetched', { cid, gateway: winner.gateway, attempts });
+      return { ...winner, attempts };
+    }
+  }
+  options.signal?.throwIfAborted();
+  throw new GatewayFetchError(cid, attempts);
+};
@@ -0,0 +1,20 @@
+// The subset of @lighthouse-web3/sdk the app calls, behind a swappable instance so the upload/share flows
+// can run against an in-memory fake (src/test/fakeLighthouse.ts) instead of the Lighthouse API.
+// Agent payloads are encrypted by cryptoHelpers, not the SDK, so the Kavach key calls the SDK's own
+// uploadEncrypted makes (generate a key, save its shards for the uploaded CID) are part of the client too.
+import lighthouse from '@lighthouse-web3/sdk';
+import kavach from '@lighthouse-web3/kavach';
+
+export type LighthouseClient = Pick<typeof lighthouse, 'getAuthMessage' | 'getApiKey' | 'upload' | 'fetchEncryptionKey' | 'uploadText'>
+  & Pick<typeof kavach, 'generate' | 'saveShards'>;
+
+const sdkClient: LighthouseClient = { ...lighthouse, generate: kavach.generate, saveShards: kavach.saveShards };
+
+let client: LighthouseClient = sdkClient;
+
+export const getLighthouse = () => client;
+
+// Pass null to restore the real SDK
+export const setLighthouseClient = (next: LighthouseClient | null) => {
+  client = next ?? sdkClient;
+};
@@ -1,8 +1,43 @@
-// Centralized Lit helper utilities with proper SIWE message formatting
+// Centralized Lit helper utilities. Decrypt calls are authorised with session signatures from litSession.ts.
 /* eslint-disable no-console */
-let litNodeClient: any | null = null;
+import { getConditionsChain, isContractCondition, isOperatorCondition, isUnifiedConditions } from './accessConditions';
+import { getLitNetwork } from './config';
+import { AccMismatchError, AppError, DecryptionError, LitNodeError, SessionExpiredError, toAppError } from './errors';
+import type { LitSession } from './litSession';
+import type { LitNodeClient } from '@lit-protocol/lit-node-client';
+
+// Request types of the LitNodeClient the app talks to, read off its method signatures
+export type EncryptRequest = Parameters<LitNodeClient['encrypt']>[0];
+export type DecryptRequest = Parameters<LitNodeClient['decrypt']>[0];
+export type SessionSigsRequest = Parameters<LitNodeClient['getSessionSigs']>[0];
+export type SessionSigsMap = NonNullable<DecryptRequest['sessionSigs']>;
+export type AccessControlConditions = NonNullable<DecryptRequest['accessControlConditions']>;
+export type UnifiedAccessControlConditions = NonNullable<DecryptRequest['unifiedAccessControlConditions']>;
+// Legacy or unified conditions, as built in accessConditions.ts and stored on records
+export type LitConditions = AccessControlConditions | UnifiedAccessControlConditions;
+
+// A single condition: neither an `{ operator }` joiner nor a nested group
+type LitCondition = Exclude<LitConditions[number], unknown[] | { operator: string }>;
+const isSingleCondition = (acc: LitConditions[number]): acc is LitCondition => !Array.isArray(acc) && !isOperatorCondition(acc);
+
+// The LitNodeClient methods the app calls. Tests inject an in-memory fake (src/test/fakeLit.ts) with setLitClient.
+export type LitClient = {
+  encrypt: (params: EncryptRequest) => Promise<{ ciphertext: string | Uint8Array; dataToEncryptHash: string }>;
+  decrypt: (params: DecryptRequest) => Promise<{ decryptedData: Uint8Array }>;
+  getSessionSigs: (params: SessionSigsRequest) => Promise<SessionSigsMap>;
+  getLatestBlockhash: () => Promise<string>;
+  // used by createSiweMessageWithRecaps when building the session's SIWE message
+  generateSessionCapabilityObjectWithWildcards: LitNodeClient['generateSessionCapabilityObjectWithWildcards'];
+};
+
+let litNodeClient: LitClient | null = null;
+
+// Pass null to drop the current client; the next initLit() connects a real one
+export const setLitClient = (client: LitClient | null) => {
+  litNodeClient = client;
+};
 
-export const initLit = async () => {
+export const initLit = async (): Promise<LitClient> => {
   if (litNodeClient) return litNodeClient;
   try {
     // polyfill global & Buffer for some SDKs
@@ -18,89 +53,27 @@ export const initLit = async () => {
   }
 
   const LitJsSdk = await import('@lit-protocol/lit-node-client');
-  const LitNodeClient = LitJsSdk.LitNodeClient || (LitJsSdk as any).default?.LitNodeClient || (LitJsSdk as any).default;
-  // Use datil-dev which is suitable for current Lit setups (adjust as needed)
-  litNodeClient = new (LitNodeClient as any)({ litNetwork: 'datil-dev' });
-  await litNodeClient.connect();
-  return litNodeClient;
+  // some bundles only expose the module through its CommonJS default export
+  const LitNodeClient = LitJsSdk.LitNodeClient || LitJsSdk.default?.LitNodeClient;
+  // VITE_LIT_NETWORK selects the Lit network (datil-dev by default)
+  const client = new LitNodeClient({ litNetwork: getLitNetwork() });
+  await client.connect();
+  litNodeClient = client;
+  return client;
 };
 
 // Helper to normalize addresses for consistency
 const normalizeAddress = (addr: string): string => String(addr || '').toLowerCase();
 
-// Generate a SIWE-formatted message suitable for Lit nodes to parse
-const generateSiweMessage = async (address: string, domain = window.location.host): Promise<string> => {
-  const { ethers } = await import('ethers');
-  const checksumAddress = ethers.getAddress(String(address));
-  const uri = window.location.origin;
-  const version = '1';
-  // use chainId of current provider if available, otherwise default to 1
-  let chainId = 1;
-  try {
-    if ((window as any).ethereum && (window as any).ethereum.request) {
-      const chainHex = await (window as any).ethereum.request({ method: 'eth_chainId' });
-      chainId = Number(chainHex ? parseInt(chainHex as string, 16) : 1) || 1;
-    }
-  } catch (e) {
-    // ignore and default to 1
-  }
-
-  const nonce = Math.random().toString(36).substring(2, 15);
-  const issuedAt = new Date().toISOString();
-
-  const siweParts = [
-    `${domain} wants you to sign in with your Ethereum account:`,
-    checksumAddress,
-    '',
-    'Sign in with Ethereum to access Lit Protocol services.',
-    '',
-    `URI: ${uri}`,
-    `Version: ${version}`,
-    `Chain ID: ${chainId}`,
-    `Nonce: ${nonce}`,
-    `Issued At: ${issuedAt}`
-  ];
-
-  const siweMessage = siweParts.join('\n');
-  return siweMessage;
-};
-
-// Create a properly formatted authSig for Lit Protocol operations
-export const createLitAuthSig = async (signerOrProvider: any, address?: string) => {
-  const { ethers } = await import('ethers');
-  let signer = signerOrProvider;
-  if (!signer) throw new Error('No signer/provider provided to createLitAuthSig');
-  if (signerOrProvider.getSigner) signer = await signerOrProvider.getSigner();
-
-  const signerAddress = address ? ethers.getAddress(String(address)) : await signer.getAddress();
-  const siweMessage = await generateSiweMessage(signerAddress);
-
-  // Normalize line endings (LF) and trim
-  const normalizedMessage = String(siweMessage).replace(/\r\n/g, '\n').trim();
-
-  const signature = await signer.signMessage(normalizedMessage);
-
-  const recovered = ethers.verifyMessage(normalizedMessage, signature);
-  if (normalizeAddress(recovered) !== normalizeAddress(signerAddress)) {
-    throw new Error(`Signature verification failed: expected ${signerAddress} recovered ${recovered}`);
-  }
-
-  // Lit expects an object like { sig, derivedVia, signedMessage, address }
-  return {
-    sig: signature,
-    derivedVia: 'web3',
-    signedMessage: normalizedMessage,
-    address: signerAddress
-  };
-};
-
-// validate ACCs match the authSig address
-const validateACCAndAuthSig = (accessControlConditions: any[], authSig: any) => {
-  const authSigAddress = normalizeAddress(authSig.address);
+// validate the session address is granted by the ACCs before asking the Lit nodes
+const validateACCForAddress = (accessControlConditions: LitConditions, address: string) => {
+  const authSigAddress = normalizeAddress(address);
   if (!Array.isArray(accessControlConditions) || accessControlConditions.length === 0) return;
+  // `{ operator: 'or' }` entries only join conditions together
+  const conditions = accessControlConditions.filter(isSingleCondition);
   
   // For permissive access control (anyone can decrypt), we don't need strict validation
-  const isPermissive = accessControlConditions.some(acc => {
+  const isPermissive = conditions.some(acc => {
     const comparator = acc?.returnValueTest?.comparator;
     const value = acc?.returnValueTest?.value;
     return comparator === 'contains' && value === '0x';
@@ -112,129 +85,149 @@ const validateACCAndAuthSig = (accessControlConditions: any[], authSig: any) =>
   }
   
   // For restrictive access control, validate that the user is authorized
-  const hasMatch = accessControlConditions.some(acc => {
+  const hasMatch = conditions.some(acc => {
+    if (isContractCondition(acc)) return false;
     const v = acc?.returnValueTest?.value;
     if (!v) return false;
     return normalizeAddress(v) === authSigAddress;
   });
-  if (!hasMatch) {
-    throw new Error(`ACC/authSig mismatch: ${authSigAddress} not found in ACC values`);
+  if (hasMatch) return;
+
+  // Contract conditions (e.g. RentAgent.isRenter) are evaluated by the Lit nodes against chain state
+  if (conditions.some(isContractCondition)) {
+    console.debug('[litHelpers] ACC is contract-gated; deferring authorization to Lit nodes', { authSigAddress });
+    return;
   }
+  throw new AccMismatchError(authSigAddress, `ACC/authSig mismatch: ${authSigAddress} not found in ACC values`);
 };
 
-export const saveKeyToLitWithRetry = async (lit: any, symmetricKey: string, accessControlConditions: any, authSig: any, attempts = 3) => {
-  if (!authSig || !authSig.sig || !authSig.signedMessage || !authSig.address) throw new Error('Invalid authSig');
-  const normalizedACC = Array.isArray(accessControlConditions) ? accessControlConditions.map((acc: any) => ({
-    ...acc,
-    returnValueTest: acc.returnValueTest ? { ...acc.returnValueTest, value: String(acc.returnValueTest.value || '').toLowerCase() } : acc.returnValueTest
-  })) : accessControlConditions;
+// The nodes reject session sigs whose wallet signature or session key has lapsed
+const isStaleSessionError = (e: unknown) => {
+  const message = typeof e === 'object' && e !== null ? (e as { message?: unknown }).message : undefined;
+  const msg = String(message || '').toLowerCase();
+  return msg.includes('session') && (msg.includes('expired') || msg.includes('invalid_session') || msg.includes('invalid session'));
+};
 
-  validateACCAndAuthSig(normalizedACC, authSig);
+// What the Lit SDK attaches to a failed node request; `response` is the node's body
+type LitRequestFailure = { message?: unknown; response?: unknown; cause?: { response?: unknown } };
 
-  let lastErr: any = null;
+// Map Lit SDK / node failures onto the error hierarchy, keeping the node response for diagnostics
+const classifyLitError = (e: unknown, address?: string): AppError => {
+  if (e instanceof AppError) return e;
+  const failure: LitRequestFailure = typeof e === 'object' && e !== null ? e : {};
+  const nodeInfo = failure.response ?? failure.cause?.response ?? null;
+  const message = typeof failure.message === 'string' ? failure.message : '';
+  const nodeText = (() => {
+    try {
+      return nodeInfo ? JSON.stringify(nodeInfo) : '';
+    } catch {
+      return '';
+    }
+  })();
+  const msg = (message || nodeText).toLowerCase();
+
+  // Session sigs the nodes still reject after getKeyFromLit refreshed them once, or that carry no expiration
+  if (isStaleSessionError(e) || (msg.includes('expiration') && msg.includes('not set'))) {
+    return new SessionExpiredError(`Lit rejected the session signatures: ${message || 'session expired'}`, { cause: e });
+  }
+  if (msg.includes('notauthorized') || msg.includes('not authorized') || msg.includes('access control conditions check failed')) {
+    return new AccMismatchError(normalizeAddress(address || ''), `Lit nodes denied access: ${message || 'access control conditions not met'}`, { cause: e });
+  }
+  const appError = toAppError(e);
+  if (appError.code === 'USER_REJECTED') return appError;
+  return new LitNodeError(message || String(e), { cause: e, nodeInfo });
+};
+
+// Lit expects unified conditions (entries with `conditionType`) under a different parameter name
+const accessConditionParams = (accessControlConditions: LitConditions): Pick<DecryptRequest, 'accessControlConditions' | 'unifiedAccessControlConditions'> =>
+  isUnifiedConditions(accessControlConditions)
+    ? { unifiedAccessControlConditions: accessControlConditions }
+    : { accessControlConditions };
+
+// Encryption happens client-side against the network's public key, so it needs no wallet signature
+export const saveKeyToLitWithRetry = async (lit: LitClient, symmetricKey: string, accessControlConditions: LitConditions, attempts = 3) => {
+  const normalizedACC = accessControlConditions.map(acc => (isSingleCondition(acc) && acc.returnValueTest ? {
+    ...acc,
+    returnValueTest: { ...acc.returnValueTest, value: String(acc.returnValueTest.value || '').toLowerCase() },
+  } : acc)) as LitConditions;
+
+  let lastErr: unknown = null;
   for (let i = 0; i < attempts; i++) {
     try {
       console.debug('[litHelpers] saveKeyToLitWithRetry attempt', { attempt: i + 1 });
       const data = new TextEncoder().encode(symmetricKey);
-      // Ensure a session expiration is set so Lit nodes accept the encryption request.
-      // Use a 24h expiration by default (seconds since epoch).
-      const expirationSeconds = Math.floor(Date.now() / 1000) + 24 * 60 * 60;
       const encRes = await lit.encrypt({
         dataToEncrypt: data,
-        accessControlConditions: normalizedACC,
-        authSig,
-        chain: 'ethereum',
-        // The Lit SDK accepts different names in different versions; include common ones.
-        sessionKeyExpiration: expirationSeconds,
-        sessionKeyExpiry: expirationSeconds,
-        expiration: expirationSeconds,
+        ...accessConditionParams(normalizedACC),
       });
-      const cipherBuf = encRes.ciphertext instanceof Uint8Array ? encRes.ciphertext : new Uint8Array(encRes.ciphertext);
-      let binary = '';
-      for (let j = 0; j < cipherBuf.length; j++) binary += String.fromCharCode(cipherBuf[j]);
-      const cipherBase64 = typeof window !== 'undefined' && window.btoa ? window.btoa(binary) : Buffer.from(cipherBuf).toString('base64');
-      // Persist session expiration in the payload so decrypt calls can include it.
-      const payload = JSON.stringify({ cipher: cipherBase64, dataToEncryptHash: encRes.dataToEncryptHash, sessionKeyExpiration: expirationSeconds });
-      return payload;
-    } catch (e: any) {
+      // the SDK returns the ciphertext base64-encoded already; older versions returned bytes
+      let cipherBase64: string;
+      if (typeof encRes.ciphertext === 'string') {
+        cipherBase64 = encRes.ciphertext;
+      } else {
+        const cipherBuf = encRes.ciphertext;
+        let binary = '';
+        for (let j = 0; j < cipherBuf.length; j++) binary += String.fromCharCode(cipherBuf[j]);
+        cipherBase64 = typeof window !== 'undefined' && window.btoa ? window.btoa(binary) : Buffer.from(cipherBuf).toString('base64');
+      }
+      return JSON.stringify({ cipher: cipherBase64, dataToEncryptHash: encRes.dataToEncryptHash });
+    } catch (e) {
       lastErr = e;
-      console.warn('[litHelpers] saveKeyToLit attempt failed', { attempt: i + 1, err: e?.message || String(e) });
+      console.warn('[litHelpers] saveKeyToLit attempt failed', { attempt: i + 1, err: (e as Error)?.message || String(e) });
       await new Promise(r => setTimeout(r, 1000 * (i + 1)));
     }
   }
-  throw lastErr;
+  throw classifyLitError(lastErr);
 };
 
-export const saveKeyToLit = async (symmetricKey: string, accessControlConditions: any, authSig: any, attempts = 3) => {
+export const saveKeyToLit = async (symmetricKey: string, accessControlConditions: LitConditions, attempts = 3) => {
   const lit = await initLit();
-  return saveKeyToLitWithRetry(lit, symmetricKey, accessControlConditions, authSig, attempts);
+  return saveKeyToLitWithRetry(lit, symmetricKey, accessControlConditions, attempts);
 };
 
-export const getKeyFromLit = async (encryptedSymmetricKey: string, accessControlConditions: any | null, authSig: any) => {
+export const getKeyFromLit = async (encryptedSymmetricKey: string, accessControlConditions: LitConditions | null, session: LitSession) => {
   const lit = await initLit();
-
-  // ensure authSig has SIWE signedMessage normalized
-  if (authSig && typeof authSig.signedMessage === 'string') {
-    authSig.signedMessage = authSig.signedMessage.replace(/\r\n/g, '\n').trim();
-  }
-
-  console.debug('[litHelpers] getKeyFromLit start', { authSigAddress: authSig?.address });
+  console.debug('[litHelpers] getKeyFromLit start', { address: session.address });
 
   let parsed: { cipher: string; dataToEncryptHash: string };
-  try { parsed = typeof encryptedSymmetricKey === 'string' ? JSON.parse(encryptedSymmetricKey) : encryptedSymmetricKey; } catch (e) { throw new Error('Invalid encrypted symmetric key payload'); }
+  try { parsed = typeof encryptedSymmetricKey === 'string' ? JSON.parse(encryptedSymmetricKey) : encryptedSymmetricKey; } catch (e) { throw new DecryptionError('Invalid encrypted symmetric key payload', { cause: e }); }
   const { cipher, dataToEncryptHash } = parsed;
 
-  // Try multiple approaches for session expiration
-  const possibleExp = (parsed as any)?.sessionKeyExpiration || (parsed as any)?.sessionKeyExpiry || (parsed as any)?.expiration;
-  
-  // If no expiration found in the payload, use a default 24h from now
-  const defaultExpiration = Math.floor(Date.now() / 1000) + 24 * 60 * 60;
-  const sessionExpiration = possibleExp || defaultExpiration;
+  if (Array.isArray(accessControlConditions)) validateACCForAddress(accessControlConditions, session.address);
 
-  try {
-    const decryptParams: any = { 
-      ciphertext: cipher, 
-      dataToEncryptHash, 
-      authSig, 
-      chain: 'ethereum',
-      // Always include session expiration to avoid Lit node errors
-      sessionKeyExpiration: sessionExpiration,
-      sessionKeyExpiry: sessionExpiration,
-      expiration: sessionExpiration
+  const decryptWith = async (sessionSigs: LitSession['sessionSigs']) => {
+    const decryptParams: DecryptRequest = {
+      ciphertext: cipher,
+      dataToEncryptHash,
+      sessionSigs,
+      chain: getConditionsChain(accessControlConditions),
+      ...(accessControlConditions ? accessConditionParams(accessControlConditions) : {}),
     };
-    if (accessControlConditions) decryptParams.accessControlConditions = accessControlConditions;
-
-    // DEV: log small preview
-    try {
-      console.debug('[litHelpers] getKeyFromLit decryptParams (dev-only)', {
-        authSig: { address: authSig?.address, sigPrefix: typeof authSig?.sig === 'string' ? authSig.sig.slice(0, 12) + '...' : authSig?.sig, signedMessagePreview: typeof authSig?.signedMessage === 'string' ? authSig.signedMessage.slice(0, 120) : undefined },
-        accessControlConditions: decryptParams.accessControlConditions,
-        ciphertextPreview: typeof cipher === 'string' ? cipher.slice(0, 48) + '...' : undefined,
-        dataToEncryptHash,
-        sessionExpiration
-      });
-    } catch (_) {}
-
+    console.debug('[litHelpers] getKeyFromLit decryptParams (dev-only)', {
+      accessControlConditions: decryptParams.accessControlConditions || decryptParams.unifiedAccessControlConditions,
+      ciphertextPreview: typeof cipher === 'string' ? cipher.slice(0, 48) + '...' : undefined,
+      dataToEncryptHash,
+    });
     const decRes = await lit.decrypt(decryptParams);
     const decryptedBuf = decRes.decryptedData instanceof Uint8Array ? decRes.decryptedData : new Uint8Array(decRes.decryptedData);
-    const symmetricKey = new TextDecoder().decode(decryptedBuf);
+    return new TextDecoder().decode(decryptedBuf);
+  };
+
+  try {
+    let symmetricKey: string;
+    try {
+      symmetricKey = await decryptWith(session.sessionSigs);
+    } catch (e) {
+      if (!isStaleSessionError(e)) throw e;
+      console.debug('[litHelpers] session sigs rejected as stale; refreshing session');
+      symmetricKey = await decryptWith((await session.refresh()).sessionSigs);
+    }
     console.debug('[litHelpers] getKeyFromLit success ✓');
     return symmetricKey;
-  } catch (e: any) {
-    let nodeInfo: any = null;
-    try { if (e?.response) nodeInfo = e.response; else if (e?.cause?.response) nodeInfo = e.cause.response; } catch (_) {}
-    console.error('[litHelpers] getKeyFromLit failed', { error: e?.message || String(e), authSigAddress: authSig?.address, nodeInfo });
-    try { (e as any)._litDebug = { nodeInfo }; } catch (_) {}
-
-    // Detect common Lit node complaint about missing session expiration used when encrypting.
-    const msg = String(e?.message || (nodeInfo && JSON.stringify(nodeInfo)) || '').toLowerCase();
-    if (msg.includes('expiration') && msg.includes('not set')) {
-      const friendly = new Error('Missing session expiration on the encrypted key. The uploader must re-persist the symmetric key to Lit (so it includes a session expiration).');
-      try { (friendly as any).code = 'MISSING_SESSION_EXPIRATION'; } catch (_) {}
-      throw friendly;
-    }
-
-    throw e;
+  } catch (e) {
+    const classified = classifyLitError(e, session.address);
+    console.error('[litHelpers] getKeyFromLit failed', { error: classified.message, code: classified.code, address: session.address });
+    throw classified;
   }
 };
 
@@ -0,0 +1,94 @@
+// Lit session signatures. One wallet signature (a SIWE message with a ReCap granting access-control-condition
+// decryption) authorises a short-lived session key; every decrypt during the session is signed by that key
+// instead of prompting the wallet again. Sessions are cached per address until shortly before they expire.
+import type { ethers } from 'ethers';
+import { initLit, type SessionSigsMap } from './litHelpers';
+import { AuthError, toAppError } from './errors';
+import { getLitChain } from './config';
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+// refresh this long before expiry so a session never lapses in the middle of a download
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export type LitSession = {
+  address: string; // lowercased signer address
+  sessionSigs: SessionSigsMap; // passed straight to lit.decrypt
+  expiresAt: number; // ms since epoch
+  // obtain a fresh session for the same signer (e.g. when the nodes reject the current one)
+  refresh: () => Promise<LitSession>;
+};
+
+const sessions = new Map<string, LitSession>();
+const pending = new Map<string, Promise<LitSession>>();
+
+const createSession = async (signer: ethers.Signer, address: string): Promise<LitSession> => {
+  const lit = await initLit();
+  const { LitAccessControlConditionResource, createSiweMessageWithRecaps, generateAuthSig } = await import('@lit-protocol/auth-helpers');
+  const { LIT_ABILITY } = await import('@lit-protocol/constants');
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+
+  let sessionSigs: SessionSigsMap;
+  try {
+    sessionSigs = await lit.getSessionSigs({
+      chain: getLitChain(),
+      expiration: new Date(expiresAt).toISOString(),
+      resourceAbilityRequests: [
+        { resource: new LitAccessControlConditionResource('*'), ability: LIT_ABILITY.AccessControlConditionDecryption },
+      ],
+      // only called when the SDK has no valid wallet signature for this session key
+      authNeededCallback: async ({ uri, expiration, resourceAbilityRequests }: { uri?: string; expiration?: string; resourceAbilityRequests?: unknown[] }) => {
+        const toSign = await createSiweMessageWithRecaps({
+          uri: uri!,
+          expiration: expiration!,
+          resources: resourceAbilityRequests as never,
+          walletAddress: address,
+          // the nodes reject SIWE messages whose nonce is not a recent blockhash
+          nonce: await lit.getLatestBlockhash(),
+          litNodeClient: lit,
+        } as never);
+        return generateAuthSig({ signer, toSign });
+      },
+    });
+  } catch (e) {
+    const appError = toAppError(e);
+    throw appError.code === 'USER_REJECTED' ? appError : new AuthError(`Could not create a Lit session: ${appError.message}`, { cause: e });
+  }
+
+  const session: LitSession = {
+    address: address.toLowerCase(),
+    sessionSigs,
+    expiresAt,
+    refresh: () => {
+      clearLitSession(address);
+      return getLitSession(signer);
+    },
+  };
+  console.debug('[litSession] session created', { address: session.address, expiresAt: new Date(expiresAt).toISOString() });
+  return session;
+};
+
+// Cached session for the signer's address, creating (and asking the wallet to sign) one when needed.
+// Concurrent callers share the same in-flight request, so parallel downloads still prompt only once.
+export const getLitSession = async (signer: ethers.Signer): Promise<LitSession> => {
+  const address = await signer.getAddress();
+  const key = address.toLowerCase();
+  const cached = sessions.get(key);
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) return cached;
+
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+  const request = createSession(signer, address)
+    .then(session => {
+      sessions.set(key, session);
+      return session;
+    })
+    .finally(() => pending.delete(key));
+  pending.set(key, request);
+  return request;
+};
+
+// Drop the cached session for one address, or all of them (wallet disconnect)
+export const clearLitSession = (address?: string) => {
+  if (address) sessions.delete(address.toLowerCase());
+  else sessions.clear();
+};
@@ -0,0 +1,60 @@
+// Payment currencies an agent can be priced in: native ETH plus the ERC-20s whitelisted on RentAgent.
+// The client-side list comes from VITE_PAYMENT_TOKENS as `SYMBOL:address:decimals` entries separated by
+// commas, e.g. `USDC:0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238:6`. Tokens must also be allowed on-chain
+// via `setPaymentTokenAllowed`, otherwise uploadAgent reverts.
+import { ethers } from 'ethers';
+import { InvalidInputError } from './errors';
+
+export type PaymentToken = {
+  symbol: string;
+  address: string; // ethers.ZeroAddress for ETH
+  decimals: number;
+};
+
+export const NATIVE_TOKEN: PaymentToken = { symbol: 'ETH', address: ethers.ZeroAddress, decimals: 18 };
+
+export const ERC20_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+];
+
+export const isNativeToken = (address?: string | null) => !address || address === ethers.ZeroAddress;
+
+export const getPaymentTokens = (): PaymentToken[] => {
+  const raw = (import.meta.env.VITE_PAYMENT_TOKENS as string) || '';
+  const tokens = raw.split(',').map(entry => entry.trim()).filter(Boolean).flatMap(entry => {
+    const [symbol, address, decimals] = entry.split(':').map(p => p.trim());
+    const parsedDecimals = Number(decimals);
+    if (!symbol || !ethers.isAddress(address) || !Number.isInteger(parsedDecimals) || parsedDecimals < 0 || parsedDecimals > 36) {
+      console.warn('[paymentTokens] ignoring malformed VITE_PAYMENT_TOKENS entry', entry);
+      return [];
+    }
+    return [{ symbol, address: ethers.getAddress(address), decimals: parsedDecimals }];
+  });
+  return [NATIVE_TOKEN, ...tokens];
+};
+
+// Unknown token addresses still resolve, with 18 decimals and a shortened address as the symbol
+export const findPaymentToken = (address?: string | null): PaymentToken => {
+  if (isNativeToken(address)) return NATIVE_TOKEN;
+  const match = getPaymentTokens().find(t => t.address.toLowerCase() === String(address).toLowerCase());
+  if (match) return match;
+  return { symbol: `${String(address).slice(0, 6)}…`, address: ethers.getAddress(String(address)), decimals: 18 };
+};
+
+// Decimal string -> smallest units, rejecting more fractional digits than the token supports
+export const parseTokenAmount = (amount: string, decimals: number): bigint => {
+  const trimmed = String(amount || '').trim();
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) throw new InvalidInputError(`Invalid amount: ${trimmed || '(empty)'}`);
+  const fraction = trimmed.split('.')[1] || '';
+  if (fraction.length > decimals) throw new InvalidInputError(`Amount ${trimmed} has more than ${decimals} decimal places`);
+  return ethers.parseUnits(trimmed, decimals);
+};
+
+export const formatTokenAmount = (amount: bigint | string, decimals: number) => ethers.formatUnits(amount, decimals);
+
+// Display prefix used next to prices: Ξ for ETH, the token symbol otherwise
+export const priceSymbol = (address?: string | null) => (isNativeToken(address) ? 'Ξ' : findPaymentToken(address).symbol);
@@ -0,0 +1,32 @@
+// RentAgent revert reasons and the messages the UI shows for them (see errorMessages.ts).
+// ethers v6 decodes `require(..., "reason")` into `err.reason` for both estimateGas and eth_call failures.
+export const REVERT_MESSAGES: Record<string, string> = {
+  'cid already claimed': 'This CID is already registered on RentAgent by another wallet. Only its owner can list or re-price it.',
+  'not agent owner': 'Only the current owner of this agent can do that.',
+  'agent not found': 'This agent is not registered on RentAgent.',
+  'agent delisted': 'The owner has delisted this agent, so it cannot be rented right now.',
+  'tier not offered': 'The owner does not offer this rental duration.',
+  'insufficient payment': 'The payment is below the current price. The creator may have changed it; reload and try again.',
+  'subscriptions not offered': 'This creator does not offer a monthly subscription.',
+  'at least one tier required': 'Set a price above 0 for at least one rental duration.',
+  'content cid required': 'The updated content is missing its CID.',
+  'manifest cid required': 'The updated listing details are missing their CID.',
+  'new owner required': 'Enter the address of the new owner.',
+  'nothing to withdraw': 'There are no earnings to withdraw yet.',
+  'splits exceed 100%': 'Collaborator shares add up to more than 100%.',
+  'too many splits': 'Too many collaborators for one agent.',
+  'invalid split recipient': 'A collaborator address is invalid.',
+  'fee too high': 'The platform fee is above the allowed maximum.',
+  'withdraw failed': 'The withdrawal could not be sent to this address.',
+  'payment token not allowed': 'That payment token is not enabled on RentAgent. Ask the contract owner to allow it or price the agent in ETH.',
+  'agent is priced in tokens': 'This agent is priced in an ERC-20 token; do not send ETH with the rental.',
+  'token transfer failed': 'The token transfer failed. Check your token balance and approval.',
+};
+
+export const getRevertReason = (err: unknown): string | null => {
+  if (typeof err !== 'object' || err === null) return null;
+  const e = err as { reason?: unknown; shortMessage?: unknown; message?: unknown };
+  if (typeof e.reason === 'string' && e.reason) return e.reason;
+  const text = typeof e.shortMessage === 'string' ? e.shortMessage : typeof e.message === 'string' ? e.message : '';
+  return Object.keys(REVERT_MESSAGES).find(reason => text.includes(reason)) || null;
+};
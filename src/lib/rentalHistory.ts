@@ -0,0 +1,153 @@
+// A renter's rental history rebuilt from RentAgent's AgentRented logs (`renter` is an indexed topic, so only
+// their own rentals are fetched) with the current expiry read from `rentals(cid, renter)`. Nothing depends on
+// the browser the rental was paid from; the decoded events are cached per chain + contract + renter the same
+// way the catalog snapshot is, so a revisit only scans new blocks.
+import { ethers } from 'ethers';
+import RentAgentABI from '../abis/RentAgent.json';
+import { getCachedCatalog, getCatalogStartBlock, scanLogsInChunks, type CatalogAgent, type SyncOptions } from './agentCatalog';
+import type { RentalTierId } from './rentalTiers';
+import { ConfigError } from './errors';
+
+// One rentAgent payment, as emitted
+export type RentalEvent = {
+  tier: RentalTierId;
+  price: string; // in the agent's payment token units
+  expiresAt: number; // unix seconds, the expiry this payment set
+  blockNumber: number;
+  txHash: string;
+  logIndex: number; // one transaction can rent several times, e.g. through a batching contract
+};
+
+export type RentalHistoryEntry = {
+  cid: string;
+  expiresAt: number; // current on-chain expiry, rentals(cid, renter)
+  active: boolean;
+  events: RentalEvent[]; // newest first
+  agent?: CatalogAgent; // cached catalog entry (title, payment token, manifest) when known
+};
+
+// Bump when RentalEvent changes so stale snapshots are rescanned
+const HISTORY_SNAPSHOT_VERSION = 2;
+
+type HistorySnapshot = {
+  version: typeof HISTORY_SNAPSHOT_VERSION;
+  chainId: number;
+  contractAddress: string;
+  renter: string;
+  lastSyncedBlock: number;
+  rentals: Record<string, RentalEvent[]>; // oldest first
+};
+
+const HISTORY_STORAGE_PREFIX = 'rental_history';
+
+const rentAgentInterface = new ethers.Interface(RentAgentABI);
+
+const snapshotKey = (chainId: number, contractAddress: string, renter: string) =>
+  `${HISTORY_STORAGE_PREFIX}:${chainId}:${contractAddress.toLowerCase()}:${renter.toLowerCase()}`;
+
+const loadHistorySnapshot = (chainId: number, contractAddress: string, renter: string): HistorySnapshot | null => {
+  try {
+    const raw = localStorage.getItem(snapshotKey(chainId, contractAddress, renter));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (parsed?.version !== HISTORY_SNAPSHOT_VERSION || typeof parsed.lastSyncedBlock !== 'number' || !parsed.rentals) return null;
+    return parsed as HistorySnapshot;
+  } catch (e) {
+    console.warn('[rentalHistory] failed to read cached history, rescanning', e);
+    return null;
+  }
+};
+
+const saveHistorySnapshot = (snapshot: HistorySnapshot) => {
+  try {
+    localStorage.setItem(snapshotKey(snapshot.chainId, snapshot.contractAddress, snapshot.renter), JSON.stringify(snapshot));
+  } catch (e) {
+    console.warn('[rentalHistory] failed to persist history', e);
+  }
+};
+
+const applyRentalLog = (snapshot: HistorySnapshot, log: ethers.Log) => {
+  let parsed: ethers.LogDescription | null = null;
+  try {
+    parsed = rentAgentInterface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch (e) {
+    console.debug('[rentalHistory] skipping undecodable log', { txHash: log.transactionHash, e });
+    return;
+  }
+  if (parsed?.name !== 'AgentRented') return;
+  const cid = String(parsed.args.cid);
+  const events = (snapshot.rentals[cid] ||= []);
+  // a resumed scan may see a chunk twice
+  if (events.some(e => e.txHash === log.transactionHash && e.logIndex === log.index)) return;
+  events.push({
+    tier: Number(parsed.args.tier) as RentalTierId,
+    price: BigInt(parsed.args.price).toString(),
+    expiresAt: Number(parsed.args.expiresAt),
+    blockNumber: log.blockNumber,
+    txHash: log.transactionHash,
+    logIndex: log.index,
+  });
+};
+
+// Scan the renter's AgentRented logs from the persisted cursor up to the latest block
+export const syncRentalHistory = async (provider: ethers.Provider, contractAddress: string, renter: string, opts: SyncOptions = {}) => {
+  if (!ethers.isAddress(contractAddress)) throw new ConfigError('RentAgent contract address not configured');
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const startBlock = opts.fromBlock ?? getCatalogStartBlock(chainId);
+  const snapshot = loadHistorySnapshot(chainId, contractAddress, renter) || {
+    version: HISTORY_SNAPSHOT_VERSION,
+    chainId,
+    contractAddress: contractAddress.toLowerCase(),
+    renter: renter.toLowerCase(),
+    lastSyncedBlock: startBlock - 1,
+    rentals: {},
+  };
+  const latest = await provider.getBlockNumber();
+  const topics = [rentAgentInterface.getEvent('AgentRented')!.topicHash, ethers.zeroPadValue(renter.toLowerCase(), 32)];
+
+  await scanLogsInChunks(provider, { address: contractAddress, topics }, Math.max(snapshot.lastSyncedBlock + 1, startBlock), latest, (logs, to) => {
+    for (const log of logs) applyRentalLog(snapshot, log);
+    snapshot.lastSyncedBlock = to;
+    saveHistorySnapshot(snapshot);
+    opts.onProgress?.(to, latest);
+  }, opts.chunkSize);
+
+  console.debug('[rentalHistory] sync complete', { chainId, renter, agents: Object.keys(snapshot.rentals).length });
+  return snapshot;
+};
+
+// Every agent `renter` has rented, active ones first (soonest to expire first), then the rest by latest rental
+export const loadRentalHistory = async (provider: ethers.Provider, contractAddress: string, renter: string, opts: SyncOptions = {}): Promise<RentalHistoryEntry[]> => {
+  const snapshot = await syncRentalHistory(provider, contractAddress, renter, opts);
+  const contract = new ethers.Contract(contractAddress, RentAgentABI, provider);
+  const cids = Object.keys(snapshot.rentals);
+  const [expiries, catalog] = await Promise.all([
+    Promise.all(cids.map(async cid => Number(await contract.rentals(cid, renter)))),
+    getCachedCatalog(provider, contractAddress),
+  ]);
+  const agents = new Map(catalog.map(a => [a.cid, a]));
+  const now = Math.floor(Date.now() / 1000);
+
+  const entries: RentalHistoryEntry[] = cids.map((cid, i) => ({
+    cid,
+    expiresAt: expiries[i],
+    active: expiries[i] > now,
+    events: snapshot.rentals[cid].slice().reverse(),
+    agent: agents.get(cid),
+  }));
+  return entries.sort((a, b) =>
+    Number(b.active) - Number(a.active)
+    || (a.active ? a.expiresAt - b.expiresAt : b.events[0].blockNumber - a.events[0].blockNumber));
+};
+
+// Countdown text for a rental expiring in `seconds`: '3d 4h', '2h 05m', '4m 09s'
+export const formatTimeLeft = (seconds: number) => {
+  if (seconds <= 0) return 'expired';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days) return `${days}d ${hours}h`;
+  if (hours) return `${hours}h ${pad(minutes)}m`;
+  return `${minutes}m ${pad(Math.floor(seconds % 60))}s`;
+};
@@ -0,0 +1,59 @@
+// Rental tiers mirrored from RentAgent.RentalTier. Tier ids are the enum ordinals passed to
+// `rentAgent(cid, tier)`; a tier price of 0 on-chain means the creator does not offer it.
+import { ethers } from 'ethers';
+import { parseTokenAmount } from './paymentTokens';
+import { InvalidInputError } from './errors';
+
+export type RentalTierId = 0 | 1 | 2;
+
+export type RentalTier = {
+  id: RentalTierId;
+  key: 'hourly' | 'daily' | 'monthly';
+  label: string;
+  durationSeconds: number;
+};
+
+export const RENTAL_TIERS: RentalTier[] = [
+  { id: 0, key: 'hourly', label: 'Hourly', durationSeconds: 60 * 60 },
+  { id: 1, key: 'daily', label: 'Daily', durationSeconds: 24 * 60 * 60 },
+  { id: 2, key: 'monthly', label: 'Monthly (30 days)', durationSeconds: 30 * 24 * 60 * 60 },
+];
+
+// Decimal strings per tier in the agent's payment token, '' for a tier that is not offered
+export type TierPriceInputs = [string, string, string];
+
+export const EMPTY_TIER_PRICES: TierPriceInputs = ['', '', ''];
+
+// Convert form inputs to the uint256[3] argument of uploadAgent, in the payment token's smallest unit
+export const parseTierPrices = (prices: TierPriceInputs, decimals = 18): [bigint, bigint, bigint] => {
+  const parsed = prices.map((p, i) => {
+    const trimmed = String(p || '').trim();
+    if (!trimmed) return 0n;
+    try {
+      return parseTokenAmount(trimmed, decimals);
+    } catch (e) {
+      throw new InvalidInputError(`Invalid ${RENTAL_TIERS[i].label.toLowerCase()} price: ${(e as Error).message}`, { cause: e });
+    }
+  }) as [bigint, bigint, bigint];
+  if (parsed.every(p => p === 0n)) throw new InvalidInputError('Offer at least one rental tier with a price above 0');
+  return parsed;
+};
+
+export const formatTierPrices = (pricesWei: ReadonlyArray<bigint | string>, decimals = 18): TierPriceInputs =>
+  RENTAL_TIERS.map(t => {
+    const wei = BigInt(pricesWei[t.id] ?? 0);
+    return wei > 0n ? ethers.formatUnits(wei, decimals) : '';
+  }) as TierPriceInputs;
+
+// Cheapest offered tier, used where a single "from" price is displayed
+export const lowestTierPrice = (prices: TierPriceInputs) => {
+  const offered = prices.filter(p => p && Number(p) > 0);
+  if (!offered.length) return '';
+  return offered.reduce((min, p) => (ethers.parseEther(p) < ethers.parseEther(min) ? p : min));
+};
+
+// Matches the contract: an unexpired rental is extended from its current expiry, otherwise from now
+export const computeRentalExpiry = (tier: RentalTierId, currentExpirySeconds: number, nowSeconds = Math.floor(Date.now() / 1000)) => {
+  const start = currentExpirySeconds > nowSeconds ? currentExpirySeconds : nowSeconds;
+  return start + RENTAL_TIERS[tier].durationSeconds;
+};
@@ -0,0 +1,52 @@
+// Platform fee and collaborator splits, mirroring RentAgent's integer math so the UI can show the exact
+// breakdown a rental will credit. Shares are basis points of the proceeds left after the platform fee.
+import { ethers } from 'ethers';
+import { InvalidInputError } from './errors';
+
+export const BPS_DENOMINATOR = 10_000n;
+export const MAX_SPLITS = 10;
+
+// Form row: collaborator address and percentage as typed (e.g. '12.5')
+export type CollaboratorInput = {
+  address: string;
+  percent: string;
+};
+
+// uploadAgent's `Split[]` argument
+export type RevenueSplit = {
+  recipient: string;
+  shareBps: bigint;
+};
+
+export const parseCollaborators = (rows: CollaboratorInput[]): RevenueSplit[] => {
+  const filled = rows.filter(r => r.address.trim() || r.percent.trim());
+  if (filled.length > MAX_SPLITS) throw new InvalidInputError(`At most ${MAX_SPLITS} collaborators are supported`);
+  const splits = filled.map(r => {
+    const address = r.address.trim();
+    if (!ethers.isAddress(address)) throw new InvalidInputError(`Invalid collaborator address: ${address || '(empty)'}`);
+    const percent = Number(r.percent);
+    if (!Number.isFinite(percent) || percent <= 0) throw new InvalidInputError(`Invalid share for ${address}: ${r.percent || '(empty)'}`);
+    const shareBps = BigInt(Math.round(percent * 100));
+    if (shareBps === 0n) throw new InvalidInputError(`Share for ${address} is below 0.01%`);
+    return { recipient: ethers.getAddress(address), shareBps };
+  });
+  const total = splits.reduce((sum, s) => sum + s.shareBps, 0n);
+  if (total > BPS_DENOMINATOR) throw new InvalidInputError('Collaborator shares add up to more than 100%');
+  return splits;
+};
+
+export type RentalBreakdown = {
+  platformFee: bigint;
+  collaborators: { recipient: string; amount: bigint }[];
+  creator: bigint;
+};
+
+export const computeRentalBreakdown = (priceWei: bigint, platformFeeBps: bigint, splits: RevenueSplit[]): RentalBreakdown => {
+  const platformFee = (priceWei * platformFeeBps) / BPS_DENOMINATOR;
+  const proceeds = priceWei - platformFee;
+  const collaborators = splits.map(s => ({ recipient: s.recipient, amount: (proceeds * s.shareBps) / BPS_DENOMINATOR }));
+  const distributed = collaborators.reduce((sum, c) => sum + c.amount, 0n);
+  return { platformFee, collaborators, creator: proceeds - distributed };
+};
+
+export const formatBps = (bps: bigint) => `${Number(bps) / 100}%`;
@@ -0,0 +1,61 @@
+// Recipients of a batch share. The owner pastes a list or imports a CSV/text file; every address or ENS
+// name found in it becomes a target, and each one is resolved and validated on its own so a typo or an
+// unregistered name is reported next to that entry instead of failing the batch.
+import { ethers } from 'ethers';
+
+// resolved: valid and not yet granted; the batch share turns it into granted or already-shared
+export type ShareTargetStatus = 'resolved' | 'granted' | 'already-shared' | 'duplicate' | 'invalid' | 'unresolved';
+
+export type ShareTarget = {
+  input: string; // as found in the pasted text or file
+  address: string | null; // lowercased; null when invalid or unresolved
+  status: ShareTargetStatus;
+  error?: string;
+};
+
+const isEnsName = (token: string) => /^[^\s.@]+(\.[^\s.@]+)*\.[a-z]{2,}$/i.test(token);
+
+// Tokens separated by newlines, commas, semicolons, tabs or spaces, with CSV quotes stripped. Only cells
+// that look like an address (0x...) or an ENS name are kept, so header rows and label columns drop out;
+// a malformed 0x value is kept and reported as invalid.
+export const parseShareTargets = (text: string): string[] =>
+  text
+    .split(/[\s,;]+/)
+    .map(token => token.trim().replace(/^["']+|["']+$/g, ''))
+    .filter(token => /^0x/i.test(token) || isEnsName(token));
+
+// Resolve ENS names with `resolveName` (the wallet provider's ENS lookup) and validate addresses, in input
+// order. Repeats of an address already in the list, typed or resolved, are marked duplicate.
+export const resolveShareTargets = async (
+  inputs: string[],
+  resolveName: (name: string) => Promise<string | null>,
+  onProgress?: (message: string) => void,
+): Promise<ShareTarget[]> => {
+  const seen = new Set<string>();
+  const targets: ShareTarget[] = [];
+  for (const [i, input] of inputs.entries()) {
+    let target: ShareTarget;
+    if (/^0x/i.test(input)) {
+      target = ethers.isAddress(input)
+        ? { input, address: input.toLowerCase(), status: 'resolved' }
+        : { input, address: null, status: 'invalid', error: 'Not a valid address' };
+    } else if (isEnsName(input)) {
+      onProgress?.(`Resolving ${input} (${i + 1}/${inputs.length})...`);
+      try {
+        const address = await resolveName(input);
+        target = address
+          ? { input, address: address.toLowerCase(), status: 'resolved' }
+          : { input, address: null, status: 'unresolved', error: 'ENS name has no address' };
+      } catch (e) {
+        console.warn('[shareTargets] ENS lookup failed', { name: input, err: (e as Error)?.message });
+        target = { input, address: null, status: 'unresolved', error: `ENS lookup failed: ${(e as Error)?.message || String(e)}` };
+      }
+    } else {
+      target = { input, address: null, status: 'invalid', error: 'Not an address or ENS name' };
+    }
+    if (target.address && seen.has(target.address)) target = { ...target, status: 'duplicate' };
+    if (target.address) seen.add(target.address);
+    targets.push(target);
+  }
+  return targets;
+};
@@ -0,0 +1,79 @@
+// Creator subscriptions on RentAgent: a monthly pass, priced by the creator in ETH or an allowed ERC-20,
+// that unlocks every agent they own. Each agent's Lit conditions OR in `isAgentSubscriber(cid, :userAddress)`,
+// which checks the pass against the agent's current owner, so subscribing is a single transaction and no keys change.
+import { ethers } from 'ethers';
+import RentAgentABI from '../abis/RentAgent.json';
+import { ERC20_ABI, findPaymentToken, formatTokenAmount, isNativeToken, parseTokenAmount } from './paymentTokens';
+import { InvalidInputError } from './errors';
+
+export type SubscriptionPlan = {
+  monthlyPrice: bigint; // in paymentToken units
+  paymentToken: string; // lowercase; the zero address for ETH
+};
+
+// Seconds; mirrors RentAgent.SUBSCRIPTION_PERIOD
+export const SUBSCRIPTION_PERIOD = 30 * 24 * 60 * 60;
+
+const rentAgent = (contractAddress: string, runner: ethers.ContractRunner) => new ethers.Contract(contractAddress, RentAgentABI, runner);
+
+// null when the creator offers no subscription
+export const getSubscriptionPlan = async (runner: ethers.ContractRunner, contractAddress: string, creator: string): Promise<SubscriptionPlan | null> => {
+  const plan = await rentAgent(contractAddress, runner).subscriptionPlans(creator);
+  if (!plan.monthlyPrice) return null;
+  return { monthlyPrice: plan.monthlyPrice, paymentToken: String(plan.paymentToken).toLowerCase() };
+};
+
+export const formatSubscriptionPrice = (plan: SubscriptionPlan) => {
+  const token = findPaymentToken(plan.paymentToken);
+  return `${formatTokenAmount(plan.monthlyPrice, token.decimals)} ${token.symbol} / month`;
+};
+
+// Unix expiry of `user`'s subscription to each creator, keyed by lowercase creator; only active ones are returned
+export const getActiveSubscriptions = async (runner: ethers.ContractRunner, contractAddress: string, creators: string[], user: string) => {
+  const contract = rentAgent(contractAddress, runner);
+  const now = Math.floor(Date.now() / 1000);
+  const unique = [...new Set(creators.map(c => c.toLowerCase()))];
+  const expiries = await Promise.all(unique.map(async creator => Number(await contract.subscriptions(creator, user))));
+  return Object.fromEntries(unique.map((creator, i) => [creator, expiries[i]]).filter(([, expiry]) => (expiry as number) > now)) as Record<string, number>;
+};
+
+// Creator side: price a monthly pass (a decimal amount in `paymentToken`); '' or '0' stops new subscriptions
+export const setSubscriptionPrice = async (signer: ethers.Signer, contractAddress: string, monthlyPrice: string, paymentToken?: string) => {
+  const token = findPaymentToken(paymentToken);
+  const amount = monthlyPrice.trim() ? parseTokenAmount(monthlyPrice, token.decimals) : 0n;
+  const tx = await rentAgent(contractAddress, signer).setSubscriptionPrice(amount, token.address);
+  await tx.wait();
+  console.info('[subscriptions] subscription price set', { monthlyPrice, token: token.symbol, txHash: tx.hash });
+  return tx.hash as string;
+};
+
+// Pay for (or extend) one period of `creator`'s pass. ERC-20 plans are approved first when the allowance
+// is short. Resolves once mined, since Lit reads isAgentSubscriber from chain state.
+export const subscribe = async (signer: ethers.Signer, contractAddress: string, creator: string, onStage?: (message: string) => void) => {
+  const plan = await getSubscriptionPlan(signer, contractAddress, creator);
+  if (!plan) throw new InvalidInputError('This creator does not offer a subscription');
+  const contract = rentAgent(contractAddress, signer);
+  const token = findPaymentToken(plan.paymentToken);
+  if (!isNativeToken(plan.paymentToken)) {
+    const subscriber = await signer.getAddress();
+    const erc20 = new ethers.Contract(plan.paymentToken, ERC20_ABI, signer);
+    const [allowance, balance] = await Promise.all([
+      erc20.allowance(subscriber, contractAddress) as Promise<bigint>,
+      erc20.balanceOf(subscriber) as Promise<bigint>,
+    ]);
+    if (balance < plan.monthlyPrice) {
+      throw new InvalidInputError(`Insufficient ${token.symbol} balance: need ${formatTokenAmount(plan.monthlyPrice, token.decimals)}, have ${formatTokenAmount(balance, token.decimals)}`);
+    }
+    if (allowance < plan.monthlyPrice) {
+      onStage?.(`Approving ${token.symbol}...`);
+      await (await erc20.approve(contractAddress, plan.monthlyPrice)).wait();
+    }
+  }
+  onStage?.('Submitting subscription...');
+  const tx = isNativeToken(plan.paymentToken) ? await contract.subscribe(creator, { value: plan.monthlyPrice }) : await contract.subscribe(creator);
+  onStage?.('Waiting for confirmation...');
+  await tx.wait();
+  const expiresAt = Number(await contract.subscriptions(creator, await signer.getAddress()));
+  console.info('[subscriptions] subscribed', { creator, txHash: tx.hash, expiresAt });
+  return { txHash: tx.hash as string, expiresAt };
+};
@@ -0,0 +1,189 @@
+// Persisted upload jobs. Every agent upload is a job whose completed steps are written to IndexedDB as they
+// happen, so an upload interrupted by a closed tab can be resumed from the last step instead of leaving a
+// half-published agent. The selected file is kept in the job until Lighthouse has accepted it.
+import type { AgentMeta } from './agentService';
+import type { LitKeyEntry } from './agentCatalog';
+
+// In pipeline order. The file is encrypted (cryptoHelpers' chunked format) right before it is uploaded;
+// `encrypted` is recorded once the ciphertext starts going out.
+export const UPLOAD_JOB_STEPS = ['encrypted', 'uploaded', 'key-persisted', 'registered', 'manifest-published', 'manifest-announced'] as const;
+
+export type UploadJobStep = (typeof UPLOAD_JOB_STEPS)[number];
+
+// running: a tab is working on it, or it was interrupted (nobody holds its lock); failed: a step failed
+// and the owner has to retry it; done: every step completed
+export type UploadJobStatus = 'running' | 'failed' | 'done';
+
+export type UploadJob = {
+  id: string;
+  owner: string; // lowercased uploader address; only this wallet can resume the job
+  file: File | null; // cleared once uploaded
+  fileName: string;
+  fileSize: number;
+  meta: AgentMeta;
+  status: UploadJobStatus;
+  completed: UploadJobStep[];
+  errors: Partial<Record<UploadJobStep, string>>; // last failure per step, cleared when the step completes
+  cid?: string;
+  keyEntry?: LitKeyEntry; // Lit entry under the rental conditions
+  txHash?: string | null; // RentAgent.uploadAgent transaction; null when registration was skipped
+  registrationSkipped?: string; // why the agent was not registered (no contract, no priced tier)
+  manifestCid?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type UploadJobStore = {
+  list: () => Promise<UploadJob[]>;
+  get: (id: string) => Promise<UploadJob | null>;
+  put: (job: UploadJob) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+};
+
+const DB_NAME = 'annol';
+const DB_VERSION = 1;
+const STORE_NAME = 'upload_jobs';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbJobStore = (factory: IDBFactory = indexedDB): UploadJobStore => {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return db;
+  };
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const transaction = (await open()).transaction(STORE_NAME, mode);
+    return promisify(run(transaction.objectStore(STORE_NAME)));
+  };
+  return {
+    list: () => withStore('readonly', store => store.getAll() as IDBRequest<UploadJob[]>),
+    get: async id => (await withStore('readonly', store => store.get(id) as IDBRequest<UploadJob | undefined>)) ?? null,
+    put: async job => void (await withStore('readwrite', store => store.put(job))),
+    delete: async id => void (await withStore('readwrite', store => store.delete(id))),
+  };
+};
+
+// Used where IndexedDB is unavailable (Node, some private browsing modes); jobs then last for the page only
+export const createMemoryJobStore = (): UploadJobStore => {
+  const jobs = new Map<string, UploadJob>();
+  return {
+    list: async () => Array.from(jobs.values(), job => ({ ...job })),
+    get: async id => (jobs.has(id) ? { ...jobs.get(id)! } : null),
+    put: async job => void jobs.set(job.id, { ...job }),
+    delete: async id => void jobs.delete(id),
+  };
+};
+
+let store: UploadJobStore | null = null;
+const listeners = new Set<() => void>();
+
+const getStore = () => {
+  if (!store) {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('[uploadJobs] IndexedDB unavailable; upload jobs will not survive a reload');
+      store = createMemoryJobStore();
+    } else store = createIndexedDbJobStore();
+  }
+  return store;
+};
+
+// Pass null to go back to the default store (IndexedDB when available)
+export const setUploadJobStore = (next: UploadJobStore | null) => {
+  store = next;
+};
+
+// Newest first
+export const loadUploadJobs = async () => (await getStore().list()).sort((a, b) => b.createdAt - a.createdAt);
+
+export const getUploadJob = (id: string) => getStore().get(id);
+
+export const saveUploadJob = async (job: UploadJob) => {
+  await getStore().put(job);
+  listeners.forEach(listener => listener());
+};
+
+export const deleteUploadJob = async (id: string) => {
+  await getStore().delete(id);
+  listeners.forEach(listener => listener());
+};
+
+// Called after every save or delete; returns an unsubscribe function
+export const subscribeUploadJobs = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const createUploadJob = (owner: string, file: File, meta: AgentMeta): UploadJob => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    owner: owner.toLowerCase(),
+    file,
+    fileName: file.name,
+    fileSize: file.size,
+    meta,
+    status: 'running',
+    completed: [],
+    errors: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const isStepDone = (job: UploadJob, step: UploadJobStep) => job.completed.includes(step);
+
+// Copy of `job` with `step` completed (and its error cleared) plus any fields the step produced
+export const completeStep = (job: UploadJob, step: UploadJobStep, fields: Partial<UploadJob> = {}): UploadJob => {
+  const errors = { ...job.errors };
+  delete errors[step];
+  return {
+    ...job,
+    ...fields,
+    completed: isStepDone(job, step) ? job.completed : UPLOAD_JOB_STEPS.filter(s => s === step || job.completed.includes(s)),
+    errors,
+    updatedAt: Date.now(),
+  };
+};
+
+export const failStep = (job: UploadJob, step: UploadJobStep, message: string): UploadJob => ({
+  ...job,
+  errors: { ...job.errors, [step]: message },
+  updatedAt: Date.now(),
+});
+
+// Runs `task` while holding the job's lock, so two tabs never work on the same job. Returns null without
+// running it when the lock is taken. Web Locks are released when a tab closes, which is what lets a
+// 'running' job with a free lock be recognised as interrupted.
+const heldHere = new Set<string>();
+
+export const withUploadJobLock = async <T>(id: string, task: () => Promise<T>): Promise<T | null> => {
+  if (heldHere.has(id)) return null;
+  heldHere.add(id);
+  try {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    if (!locks) return await task();
+    let ran = false;
+    const result = await locks.request(`upload-job:${id}`, { ifAvailable: true }, async lock => {
+      if (!lock) return null;
+      ran = true;
+      return task();
+    });
+    return ran ? result : null;
+  } finally {
+    heldHere.delete(id);
+  }
+};
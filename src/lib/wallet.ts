@@ -0,0 +1,20 @@
+// Signer for the injected wallet (window.ethereum). Refuses to hand one out when the wallet would sign with a
+// different account than the one the app shows, e.g. after switching accounts in a multi-account wallet.
+import { ethers } from 'ethers';
+import { AuthError } from './errors';
+
+export const getWalletSigner = async (expectedAddress?: string | null) => {
+  const ethereum = typeof window !== 'undefined' ? (window as unknown as { ethereum?: ethers.Eip1193Provider }).ethereum : undefined;
+  if (!ethereum) throw new AuthError('Wallet provider not available (window.ethereum missing)');
+  const signer = await new ethers.BrowserProvider(ethereum).getSigner();
+  if (expectedAddress) {
+    const signerAddress = await signer.getAddress();
+    if (signerAddress.toLowerCase() !== expectedAddress.toLowerCase()) {
+      throw new AuthError(
+        `Address mismatch: the app shows ${expectedAddress} but the wallet will sign with ${signerAddress}. ` +
+        'Please ensure only one account is connected in your wallet.'
+      );
+    }
+  }
+  return signer;
+};
@@ -11,12 +11,13 @@ import {
 } from '@rainbow-me/rainbowkit';
 import { WagmiProvider } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { mainnet, sepolia } from 'wagmi/chains';
+import { hardhat, mainnet, sepolia } from 'wagmi/chains';
 
 const config = getDefaultConfig({
   appName: 'RainbowKit Vite App',
   projectId: 'f3a3e201f33dd60d470e1d506848ae76', // Replace with your WalletConnect Project ID
-  chains: [mainnet, sepolia],
+  // `npm run dev:local` runs in "hardhat" mode against `npx hardhat node`
+  chains: import.meta.env.MODE === 'hardhat' ? [hardhat, sepolia] : [mainnet, sepolia],
   ssr: false,
 });
 
@@ -0,0 +1,238 @@
+// End to end: an owner uploads an encrypted agent, shares it with a friend, a stranger rents it on a local
+// Hardhat chain, and everyone who is entitled decrypts the original bytes. Lit and Lighthouse are the
+// in-memory fakes; the RentAgent contract, the access conditions, the session flow, the gateway download
+// and CID verification are the real code paths.
+import { beforeEach, describe, expect, inject, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { setLighthouseClient } from '../lib/lighthouseClient';
+import { getKeyFromLit, saveKeyToLit, setLitClient } from '../lib/litHelpers';
+import { getLitSession } from '../lib/litSession';
+import { buildAddressAccessConditions, buildAgentAccessConditions } from '../lib/accessConditions';
+import { decryptIpfsFile } from '../lib/cryptoHelpers';
+import { AccMismatchError } from '../lib/errors';
+import { getActiveSubscriptions } from '../lib/subscriptions';
+import { loadRentalHistory } from '../lib/rentalHistory';
+import { loadLocalUploads, syncAgentCatalog } from '../lib/agentCatalog';
+import { buildAgentManifest, fetchAgentManifest, manifestToUploadRecord, publishAgentManifest } from '../lib/agentManifest';
+import { agentService } from '../lib/agentService';
+import { createFakeLighthouse, type FakeLighthouse } from './fakeLighthouse';
+import { createFakeLit, type FakeLit } from './fakeLit';
+import { TIER, TIER_PRICES, connectLocalChain, deployRentAgent } from './chain';
+
+// ACCs name sepolia, as in production; the fake Lit nodes evaluate sepolia against the local node
+const LIT_CHAIN = 'sepolia';
+
+const agentBytes = new TextEncoder().encode(JSON.stringify({ name: 'test-agent', weights: Array.from({ length: 64 }, (_, i) => i) }));
+
+const downloadAgent = async (cid: string, symmetricKey: string) =>
+  new Uint8Array(await (await decryptIpfsFile(cid, symmetricKey)).arrayBuffer());
+
+const setupChain = async () => {
+  const chain = await connectLocalChain(inject('hardhatRpcUrl'));
+  const { rentAgent, address } = await deployRentAgent(chain.deployer);
+  return { ...chain, rentAgent, rentAgentAddress: address };
+};
+
+// What LighthouseUploader does for the owner: sign Lighthouse's auth message, upload, read back the key
+const uploadAsOwner = async (lighthouse: FakeLighthouse, owner: ethers.Signer) => {
+  const address = await owner.getAddress();
+  const signed = await owner.signMessage((await lighthouse.getAuthMessage(address)).data.message!);
+  const { data: apiKey } = await lighthouse.getApiKey(address, signed);
+  const file = new File([agentBytes], 'agent.json', { type: 'application/json' });
+  const upload = await lighthouse.uploadEncrypted([file], apiKey.apiKey, address, signed);
+  const cid = upload.data[0].Hash;
+  const { data } = await lighthouse.fetchEncryptionKey(cid, address, signed);
+  return { cid, symmetricKey: data.key as string, apiKey: apiKey.apiKey };
+};
+
+describe('agent upload → share → rent → decrypt', () => {
+  let lighthouse: FakeLighthouse;
+  let lit: FakeLit;
+  let env: Awaited<ReturnType<typeof setupChain>>;
+
+  beforeEach(async () => {
+    env = await setupChain();
+    lighthouse = createFakeLighthouse();
+    lit = createFakeLit({ providers: { [LIT_CHAIN]: env.provider } });
+    setLighthouseClient(lighthouse);
+    setLitClient(lit);
+    vi.stubGlobal('fetch', lighthouse.fetch);
+  });
+
+  it('lets the owner, a shared address and a paying renter decrypt, and nobody else', async () => {
+    const { owner, friend, renter, rentAgent, rentAgentAddress } = env;
+    const ownerAddress = await owner.getAddress();
+    const { cid, symmetricKey } = await uploadAsOwner(lighthouse, owner);
+
+    // Wrap the key under the rental conditions and list the agent
+    const accs = buildAgentAccessConditions({ cid, owner: ownerAddress, contractAddress: rentAgentAddress, chain: LIT_CHAIN });
+    const encryptedKey = await saveKeyToLit(symmetricKey, accs);
+    await (await rentAgent.connect(owner).getFunction('uploadAgent')(cid, TIER_PRICES, ethers.ZeroAddress, [])).wait();
+
+    // Owner passes the `:userAddress == owner` branch
+    const ownerKey = await getKeyFromLit(encryptedKey, accs, await getLitSession(owner));
+    expect(ownerKey).toBe(symmetricKey);
+    expect(await downloadAgent(cid, ownerKey)).toEqual(agentBytes);
+
+    // Explicit share: the key re-wrapped for one address
+    const friendAccs = buildAddressAccessConditions(await friend.getAddress(), LIT_CHAIN);
+    const sharedKey = await saveKeyToLit(symmetricKey, friendAccs);
+    expect(await getKeyFromLit(sharedKey, friendAccs, await getLitSession(friend))).toBe(symmetricKey);
+
+    // A stranger is turned away until isRenter() holds on-chain
+    const renterSession = await getLitSession(renter);
+    await expect(getKeyFromLit(encryptedKey, accs, renterSession)).rejects.toBeInstanceOf(AccMismatchError);
+
+    await (await rentAgent.connect(renter).getFunction('rentAgent')(cid, TIER.Hourly, { value: TIER_PRICES[TIER.Hourly] })).wait();
+    expect(await rentAgent.isRenter(cid, await renter.getAddress())).toBe(true);
+
+    const renterKey = await getKeyFromLit(encryptedKey, accs, await getLitSession(renter));
+    expect(await downloadAgent(cid, renterKey)).toEqual(agentBytes);
+
+    // The friend's share does not open the rental-gated key, and sessions were signed once per wallet
+    await expect(getKeyFromLit(encryptedKey, accs, await getLitSession(friend))).rejects.toBeInstanceOf(AccMismatchError);
+    expect(lit.walletSignatures).toBe(3);
+  });
+
+  it('lets a subscriber decrypt every agent of the creator without renting them', async () => {
+    const { owner, friend, renter, rentAgent, rentAgentAddress } = env;
+    const ownerAddress = await owner.getAddress();
+    const monthly = ethers.parseEther('0.5');
+    const first = await uploadAsOwner(lighthouse, owner);
+    const accs = buildAgentAccessConditions({ cid: first.cid, owner: ownerAddress, contractAddress: rentAgentAddress, chain: LIT_CHAIN });
+    const encryptedKey = await saveKeyToLit(first.symmetricKey, accs);
+    await (await rentAgent.connect(owner).getFunction('uploadAgent')(first.cid, TIER_PRICES, ethers.ZeroAddress, [])).wait();
+
+    await expect(getKeyFromLit(encryptedKey, accs, await getLitSession(renter))).rejects.toBeInstanceOf(AccMismatchError);
+
+    await (await rentAgent.connect(owner).getFunction('setSubscriptionPrice')(monthly, ethers.ZeroAddress)).wait();
+    await (await rentAgent.connect(renter).getFunction('subscribe')(ownerAddress, { value: monthly })).wait();
+    expect(await getActiveSubscriptions(env.provider, rentAgentAddress, [ownerAddress], await renter.getAddress())).toEqual({
+      [ownerAddress.toLowerCase()]: Number(await rentAgent.subscriptions(ownerAddress, await renter.getAddress())),
+    });
+
+    // the subscription covers this agent and one the creator lists afterwards; nobody rented either
+    expect(await getKeyFromLit(encryptedKey, accs, await getLitSession(renter))).toBe(first.symmetricKey);
+    const second = await uploadAsOwner(lighthouse, owner);
+    const secondAccs = buildAgentAccessConditions({ cid: second.cid, owner: ownerAddress, contractAddress: rentAgentAddress, chain: LIT_CHAIN });
+    const secondKey = await saveKeyToLit(second.symmetricKey, secondAccs);
+    await (await rentAgent.connect(owner).getFunction('uploadAgent')(second.cid, TIER_PRICES, ethers.ZeroAddress, [])).wait();
+    expect(await getKeyFromLit(secondKey, secondAccs, await getLitSession(renter))).toBe(second.symmetricKey);
+    expect(await rentAgent.isRenter(first.cid, await renter.getAddress())).toBe(false);
+
+    // a wallet without a subscription is still turned away
+    await expect(getKeyFromLit(encryptedKey, accs, await getLitSession(friend))).rejects.toBeInstanceOf(AccMismatchError);
+  });
+
+  it('moves subscriber access to the new owner when an agent is transferred', async () => {
+    const { deployer, owner, friend, renter, rentAgent, rentAgentAddress } = env;
+    const [ownerAddress, friendAddress] = await Promise.all([owner.getAddress(), friend.getAddress()]);
+    const monthly = ethers.parseEther('0.5');
+    const { cid, symmetricKey } = await uploadAsOwner(lighthouse, owner);
+    const accs = buildAgentAccessConditions({ cid, owner: ownerAddress, contractAddress: rentAgentAddress, chain: LIT_CHAIN });
+    const encryptedKey = await saveKeyToLit(symmetricKey, accs);
+    await (await rentAgent.connect(owner).getFunction('uploadAgent')(cid, TIER_PRICES, ethers.ZeroAddress, [])).wait();
+    await (await rentAgent.connect(owner).getFunction('setSubscriptionPrice')(monthly, ethers.ZeroAddress)).wait();
+    await (await rentAgent.connect(renter).getFunction('subscribe')(ownerAddress, { value: monthly })).wait();
+    await (await rentAgent.connect(friend).getFunction('setSubscriptionPrice')(monthly, ethers.ZeroAddress)).wait();
+    await (await rentAgent.connect(deployer).getFunction('subscribe')(friendAddress, { value: monthly })).wait();
+    expect(await getKeyFromLit(encryptedKey, accs, await getLitSession(renter))).toBe(symmetricKey);
+    await expect(getKeyFromLit(encryptedKey, accs, await getLitSession(deployer))).rejects.toBeInstanceOf(AccMismatchError);
+
+    // same key, same conditions: the contract now resolves the friend as the owner
+    await (await rentAgent.connect(owner).getFunction('transferAgentOwnership')(cid, friendAddress)).wait();
+    expect(await getKeyFromLit(encryptedKey, accs, await getLitSession(deployer))).toBe(symmetricKey);
+    await expect(getKeyFromLit(encryptedKey, accs, await getLitSession(renter))).rejects.toBeInstanceOf(AccMismatchError);
+    expect(await getKeyFromLit(encryptedKey, accs, await getLitSession(friend))).toBe(symmetricKey);
+  });
+
+  it('rebuilds a renter\'s rentals and expiries from chain logs alone', async () => {
+    const { owner, friend, renter, rentAgent, rentAgentAddress } = env;
+    const { cid } = await uploadAsOwner(lighthouse, owner);
+    await (await rentAgent.connect(owner).getFunction('uploadAgent')(cid, TIER_PRICES, ethers.ZeroAddress, [])).wait();
+    await (await rentAgent.connect(renter).getFunction('rentAgent')(cid, TIER.Hourly, { value: TIER_PRICES[TIER.Hourly] })).wait();
+    await (await rentAgent.connect(renter).getFunction('rentAgent')(cid, TIER.Daily, { value: TIER_PRICES[TIER.Daily] })).wait();
+    const renterAddress = await renter.getAddress();
+    // a separate read provider per load, like a page reload (the wallet's provider caches the block number briefly)
+    const readHistory = async (address: string) => {
+      const provider = new ethers.JsonRpcProvider(inject('hardhatRpcUrl'), undefined, { staticNetwork: true });
+      try {
+        return await loadRentalHistory(provider, rentAgentAddress, address);
+      } finally {
+        provider.destroy();
+      }
+    };
+
+    // nothing local: the history comes from AgentRented logs filtered by the renter topic
+    const history = await readHistory(renterAddress);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ cid, active: true, expiresAt: Number(await rentAgent.rentals(cid, renterAddress)) });
+    expect(history[0].events.map(e => [e.tier, e.price])).toEqual([
+      [TIER.Daily, TIER_PRICES[TIER.Daily].toString()],
+      [TIER.Hourly, TIER_PRICES[TIER.Hourly].toString()],
+    ]);
+    expect(history[0].events[0].expiresAt).toBe(history[0].expiresAt);
+
+    // a later rental is picked up incrementally, and other wallets see none of it
+    await (await rentAgent.connect(renter).getFunction('rentAgent')(cid, TIER.Hourly, { value: TIER_PRICES[TIER.Hourly] })).wait();
+    expect((await readHistory(renterAddress))[0].events).toHaveLength(3);
+    expect(await readHistory(await friend.getAddress())).toEqual([]);
+  });
+
+  it('resolves a rented agent\'s manifest from chain data on a device with no local records', async () => {
+    const { owner, renter, rentAgent, rentAgentAddress } = env;
+    const ownerAddress = await owner.getAddress();
+    const { cid, symmetricKey, apiKey } = await uploadAsOwner(lighthouse, owner);
+    const accs = buildAgentAccessConditions({ cid, owner: ownerAddress, contractAddress: rentAgentAddress, chain: LIT_CHAIN });
+    const key = await saveKeyToLit(symmetricKey, accs);
+    await (await rentAgent.connect(owner).getFunction('uploadAgent')(cid, TIER_PRICES, ethers.ZeroAddress, [])).wait();
+    const manifestCid = await publishAgentManifest(buildAgentManifest({ cid, owner: ownerAddress, title: 'Chain-only agent', encryptedSymmetricKeys: [{ key, accessControlConditions: accs }] }), apiKey);
+    await (await rentAgent.connect(owner).getFunction('updateManifest')(cid, manifestCid)).wait();
+    await (await rentAgent.connect(renter).getFunction('rentAgent')(cid, TIER.Hourly, { value: TIER_PRICES[TIER.Hourly] })).wait();
+
+    // the renter's device has never seen the agent
+    expect(localStorage.length).toBe(0);
+    expect(loadLocalUploads()).toEqual([]);
+    const provider = new ethers.JsonRpcProvider(inject('hardhatRpcUrl'), undefined, { staticNetwork: true });
+    let history: Awaited<ReturnType<typeof loadRentalHistory>>;
+    try {
+      await syncAgentCatalog(provider, rentAgentAddress);
+      history = await loadRentalHistory(provider, rentAgentAddress, await renter.getAddress());
+    } finally {
+      provider.destroy();
+    }
+    expect(history).toHaveLength(1);
+    expect(history[0].agent).toMatchObject({ cid, onChain: true, manifestCid });
+
+    // what RentModal does with that CID: resolve the manifest, unlock the key through Lit, decrypt
+    const record = manifestToUploadRecord(await fetchAgentManifest(history[0].agent!.manifestCid!), manifestCid);
+    expect(await downloadAgent(cid, await agentService.unlockKey(renter, record))).toEqual(agentBytes);
+  });
+
+  it('refreshes a stale Lit session once instead of failing the download', async () => {
+    const { owner, rentAgentAddress } = env;
+    const ownerAddress = await owner.getAddress();
+    const { cid, symmetricKey } = await uploadAsOwner(lighthouse, owner);
+    const accs = buildAgentAccessConditions({ cid, owner: ownerAddress, contractAddress: rentAgentAddress, chain: LIT_CHAIN });
+    const encryptedKey = await saveKeyToLit(symmetricKey, accs);
+
+    const session = await getLitSession(owner);
+    lit.expireSessions();
+    expect(await getKeyFromLit(encryptedKey, accs, session)).toBe(symmetricKey);
+    expect(lit.walletSignatures).toBe(2);
+  });
+
+  it('serves downloads only for content that matches its CID', async () => {
+    const { cid, symmetricKey } = await uploadAsOwner(lighthouse, env.owner);
+    const stored = lighthouse.files.get(cid)!;
+    lighthouse.files.set(cid, { ...stored, bytes: stored.bytes.map((b, i) => (i === stored.bytes.length - 1 ? b ^ 1 : b)) });
+    await expect(downloadAgent(cid, symmetricKey)).rejects.toThrow();
+  });
+
+  it('rejects Lighthouse calls signed by a different wallet', async () => {
+    const { cid } = await uploadAsOwner(lighthouse, env.owner);
+    const stranger = await env.renter.getAddress();
+    const wrongSig = await env.owner.signMessage((await lighthouse.getAuthMessage(stranger)).data.message!);
+    await expect(lighthouse.fetchEncryptionKey(cid, stranger, wrongSig)).rejects.toThrow(/signature/);
+  });
+});
@@ -0,0 +1,265 @@
+// agentService against the in-memory Lit / Lighthouse fakes. No RentAgent deployment is configured here unless a
+// test deploys one (useRentAgent), so uploads are gated on the owner address only; the rental path is covered
+// by agentFlow.test.ts.
+import { beforeEach, describe, expect, inject, it, vi } from 'vitest';
+import { setLighthouseClient } from '../lib/lighthouseClient';
+import { setLitClient } from '../lib/litHelpers';
+import { agentService, getGrantees, getSharedAddresses, type UploadProgress } from '../lib/agentService';
+import { loadLocalUploads, saveLocalUploads } from '../lib/agentCatalog';
+import { setRentAgentDeployments } from '../lib/config';
+import { buildAddressAccessConditions } from '../lib/accessConditions';
+import { parseShareTargets } from '../lib/shareTargets';
+import { checkAccessGate, parseAccessGate, readTokenDecimals } from '../lib/accessGates';
+import { fetchAgentManifest, manifestToUploadRecord } from '../lib/agentManifest';
+import { isChunkedPayload } from '../lib/cryptoHelpers';
+import { UPLOAD_JOB_STEPS, createMemoryJobStore, getUploadJob, isStepDone, setUploadJobStore, type UploadJob } from '../lib/uploadJobs';
+import { createFakeLighthouse, type FakeLighthouse } from './fakeLighthouse';
+import { createFakeLit, type FakeLit } from './fakeLit';
+import { connectLocalChain, deployMockERC20, deployRentAgent } from './chain';
+
+const agentBytes = new TextEncoder().encode('print("hello from a rented agent")');
+const agentFile = () => new File([agentBytes], 'agent.py', { type: 'text/x-python' });
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => new Uint8Array(await new Response(stream).arrayBuffer());
+
+describe('agentService', () => {
+  let lighthouse: FakeLighthouse;
+  let lit: FakeLit;
+  let chain: Awaited<ReturnType<typeof connectLocalChain>>;
+
+  beforeEach(async () => {
+    chain = await connectLocalChain(inject('hardhatRpcUrl'));
+    lighthouse = createFakeLighthouse();
+    lit = createFakeLit({ providers: { sepolia: chain.provider } });
+    setLighthouseClient(lighthouse);
+    setLitClient(lit);
+    vi.stubGlobal('fetch', lighthouse.fetch);
+  });
+
+  // Points agentService at a fresh RentAgent on the local node; its conditions name sepolia, which the fake Lit reads locally
+  const useRentAgent = async () => {
+    const { rentAgent, address } = await deployRentAgent(chain.deployer);
+    setRentAgentDeployments([{ chainId: Number((await chain.provider.getNetwork()).chainId), address, deployBlock: 0, litChain: 'sepolia' }]);
+    return rentAgent;
+  };
+
+  it('uploads, reports each stage and saves a record the owner can download', async () => {
+    const stages: UploadProgress[] = [];
+    const result = await agentService.upload(chain.owner, agentFile(), { title: 'Hello agent', price: '0.01' }, p => stages.push(p));
+
+    expect(result.litError).toBeNull();
+    expect(result.registration).toEqual({ status: 'skipped', reason: 'RentAgent contract not configured' });
+    expect(result.manifestCid).toBeTruthy();
+    expect([...new Set(stages.map(s => s.stage))]).toEqual(['authorizing', 'uploading', 'fetching-key', 'persisting-key', 'publishing-manifest', 'done']);
+    expect(stages.every((s, i) => i === 0 || s.percent >= stages[i - 1].percent)).toBe(true);
+    // byte-level progress from the SDK callback, ending at the full file size
+    const sent = stages.filter(s => s.bytes).map(s => s.bytes!.loaded);
+    expect(sent.length).toBeGreaterThan(1);
+    expect(sent[sent.length - 1]).toBe(agentBytes.length);
+
+    const [record] = loadLocalUploads();
+    expect(record).toMatchObject({ cid: result.cid, title: 'Hello agent', litPersisted: true, manifestCid: result.manifestCid });
+    // encrypted client-side in the chunked format; Lighthouse only holds the key shards
+    expect(isChunkedPayload(lighthouse.files.get(result.cid)!.bytes)).toBe(true);
+    expect(lighthouse.calls).toMatchObject({ upload: 1, uploadEncrypted: 0, saveShards: 1 });
+    expect(await readAll(await agentService.download(chain.owner, result.cid))).toEqual(agentBytes);
+  });
+
+  it('shares with an address and revokes the share again', async () => {
+    const { cid } = await agentService.upload(chain.owner, agentFile(), { title: 'Shared agent' });
+    const friend = (await chain.friend.getAddress()).toLowerCase();
+
+    await expect(agentService.download(chain.friend, cid)).rejects.toMatchObject({ code: 'ACC_MISMATCH' });
+
+    const shared = await agentService.share(chain.owner, cid, friend);
+    expect(getSharedAddresses(shared!)).toEqual([friend]);
+    expect(await readAll(await agentService.download(chain.friend, cid))).toEqual(agentBytes);
+
+    const { record: revoked, contentCid, chainUpdate } = await agentService.revoke(chain.owner, cid, friend);
+    expect(getSharedAddresses(revoked)).toEqual([]);
+    expect(contentCid).not.toBe(cid);
+    expect(revoked.contentCid).toBe(contentCid);
+    expect(isChunkedPayload(lighthouse.files.get(contentCid)!.bytes)).toBe(true);
+    expect(chainUpdate).toEqual({ status: 'skipped', reason: 'RentAgent contract not configured' });
+    expect(revoked.manifestCid).not.toBe(shared!.manifestCid);
+    await expect(agentService.download(chain.friend, cid)).rejects.toMatchObject({ code: 'ACC_MISMATCH' });
+    expect(await readAll(await agentService.download(chain.owner, cid))).toEqual(agentBytes);
+    await expect(agentService.revoke(chain.friend, cid, friend)).rejects.toMatchObject({ code: 'AUTH' });
+  });
+
+  it('lists grantees with their grant dates and keeps the others on revoke', async () => {
+    const { cid } = await agentService.upload(chain.owner, agentFile(), { title: 'Team agent' });
+    const friend = (await chain.friend.getAddress()).toLowerCase();
+    const renter = (await chain.renter.getAddress()).toLowerCase();
+
+    await agentService.share(chain.owner, cid, friend);
+    const shared = await agentService.share(chain.owner, cid, renter);
+    const grantees = getGrantees(shared!);
+    expect(grantees.map(g => g.address)).toEqual([friend, renter]);
+    expect(grantees.every(g => !!g.grantedAt && !Number.isNaN(Date.parse(g.grantedAt)))).toBe(true);
+
+    const { record } = await agentService.revoke(chain.owner, cid, friend);
+    expect(getGrantees(record)).toEqual([grantees[1]]);
+    expect(await readAll(await agentService.download(chain.renter, cid))).toEqual(agentBytes);
+    await expect(agentService.download(chain.friend, cid)).rejects.toMatchObject({ code: 'ACC_MISMATCH' });
+  });
+
+  it('shares with a pasted list through one Lit entry and reports each entry', async () => {
+    const { cid } = await agentService.upload(chain.owner, agentFile(), { title: 'Cohort agent' });
+    const owner = (await chain.owner.getAddress()).toLowerCase();
+    const friend = (await chain.friend.getAddress()).toLowerCase();
+    const renter = await chain.renter.getAddress();
+    const csv = `name,address\nfriend,"${friend}"\nrenter,${renter}\nagain,${renter.toLowerCase()}\nowner,${owner}\ntypo,0x1234\nens,nobody.eth\n`;
+    const inputs = parseShareTargets(csv);
+    expect(inputs).toEqual([friend, renter, renter.toLowerCase(), owner, '0x1234', 'nobody.eth']);
+
+    let litWrites = 0;
+    const encrypt = lit.encrypt;
+    lit.encrypt = async params => {
+      litWrites++;
+      return encrypt(params);
+    };
+    const { record, targets } = await agentService.shareMany(chain.owner, cid, inputs);
+    expect(targets.map(t => t.status)).toEqual(['granted', 'granted', 'duplicate', 'already-shared', 'invalid', 'unresolved']);
+    expect(litWrites).toBe(1);
+    expect(getSharedAddresses(record!)).toEqual([friend, renter.toLowerCase()]);
+    expect(await readAll(await agentService.download(chain.friend, cid))).toEqual(agentBytes);
+    expect(await readAll(await agentService.download(chain.renter, cid))).toEqual(agentBytes);
+
+    // nothing new to grant: no Lit write and no manifest update
+    const again = await agentService.shareMany(chain.owner, cid, [friend]);
+    expect(again).toMatchObject({ record: null });
+    expect(again.targets[0].status).toBe('already-shared');
+    expect(litWrites).toBe(1);
+
+    // revoking one member of the allowlist keeps the others in a single entry
+    const { record: revoked } = await agentService.revoke(chain.owner, cid, friend);
+    expect(getSharedAddresses(revoked)).toEqual([renter.toLowerCase()]);
+    expect(await readAll(await agentService.download(chain.renter, cid))).toEqual(agentBytes);
+    await expect(agentService.download(chain.friend, cid)).rejects.toMatchObject({ code: 'ACC_MISMATCH' });
+  });
+
+  it('lets holders of the gating token decrypt without renting', async () => {
+    const { token, address: tokenAddress } = await deployMockERC20(chain.deployer, 'GATE', 6);
+    const friend = await chain.friend.getAddress();
+    await (await token.mint(friend, 5_000_000n)).wait();
+    await (await token.mint(await chain.renter.getAddress(), 4_999_999n)).wait();
+    const gate = parseAccessGate({ mode: 'erc20', contractAddress: tokenAddress, tokenId: '', minBalance: '5' }, await readTokenDecimals(chain.owner, tokenAddress));
+    expect(gate).toEqual({ mode: 'erc20', contractAddress: tokenAddress.toLowerCase(), minBalance: '5000000', decimals: 6 });
+
+    const rentAgent = await useRentAgent();
+
+    const { cid, record, manifestCid, registration } = await agentService.upload(chain.owner, agentFile(), { title: 'Holders only', accessType: 'erc20', accessGate: gate, tierPrices: ['', '', ''] });
+    expect(record.accessType).toBe('erc20');
+    // registered without a rental tier, so the manifest is on-chain for the catalog and subscribers
+    expect(registration.status).toBe('registered');
+    expect((await rentAgent.agents(cid)).uploader).toBe(await chain.owner.getAddress());
+    expect(await rentAgent.getTierPrices(cid)).toEqual([0n, 0n, 0n]);
+    expect(await rentAgent.manifestCids(cid)).toBe(manifestCid);
+    expect(record.accessGate).toEqual(gate);
+    expect(await checkAccessGate(gate!, friend, chain.provider)).toBe(true);
+    expect(await readAll(await agentService.download(chain.friend, cid))).toEqual(agentBytes);
+    expect(await checkAccessGate(gate!, await chain.renter.getAddress(), chain.provider)).toBe(false);
+    await expect(agentService.download(chain.renter, cid)).rejects.toMatchObject({ code: 'ACC_MISMATCH' });
+    expect(await readAll(await agentService.download(chain.owner, cid))).toEqual(agentBytes);
+
+    // renters on other devices learn about the gate from the manifest
+    expect(manifestToUploadRecord(await fetchAgentManifest(manifestCid!), manifestCid!).accessGate).toEqual(gate);
+  });
+
+  it('keeps the upload when Lit is unavailable and persists the key on recovery', async () => {
+    const encrypt = lit.encrypt;
+    lit.encrypt = async () => {
+      throw new Error('lit nodes unreachable');
+    };
+    const result = await agentService.upload(chain.owner, agentFile(), { title: 'Flaky Lit' });
+    expect(result.litError?.code).toBe('LIT');
+    expect(result.manifestCid).toBeNull();
+    expect(loadLocalUploads()[0]).toMatchObject({ cid: result.cid, litPersisted: false });
+    const failed = await getUploadJob(result.jobId);
+    expect(failed).toMatchObject({ status: 'failed', completed: ['encrypted', 'uploaded', 'registered'] });
+    expect(failed!.errors['key-persisted']).toContain('lit nodes unreachable');
+
+    lit.encrypt = encrypt;
+    const repaired = await agentService.recoverKey(chain.owner, result.cid);
+    expect(repaired).toMatchObject({ litPersisted: true, lastLitError: null });
+    expect(repaired!.manifestCid).toBeTruthy();
+    expect(await getUploadJob(result.jobId)).toMatchObject({ status: 'done', errors: {} });
+    expect(await readAll(await agentService.download(chain.owner, result.cid))).toEqual(agentBytes);
+  });
+
+  it('repairs a legacy single-key record in place and keeps explicit shares', async () => {
+    const { cid } = await agentService.upload(chain.owner, agentFile(), { title: 'Legacy agent' });
+    const friend = (await chain.friend.getAddress()).toLowerCase();
+    const shared = await agentService.share(chain.owner, cid, friend);
+    // what older uploads left behind: the owner's key in the single-key shape, under conditions the nodes
+    // no longer accept, next to the share
+    const legacyKey = { key: 'c3RhbGUta2V5', accessControlConditions: buildAddressAccessConditions(await chain.owner.getAddress()) };
+    const shareEntries = shared!.encryptedSymmetricKeys!.slice(-1);
+    saveLocalUploads([{ ...shared!, encryptedSymmetricKey: legacyKey.key, accessControlConditions: legacyKey.accessControlConditions, encryptedSymmetricKeys: [legacyKey, ...shareEntries], litPersisted: false }]);
+    const uploads = lighthouse.calls.upload;
+
+    await expect(agentService.recoverKey(chain.friend, cid)).rejects.toMatchObject({ code: 'AUTH' });
+    const repaired = await agentService.recoverKey(chain.owner, cid);
+    expect(repaired).toMatchObject({ litPersisted: true, lastLitError: null });
+    expect(repaired).not.toHaveProperty('encryptedSymmetricKey');
+    expect(repaired).not.toHaveProperty('accessControlConditions');
+    expect(repaired!.encryptedSymmetricKeys!.length).toBe(2);
+    expect(getSharedAddresses(repaired!)).toEqual([friend]);
+    expect(lighthouse.calls.upload).toBe(uploads);
+    expect(await readAll(await agentService.download(chain.owner, cid))).toEqual(agentBytes);
+    expect(await readAll(await agentService.download(chain.friend, cid))).toEqual(agentBytes);
+  });
+
+  it('recovers the key on a device with no local record after the key was rotated', async () => {
+    const rentAgent = await useRentAgent();
+    const friend = (await chain.friend.getAddress()).toLowerCase();
+    const renter = (await chain.renter.getAddress()).toLowerCase();
+    const { cid } = await agentService.upload(chain.owner, agentFile(), { title: 'Rotated agent', tierPrices: ['0.01', '', ''] });
+    await agentService.shareMany(chain.owner, cid, [friend, renter]);
+    const { contentCid } = await agentService.revoke(chain.owner, cid, friend);
+    expect(await rentAgent.contentCids(cid)).toBe(contentCid);
+
+    // a fresh browser: no local record, upload job or remembered manifest
+    localStorage.clear();
+    setUploadJobStore(createMemoryJobStore());
+    await expect(agentService.recoverKey(chain.owner, 'bafy-unknown-agent')).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    await expect(agentService.recoverKey(chain.friend, cid)).rejects.toMatchObject({ code: 'AUTH' });
+
+    const recovered = await agentService.recoverKey(chain.owner, cid);
+    expect(recovered).toMatchObject({ cid, contentCid, title: 'Rotated agent', tierPrices: ['0.01', '', ''], litPersisted: true });
+    expect(getSharedAddresses(recovered!)).toEqual([renter]);
+    // the republished manifest keeps the metadata and shares, and replaces the old one on-chain
+    expect(await rentAgent.manifestCids(cid)).toBe(recovered!.manifestCid);
+    const manifest = manifestToUploadRecord(await fetchAgentManifest(recovered!.manifestCid!), recovered!.manifestCid!);
+    expect(manifest).toMatchObject({ cid, contentCid, title: 'Rotated agent' });
+    expect(getSharedAddresses(manifest)).toEqual([renter]);
+    expect(await readAll(await agentService.download(chain.owner, cid))).toEqual(agentBytes);
+    expect(await readAll(await agentService.download(chain.renter, cid))).toEqual(agentBytes);
+  });
+
+  it('resumes an upload interrupted after Lighthouse accepted the file', async () => {
+    // every state the job was saved in; any of them can be the last one before the tab closes
+    const saved: UploadJob[] = [];
+    const store = createMemoryJobStore();
+    setUploadJobStore({ ...store, put: async job => { saved.push({ ...job }); await store.put(job); } });
+    const { cid } = await agentService.upload(chain.owner, agentFile(), { title: 'Interrupted' });
+    const interrupted = saved.find(job => isStepDone(job, 'uploaded') && !isStepDone(job, 'key-persisted'))!;
+    expect(interrupted).toMatchObject({ status: 'running', cid, file: null });
+
+    // a fresh page load: the job store as it was at that point and no local record
+    const reopened = createMemoryJobStore();
+    await reopened.put(interrupted);
+    setUploadJobStore(reopened);
+    localStorage.removeItem('lighthouse_uploads');
+    const uploads = lighthouse.calls.upload;
+
+    expect(await agentService.resumeInterruptedUploads(chain.friend)).toEqual([]);
+    const [resumed] = await agentService.resumeInterruptedUploads(chain.owner);
+    expect(resumed).toMatchObject({ jobId: interrupted.id, cid, litError: null });
+    expect(lighthouse.calls.upload).toBe(uploads);
+    expect(await getUploadJob(interrupted.id)).toMatchObject({ status: 'done', completed: [...UPLOAD_JOB_STEPS] });
+    expect(loadLocalUploads()[0]).toMatchObject({ cid, title: 'Interrupted', litPersisted: true });
+    expect(await readAll(await agentService.download(chain.owner, cid))).toEqual(agentBytes);
+  });
+});
@@ -0,0 +1,38 @@
+// Local chain helpers for the Vitest suite: the deterministic `hardhat node` accounts and fresh RentAgent /
+// MockERC20 deployments per test, built from the compiled Hardhat artifacts.
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { ethers } from 'ethers';
+import RentAgentArtifact from '../../artifacts/contracts/RentAgent.sol/RentAgent.json';
+
+// Test contracts' artifacts aren't committed; `npm test` compiles them first (see the pretest script)
+const MockERC20Artifact = JSON.parse(readFileSync(path.join(process.cwd(), 'artifacts/contracts/test/MockERC20.sol/MockERC20.json'), 'utf8'));
+
+export const TIER = { Hourly: 0, Daily: 1, Monthly: 2 } as const;
+
+export const TIER_PRICES: [bigint, bigint, bigint] = [
+  ethers.parseEther('0.01'),
+  ethers.parseEther('0.1'),
+  ethers.parseEther('1'),
+];
+
+export const connectLocalChain = async (rpcUrl: string) => {
+  const provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true, pollingInterval: 100 });
+  // NonceManager: tests send transactions back to back without waiting for the provider's nonce cache
+  const [deployer, owner, friend, renter] = await Promise.all([0, 1, 2, 3].map(async i => new ethers.NonceManager(await provider.getSigner(i))));
+  return { provider, deployer, owner, friend, renter };
+};
+
+export const deployRentAgent = async (deployer: ethers.Signer) => {
+  const factory = new ethers.ContractFactory(RentAgentArtifact.abi, RentAgentArtifact.bytecode, deployer);
+  const contract = await factory.deploy();
+  await contract.waitForDeployment();
+  return { rentAgent: contract as ethers.Contract, address: await contract.getAddress() };
+};
+
+export const deployMockERC20 = async (deployer: ethers.Signer, symbol = 'MOCK', decimals = 18) => {
+  const factory = new ethers.ContractFactory(MockERC20Artifact.abi, MockERC20Artifact.bytecode, deployer);
+  const contract = await factory.deploy(`Mock ${symbol}`, symbol, decimals);
+  await contract.waitForDeployment();
+  return { token: contract as ethers.Contract, address: await contract.getAddress() };
+};
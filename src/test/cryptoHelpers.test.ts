@@ -0,0 +1,92 @@
+// Chunked payload format: encryptChunked output decrypted through createDecryptionStream, the path every
+// download of a chunked upload takes, and the tampering the per-chunk additional data has to catch.
+import { describe, expect, it } from 'vitest';
+import { createDecryptionStream, encryptChunked, importAesKey, isChunkedPayload, type DecryptProgress } from '../lib/cryptoHelpers';
+import { DecryptionError } from '../lib/errors';
+
+const CHUNK_SIZE = 64;
+const HEADER_LENGTH = 17;
+const RECORD_OVERHEAD = 12 + 16; // IV + GCM tag
+
+// hex, like the master keys Kavach generates for Lighthouse
+const symmetricKey = Array.from(crypto.getRandomValues(new Uint8Array(32)), b => b.toString(16).padStart(2, '0')).join('');
+
+const plaintextOf = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31) % 251);
+
+const encrypt = async (plaintext: Uint8Array) =>
+  new Uint8Array(await (await encryptChunked(new Blob([plaintext as Uint8Array<ArrayBuffer>]), symmetricKey, CHUNK_SIZE)).arrayBuffer());
+
+// Feed `bytes` in `pieceSize` slices, the way a gateway response arrives, and collect the plaintext
+const decrypt = async (bytes: Uint8Array, pieceSize = 7, onProgress?: (progress: DecryptProgress) => void) => {
+  let offset = 0;
+  const source = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) return controller.close();
+      controller.enqueue(bytes.slice(offset, offset + pieceSize));
+      offset += pieceSize;
+    },
+  });
+  const stream = source.pipeThrough(createDecryptionStream(await importAesKey(symmetricKey), onProgress));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// [start, end) of each encrypted chunk record in a payload of `plaintextLength` bytes
+const recordRanges = (plaintextLength: number) => {
+  const ranges: [number, number][] = [];
+  let start = HEADER_LENGTH;
+  for (let left = plaintextLength; ranges.length === 0 || left > 0; left -= CHUNK_SIZE) {
+    const end = start + Math.min(left, CHUNK_SIZE) + RECORD_OVERHEAD;
+    ranges.push([start, end]);
+    start = end;
+  }
+  return ranges;
+};
+
+describe('chunked encryption', () => {
+  it('round-trips through the decryption stream for every chunk boundary', async () => {
+    for (const length of [0, 1, CHUNK_SIZE - 1, CHUNK_SIZE, 3 * CHUNK_SIZE + 5]) {
+      const plaintext = plaintextOf(length);
+      const encrypted = await encrypt(plaintext);
+      expect(isChunkedPayload(encrypted)).toBe(true);
+      expect(encrypted.length).toBe(recordRanges(length).at(-1)![1]);
+
+      const progress: DecryptProgress[] = [];
+      expect(await decrypt(encrypted, 7, p => progress.push(p))).toEqual(plaintext);
+      expect(await decrypt(encrypted, encrypted.length)).toEqual(plaintext);
+      expect(progress.at(-1)).toEqual({ loaded: length, total: length });
+    }
+  });
+
+  it('rejects a payload truncated at or inside a chunk', async () => {
+    const encrypted = await encrypt(plaintextOf(3 * CHUNK_SIZE + 5));
+    const [, , third] = recordRanges(3 * CHUNK_SIZE + 5);
+
+    await expect(decrypt(encrypted.slice(0, third[1]))).rejects.toThrow(/truncated after 3 of 4 chunks/);
+    await expect(decrypt(encrypted.slice(0, third[1] + 10))).rejects.toThrow(/truncated after 3 of 4 chunks/);
+    await expect(decrypt(encrypted.slice(0, HEADER_LENGTH - 1))).rejects.toBeInstanceOf(DecryptionError);
+  });
+
+  it('rejects reordered and dropped chunks', async () => {
+    const length = 3 * CHUNK_SIZE;
+    const encrypted = await encrypt(plaintextOf(length));
+    const records = recordRanges(length).map(([start, end]) => encrypted.slice(start, end));
+    const assemble = (parts: Uint8Array[]) => new Uint8Array(parts.flatMap(p => [...p]));
+    const header = encrypted.slice(0, HEADER_LENGTH);
+
+    // full-size chunks swap cleanly, so only the chunk index in the additional data gives them away
+    await expect(decrypt(assemble([header, records[1], records[0], records[2]]))).rejects.toThrow(/chunk 1 of 3/);
+    // the last full chunk can't pose as the final one either
+    await expect(decrypt(assemble([header, records[0], records[2], records[1]]))).rejects.toThrow(/chunk 2 of 3/);
+    // a header claiming fewer chunks makes the real last chunk fail its final flag
+    const shortened = header.slice();
+    new DataView(shortened.buffer).setBigUint64(9, BigInt(2 * CHUNK_SIZE));
+    await expect(decrypt(assemble([shortened, records[0], records[1]]))).rejects.toBeInstanceOf(DecryptionError);
+  });
+
+  it('rejects the wrong key', async () => {
+    const encrypted = await encrypt(plaintextOf(10));
+    const other = await importAesKey(btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32)))));
+    const stream = new Blob([encrypted as Uint8Array<ArrayBuffer>]).stream().pipeThrough(createDecryptionStream(other));
+    await expect(new Response(stream).arrayBuffer()).rejects.toBeInstanceOf(DecryptionError);
+  });
+});
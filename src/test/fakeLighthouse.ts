@@ -0,0 +1,210 @@
+// In-memory stand-in for @lighthouse-web3/sdk plus the IPFS gateways in front of it. `uploadEncrypted`
+// encrypts with the legacy single-shot format cryptoHelpers decrypts ([IV][ciphertext+tag]); `upload` stores
+// bytes as given, and the Kavach calls attach a key to them the way Lighthouse's key shards do. Files are
+// stored under a CIDv1 raw-leaf CID, and `fetch` serves them as CAR files so downloads go through the real
+// CID verifier.
+// Signatures are checked against the auth message last issued to the address, as the Lighthouse API does.
+import { ethers } from 'ethers';
+import type lighthouse from '@lighthouse-web3/sdk';
+import type { LighthouseClient } from '../lib/lighthouseClient';
+
+type StoredFile = {
+  name: string;
+  bytes: Uint8Array; // what IPFS serves: the encrypted payload, or plain text for uploadText
+  owner: string | null;
+  key: string | null; // base64 AES-GCM key; null for unencrypted uploads
+};
+
+const CODEC_RAW = 0x55;
+const SHA2_256 = 0x12;
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+const toBase32 = (bytes: Uint8Array) => {
+  let out = '';
+  let bits = 0;
+  let value = 0;
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+};
+
+const varint = (n: number) => {
+  const out: number[] = [];
+  while (n >= 0x80) {
+    out.push((n & 0x7f) | 0x80);
+    n = Math.floor(n / 128);
+  }
+  out.push(n);
+  return Uint8Array.from(out);
+};
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const rawCid = async (bytes: Uint8Array) => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>));
+  const binary = concat(Uint8Array.of(0x01, CODEC_RAW, SHA2_256, digest.length), digest);
+  return { binary, text: `b${toBase32(binary)}` };
+};
+
+// CARv1 with a single raw block. The header is never trusted by the verifier, so a minimal
+// dag-cbor map ({ version: 1, roots: [] }) is enough.
+const buildCar = (cidBytes: Uint8Array, block: Uint8Array) => {
+  const header = Uint8Array.of(0xa2, 0x65, ...new TextEncoder().encode('roots'), 0x80, 0x67, ...new TextEncoder().encode('version'), 0x01);
+  const section = concat(cidBytes, block);
+  return concat(varint(header.length), header, varint(section.length), section);
+};
+
+const encryptLegacy = async (plaintext: Uint8Array) => {
+  const rawKey = crypto.getRandomValues(new Uint8Array(32));
+  const key = await crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext as Uint8Array<ArrayBuffer>));
+  return { key: toBase64(rawKey), bytes: concat(iv, ciphertext) };
+};
+
+export type FakeLighthouse = LighthouseClient & {
+  uploadEncrypted: typeof lighthouse.uploadEncrypted;
+  // gateway `fetch` replacement: serves `/ipfs/<cid>` as a CAR, 404 for anything else
+  fetch: typeof fetch;
+  // let `address` fetch the key of `cid`, like lighthouse.shareFile
+  shareFile: (cid: string, address: string) => void;
+  files: Map<string, StoredFile>;
+  calls: { upload: number; uploadEncrypted: number; saveShards: number; fetchEncryptionKey: number; uploadText: number };
+};
+
+export const createFakeLighthouse = (opts: { apiKey?: string } = {}): FakeLighthouse => {
+  const apiKey = opts.apiKey ?? 'fake-lighthouse-api-key';
+  const files = new Map<string, StoredFile>();
+  const shares = new Map<string, Set<string>>();
+  const issuedMessages = new Map<string, string>();
+  const calls = { upload: 0, uploadEncrypted: 0, saveShards: 0, fetchEncryptionKey: 0, uploadText: 0 };
+  let nonce = 0;
+
+  const requireSignature = (publicKey: string, signedMessage: string) => {
+    const address = publicKey.toLowerCase();
+    const message = issuedMessages.get(address);
+    if (!message) throw new Error(`Lighthouse: no auth message issued for ${publicKey}`);
+    if (ethers.verifyMessage(message, signedMessage).toLowerCase() !== address) {
+      throw Object.assign(new Error(`Lighthouse: signature does not match ${publicKey}`), { statusCode: 406 });
+    }
+    return address;
+  };
+
+  const requireApiKey = (key: string) => {
+    if (key !== apiKey) throw Object.assign(new Error('Lighthouse: invalid API key'), { statusCode: 401 });
+  };
+
+  const store = async (file: StoredFile) => {
+    const cid = await rawCid(file.bytes);
+    files.set(cid.text, file);
+    return { Name: file.name, Hash: cid.text, Size: String(file.bytes.length) };
+  };
+
+  // the SDK's own encrypted upload, which older versions of the app used; tests use it for legacy payloads
+  const uploadEncrypted = async (input: unknown, key: string, publicKey: string, signedMessage: string, _cidVersion?: number, onProgress?: (data: { progress: number }) => void) => {
+    calls.uploadEncrypted++;
+    requireApiKey(key);
+    const owner = requireSignature(publicKey, signedMessage);
+    const list = (Array.isArray(input) ? input : [input]) as Blob[];
+    // the browser SDK reports XHR upload progress as a fraction of the request body
+    if (onProgress) [0.25, 0.5, 0.75, 1].forEach(progress => onProgress({ progress }));
+    const data = [];
+    for (const file of list) {
+      const encrypted = await encryptLegacy(new Uint8Array(await file.arrayBuffer()));
+      data.push(await store({ name: (file as File).name || 'file', bytes: encrypted.bytes, owner, key: encrypted.key }));
+    }
+    return { data };
+  };
+
+  const client: LighthouseClient = {
+    getAuthMessage: async (publicKey: string) => {
+      const message = `Please sign this message to prove you are owner of this account: fake-nonce-${++nonce}`;
+      issuedMessages.set(publicKey.toLowerCase(), message);
+      return { data: { message } };
+    },
+    getApiKey: async (publicKey: string, signedMessage: string) => {
+      requireSignature(publicKey, signedMessage);
+      return { data: { apiKey } };
+    },
+    upload: async (input: unknown, key: string, _cidVersion?: number, onProgress?: (data: { progress: number }) => void) => {
+      calls.upload++;
+      requireApiKey(key);
+      const [file] = (Array.isArray(input) ? input : [input]) as Blob[];
+      if (onProgress) [0.25, 0.5, 0.75, 1].forEach(progress => onProgress({ progress }));
+      return { data: await store({ name: (file as File).name || 'file', bytes: new Uint8Array(await file.arrayBuffer()), owner: null, key: null }) };
+    },
+    // Real shards are BLS shares of the master key; here every shard carries the key itself
+    generate: async () => {
+      const masterKey = Array.from(crypto.getRandomValues(new Uint8Array(32)), b => b.toString(16).padStart(2, '0')).join('');
+      return { masterKey, keyShards: [1, 2, 3, 4, 5].map(i => ({ key: masterKey, index: String(i) })) };
+    },
+    saveShards: async (address: string, cid: string, authToken: string, keyShards: { key: string; index: string }[]) => {
+      calls.saveShards++;
+      let owner: string;
+      try {
+        owner = requireSignature(address, authToken);
+      } catch (e) {
+        return { isSuccess: false, error: (e as Error).message };
+      }
+      const file = files.get(cid);
+      if (!file || file.key) return { isSuccess: false, error: `Lighthouse: ${cid} can't take key shards` };
+      files.set(cid, { ...file, owner, key: keyShards[0].key });
+      return { isSuccess: true, error: null };
+    },
+    fetchEncryptionKey: async (cid: string, publicKey: string, signedMessage: string) => {
+      calls.fetchEncryptionKey++;
+      const address = requireSignature(publicKey, signedMessage);
+      const file = files.get(cid);
+      if (!file?.key) throw Object.assign(new Error(`Lighthouse: ${cid} is not an encrypted upload`), { statusCode: 404 });
+      if (file.owner !== address && !shares.get(cid)?.has(address)) {
+        throw Object.assign(new Error('Lighthouse: access denied'), { statusCode: 403 });
+      }
+      return { data: { key: file.key } };
+    },
+    uploadText: async (text: string, key: string, name?: string) => {
+      calls.uploadText++;
+      requireApiKey(key);
+      return { data: await store({ name: name || 'text', bytes: new TextEncoder().encode(text), owner: null, key: null }) };
+    },
+  };
+
+  const gatewayFetch = (async (input: RequestInfo | URL) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const match = /\/ipfs\/([a-z0-9]+)/i.exec(url);
+    const file = match && files.get(match[1]);
+    if (!file) return new Response('not found', { status: 404 });
+    const cid = await rawCid(file.bytes);
+    const car = buildCar(cid.binary, file.bytes);
+    return new Response(car as Uint8Array<ArrayBuffer>, { status: 200, headers: { 'content-type': 'application/vnd.ipld.car; version=1' } });
+  }) as typeof fetch;
+
+  return {
+    ...client,
+    uploadEncrypted,
+    fetch: gatewayFetch,
+    shareFile: (cid: string, address: string) => {
+      const set = shares.get(cid) ?? new Set<string>();
+      set.add(address.toLowerCase());
+      shares.set(cid, set);
+    },
+    files,
+    calls,
+  };
+};
@@ -0,0 +1,157 @@
+// In-memory stand-in for LitNodeClient. `encrypt` binds the data to its access control conditions and
+// `decrypt` only releases it when the conditions hold for the session's wallet: address conditions are
+// compared locally, contract conditions (RentAgent.isRenter) and token balance conditions (balanceOf) are
+// called on a real provider, typically a local Hardhat node. Session sigs carry the wallet's SIWE
+// signature, which `decrypt` verifies.
+import { ethers } from 'ethers';
+import { RecapSessionCapabilityObject } from '@lit-protocol/auth-helpers';
+import type { LitClient } from '../lib/litHelpers';
+
+type Condition = {
+  operator?: string;
+  conditionType?: string;
+  contractAddress?: string;
+  chain?: string;
+  standardContractType?: string;
+  method?: string;
+  parameters?: string[];
+  functionName?: string;
+  functionParams?: string[];
+  functionAbi?: ethers.JsonFragment;
+  returnValueTest?: { comparator: string; value: string };
+};
+
+type Sealed = { data: Uint8Array; conditionsJson: string };
+
+type SessionSig = { sig: string; derivedVia: string; signedMessage: string; address: string };
+
+export type FakeLit = LitClient & {
+  // number of times the wallet was asked to sign a session (authNeededCallback calls)
+  walletSignatures: number;
+  decryptCalls: number;
+  // expire every issued session, so the next decrypt is rejected as stale
+  expireSessions: () => void;
+};
+
+const FAKE_NODE = 'https://fake-lit-node.invalid';
+const BLOCKHASH = '0x8d4c0b1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c';
+
+const toHex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+const compare = (actual: string, test: { comparator: string; value: string }) => {
+  const expected = test.value.toLowerCase();
+  const value = actual.toLowerCase();
+  switch (test.comparator) {
+    case '=': return value === expected;
+    case '!=': return value !== expected;
+    case 'contains': return value.includes(expected);
+    // token balances: integer comparisons
+    case '>': return BigInt(value) > BigInt(expected);
+    case '>=': return BigInt(value) >= BigInt(expected);
+    default: throw new Error(`fake Lit: unsupported comparator ${test.comparator}`);
+  }
+};
+
+export const createFakeLit = (opts: { providers: Record<string, ethers.Provider> }): FakeLit => {
+  const sealed = new Map<string, Sealed>();
+  const issued: string[] = [];
+  const revokedSessions = new Set<string>();
+  let sessionCounter = 0;
+
+  const providerFor = (chain = '') => {
+    const provider = opts.providers[chain];
+    if (!provider) throw new Error(`fake Lit: no provider for chain "${chain}"`);
+    return provider;
+  };
+
+  const checkCondition = async (c: Condition, user: string) => {
+    const test = c.returnValueTest;
+    if (!test) throw new Error('fake Lit: condition without returnValueTest');
+    if (c.conditionType === 'evmContract' || c.functionName) {
+      const contract = new ethers.Contract(c.contractAddress!, [c.functionAbi!], providerFor(c.chain));
+      const params = (c.functionParams || []).map(p => (p === ':userAddress' ? user : p));
+      const result = await contract.getFunction(c.functionName!).staticCall(...params);
+      return compare(String(result), test);
+    }
+    if (c.standardContractType && c.method === 'balanceOf') {
+      const params = (c.parameters || []).map(p => (p === ':userAddress' ? user : p));
+      const abi = `function balanceOf(${params.length === 2 ? 'address, uint256' : 'address'}) view returns (uint256)`;
+      const balance = await new ethers.Contract(c.contractAddress!, [abi], providerFor(c.chain)).balanceOf(...params);
+      return compare(String(balance), test);
+    }
+    if (c.parameters?.[0] === ':userAddress' && !c.method) return compare(user, test);
+    throw new Error('fake Lit: unsupported condition');
+  };
+
+  // Conditions joined by { operator: 'or' | 'and' }, evaluated left to right like the Lit nodes
+  const evaluate = async (conditions: Condition[], user: string) => {
+    let result: boolean | null = null;
+    let pending: string | null = null;
+    for (const c of conditions) {
+      if (c.operator) {
+        pending = c.operator;
+        continue;
+      }
+      const ok = await checkCondition(c, user);
+      result = result === null ? ok : pending === 'and' ? result && ok : result || ok;
+    }
+    return result === true;
+  };
+
+  // The wallet address a session was created for, after verifying its SIWE signature and expiry
+  const sessionAddress = (sessionSigs: unknown) => {
+    const sig = (sessionSigs as Record<string, SessionSig> | undefined)?.[FAKE_NODE];
+    if (!sig) throw new Error('fake Lit: missing session sigs');
+    if (revokedSessions.has(sig.sig)) throw new Error('fake Lit: session expired (invalid_session)');
+    const recovered = ethers.verifyMessage(sig.signedMessage, sig.sig);
+    if (recovered.toLowerCase() !== sig.address.toLowerCase()) throw new Error('fake Lit: session signature mismatch');
+    const expiry = /Expiration Time: (.+)/.exec(sig.signedMessage)?.[1];
+    if (expiry && Date.parse(expiry) < Date.now()) throw new Error('fake Lit: session expired');
+    return recovered.toLowerCase();
+  };
+
+  const fake: FakeLit = {
+    walletSignatures: 0,
+    decryptCalls: 0,
+    expireSessions: () => {
+      issued.forEach(sig => revokedSessions.add(sig));
+    },
+    encrypt: async params => {
+      const data = params.dataToEncrypt as Uint8Array;
+      const conditions = params.unifiedAccessControlConditions ?? params.accessControlConditions;
+      const id = crypto.getRandomValues(new Uint8Array(16));
+      const ciphertext = btoa(String.fromCharCode(...id));
+      const dataToEncryptHash = toHex(await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>));
+      sealed.set(ciphertext, { data: new Uint8Array(data), conditionsJson: JSON.stringify(conditions) });
+      return { ciphertext, dataToEncryptHash };
+    },
+    decrypt: async params => {
+      fake.decryptCalls++;
+      const entry = sealed.get(params.ciphertext as string);
+      if (!entry) throw new Error('fake Lit: unknown ciphertext');
+      const conditions = params.unifiedAccessControlConditions ?? params.accessControlConditions;
+      // the real network hashes the conditions into the key identity, so different conditions can't decrypt
+      if (JSON.stringify(conditions) !== entry.conditionsJson) throw new Error('fake Lit: access control conditions do not match the ciphertext');
+      const user = sessionAddress(params.sessionSigs);
+      if (!(await evaluate(conditions as Condition[], user))) {
+        throw new Error('NodeAccessControlConditionsReturnedNotAuthorized: not authorized');
+      }
+      return { decryptedData: entry.data };
+    },
+    getSessionSigs: async params => {
+      const callback = params.authNeededCallback as (p: { uri: string; expiration: string; resourceAbilityRequests: unknown[] }) => Promise<SessionSig>;
+      fake.walletSignatures++;
+      const authSig = await callback({
+        uri: `lit:session:fake-${++sessionCounter}`,
+        expiration: params.expiration as string,
+        resourceAbilityRequests: params.resourceAbilityRequests as unknown[],
+      });
+      issued.push(authSig.sig);
+      return { [FAKE_NODE]: authSig };
+    },
+    getLatestBlockhash: async () => BLOCKHASH,
+    // same as LitNodeClient: an empty ReCap object the SIWE helper fills with the requested abilities
+    generateSessionCapabilityObjectWithWildcards: async () => new RecapSessionCapabilityObject({}, []),
+  };
+  return fake;
+};
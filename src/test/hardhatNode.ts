@@ -0,0 +1,55 @@
+// Vitest globalSetup: start a throwaway `hardhat node` for the suite and hand its RPC URL to the tests
+// through `inject('hardhatRpcUrl')`. Uses its own port so it never collides with `npm run node:local`.
+import { spawn } from 'node:child_process';
+import path from 'node:path';
+import type { TestProject } from 'vitest/node';
+
+const PORT = Number(process.env.TEST_HARDHAT_PORT || 8546);
+const RPC_URL = `http://127.0.0.1:${PORT}`;
+const STARTUP_TIMEOUT_MS = 60_000;
+const HARDHAT_BIN = path.join(process.cwd(), 'node_modules', '.bin', 'hardhat');
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    hardhatRpcUrl: string;
+  }
+}
+
+const isReady = async () => {
+  try {
+    const res = await fetch(RPC_URL, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+};
+
+export default async function setup(project: TestProject) {
+  // run the Hardhat binary itself (not through npx) so killing `node` stops the server rather than a wrapper
+  const node = spawn(HARDHAT_BIN, ['node', '--hostname', '127.0.0.1', '--port', String(PORT)], {
+    stdio: ['ignore', 'ignore', 'pipe'],
+  });
+  let stderr = '';
+  node.stderr?.on('data', chunk => {
+    stderr += String(chunk);
+  });
+
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (!(await isReady())) {
+    if (node.exitCode !== null || Date.now() > deadline) {
+      node.kill();
+      throw new Error(`[hardhatNode] hardhat node did not start on ${RPC_URL}\n${stderr}`);
+    }
+    await new Promise(r => setTimeout(r, 500));
+  }
+  console.debug('[hardhatNode] ready', { rpcUrl: RPC_URL, pid: node.pid });
+  project.provide('hardhatRpcUrl', RPC_URL);
+
+  return () => {
+    node.kill();
+  };
+}
@@ -0,0 +1,33 @@
+// Per-test environment for the Vitest suite (runs in Node): an in-memory localStorage for the gateway
+// stats, and no leftover injected clients, deployments, upload jobs, stubbed globals or cached Lit sessions
+// between tests.
+import { afterEach, vi } from 'vitest';
+import { setRentAgentDeployments } from '../lib/config';
+import { setLighthouseClient } from '../lib/lighthouseClient';
+import { setLitClient } from '../lib/litHelpers';
+import { clearLitSession } from '../lib/litSession';
+import { setUploadJobStore } from '../lib/uploadJobs';
+
+const store = new Map<string, string>();
+const memoryStorage: Storage = {
+  get length() {
+    return store.size;
+  },
+  clear: () => store.clear(),
+  getItem: (key: string) => store.get(key) ?? null,
+  key: (index: number) => Array.from(store.keys())[index] ?? null,
+  removeItem: (key: string) => void store.delete(key),
+  setItem: (key: string, value: string) => void store.set(key, String(value)),
+};
+vi.stubGlobal('localStorage', memoryStorage);
+
+afterEach(() => {
+  store.clear();
+  setLighthouseClient(null);
+  setLitClient(null);
+  setRentAgentDeployments(null);
+  clearLitSession();
+  setUploadJobStore(null);
+  vi.unstubAllGlobals();
+  vi.stubGlobal('localStorage', memoryStorage);
+});
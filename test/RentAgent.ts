@@ -0,0 +1,532 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs';
+import { DEFAULT_TIER_PRICES, TIER, deployRentAgentFixture, listedAgentFixture, tokenAgentFixture } from './fixtures/rentAgent';
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+describe('RentAgent', () => {
+  describe('uploadAgent', () => {
+    it('registers the caller as uploader with per-tier prices', async () => {
+      const { rentAgent, uploader } = await loadFixture(deployRentAgentFixture);
+
+      await expect(rentAgent.connect(uploader).uploadAgent('bafy-a', DEFAULT_TIER_PRICES, ethers.ZeroAddress, []))
+        .to.emit(rentAgent, 'AgentUploaded')
+        .withArgs('bafy-a', uploader.address, DEFAULT_TIER_PRICES, ethers.ZeroAddress);
+
+      const agent = await rentAgent.agents('bafy-a');
+      expect(agent.uploader).to.equal(uploader.address);
+      expect(await rentAgent.getTierPrices('bafy-a')).to.deep.equal(DEFAULT_TIER_PRICES);
+    });
+
+    it('rejects an empty CID', async () => {
+      const { rentAgent, uploader } = await loadFixture(deployRentAgentFixture);
+      await expect(rentAgent.connect(uploader).uploadAgent('', DEFAULT_TIER_PRICES, ethers.ZeroAddress, [])).to.be.revertedWith('cid required');
+    });
+
+    it('requires at least one priced tier', async () => {
+      const { rentAgent, uploader } = await loadFixture(deployRentAgentFixture);
+      await expect(rentAgent.connect(uploader).uploadAgent('bafy-a', [0n, 0n, 0n], ethers.ZeroAddress, [])).to.be.revertedWith('at least one tier required');
+    });
+  });
+
+  describe('uploadGatedAgent', () => {
+    it('claims the CID without offering any tier', async () => {
+      const { rentAgent, uploader, renter } = await loadFixture(deployRentAgentFixture);
+
+      await expect(rentAgent.connect(uploader).uploadGatedAgent('bafy-gated'))
+        .to.emit(rentAgent, 'AgentUploaded')
+        .withArgs('bafy-gated', uploader.address, [0n, 0n, 0n], ethers.ZeroAddress);
+
+      expect((await rentAgent.agents('bafy-gated')).uploader).to.equal(uploader.address);
+      await expect(rentAgent.connect(uploader).updateManifest('bafy-gated', 'bafy-manifest')).to.not.be.reverted;
+      expect(await rentAgent.isAgentSubscriber('bafy-gated', uploader.address)).to.equal(true);
+      await expect(rentAgent.connect(renter).rentAgent('bafy-gated', TIER.Hourly, { value: 1n })).to.be.revertedWith('tier not offered');
+    });
+
+    it('rejects an empty CID and CIDs claimed by another account', async () => {
+      const { rentAgent, uploader, other, cid } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(uploader).uploadGatedAgent('')).to.be.revertedWith('cid required');
+      await expect(rentAgent.connect(other).uploadGatedAgent(cid)).to.be.revertedWith('cid already claimed');
+    });
+
+    it('lets the uploader stop offering rentals and price the agent again later', async () => {
+      const { rentAgent, uploader, renter, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(uploader).uploadGatedAgent(cid);
+      expect(await rentAgent.getTierPrices(cid)).to.deep.equal([0n, 0n, 0n]);
+
+      await rentAgent.connect(uploader).updatePrice(cid, DEFAULT_TIER_PRICES);
+      await expect(rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: DEFAULT_TIER_PRICES[TIER.Hourly] })).to.not.be.reverted;
+    });
+  });
+
+  describe('rentAgent', () => {
+    it('rejects unknown agents', async () => {
+      const { rentAgent, renter } = await loadFixture(deployRentAgentFixture);
+      await expect(rentAgent.connect(renter).rentAgent('bafy-missing', TIER.Hourly, { value: 1n })).to.be.revertedWith('agent not found');
+    });
+
+    it('rejects tiers the uploader does not offer', async () => {
+      const { rentAgent, uploader, renter } = await loadFixture(deployRentAgentFixture);
+      await rentAgent.connect(uploader).uploadAgent('bafy-daily-only', [0n, DEFAULT_TIER_PRICES[1], 0n], ethers.ZeroAddress, []);
+      await expect(rentAgent.connect(renter).rentAgent('bafy-daily-only', TIER.Hourly, { value: DEFAULT_TIER_PRICES[0] }))
+        .to.be.revertedWith('tier not offered');
+    });
+
+    it('rejects underpayment', async () => {
+      const { rentAgent, renter, cid } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(renter).rentAgent(cid, TIER.Daily, { value: DEFAULT_TIER_PRICES[1] - 1n }))
+        .to.be.revertedWith('insufficient payment');
+    });
+
+    it('holds the payment in escrow and credits the uploader', async () => {
+      const { rentAgent, uploader, renter, cid } = await loadFixture(listedAgentFixture);
+      const price = DEFAULT_TIER_PRICES[TIER.Hourly];
+
+      await expect(rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: price }))
+        .to.changeEtherBalances([renter, uploader, rentAgent], [-price, 0n, price]);
+      expect(await rentAgent.balances(uploader.address)).to.equal(price);
+    });
+
+    it('refunds overpayment to the renter', async () => {
+      const { rentAgent, uploader, renter, cid } = await loadFixture(listedAgentFixture);
+      const price = DEFAULT_TIER_PRICES[TIER.Hourly];
+
+      await expect(rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: price * 3n }))
+        .to.changeEtherBalances([renter, rentAgent], [-price, price]);
+      expect(await rentAgent.balances(uploader.address)).to.equal(price);
+    });
+
+    it('keeps renting when the uploader cannot receive ETH', async () => {
+      const { rentAgent, renter } = await loadFixture(deployRentAgentFixture);
+      const uploaderContract = await (await ethers.getContractFactory('RevertingUploader')).deploy();
+      const rentAgentAddress = await rentAgent.getAddress();
+      await uploaderContract.upload(rentAgentAddress, 'bafy-contract', DEFAULT_TIER_PRICES);
+
+      await expect(rentAgent.connect(renter).rentAgent('bafy-contract', TIER.Hourly, { value: DEFAULT_TIER_PRICES[TIER.Hourly] })).to.not.be.reverted;
+      expect(await rentAgent.balances(await uploaderContract.getAddress())).to.equal(DEFAULT_TIER_PRICES[TIER.Hourly]);
+      await expect(uploaderContract.withdrawFrom(rentAgentAddress)).to.be.revertedWith('withdraw failed');
+    });
+
+    it('emits AgentRented with the tier and expiry', async () => {
+      const { rentAgent, renter, cid } = await loadFixture(listedAgentFixture);
+      const tx = rentAgent.connect(renter).rentAgent(cid, TIER.Daily, { value: DEFAULT_TIER_PRICES[TIER.Daily] });
+
+      await expect(tx)
+        .to.emit(rentAgent, 'AgentRented')
+        .withArgs(cid, renter.address, DEFAULT_TIER_PRICES[TIER.Daily], TIER.Daily, anyValue);
+      expect(await rentAgent.rentals(cid, renter.address)).to.equal(BigInt((await time.latest()) + DAY));
+    });
+  });
+
+  describe('isRenter', () => {
+    it('is false before renting', async () => {
+      const { rentAgent, renter, cid } = await loadFixture(listedAgentFixture);
+      expect(await rentAgent.isRenter(cid, renter.address)).to.equal(false);
+    });
+
+    it('is always true for the current owner', async () => {
+      const { rentAgent, uploader, cid } = await loadFixture(listedAgentFixture);
+      expect(await rentAgent.isRenter(cid, uploader.address)).to.equal(true);
+      expect(await rentAgent.isRenter('bafy-missing', ethers.ZeroAddress)).to.equal(false);
+    });
+
+    it('expires after the rented duration', async () => {
+      const { rentAgent, renter, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: DEFAULT_TIER_PRICES[TIER.Hourly] });
+      expect(await rentAgent.isRenter(cid, renter.address)).to.equal(true);
+
+      await time.increase(HOUR - 10);
+      expect(await rentAgent.isRenter(cid, renter.address)).to.equal(true);
+
+      await time.increase(11);
+      expect(await rentAgent.isRenter(cid, renter.address)).to.equal(false);
+    });
+
+    it('extends an unexpired rental instead of resetting it', async () => {
+      const { rentAgent, renter, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: DEFAULT_TIER_PRICES[TIER.Hourly] });
+      const firstExpiry = await rentAgent.rentals(cid, renter.address);
+
+      await time.increase(HOUR / 2);
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Daily, { value: DEFAULT_TIER_PRICES[TIER.Daily] });
+      expect(await rentAgent.rentals(cid, renter.address)).to.equal(firstExpiry + BigInt(DAY));
+    });
+
+    it('starts a fresh period once the previous rental lapsed', async () => {
+      const { rentAgent, renter, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: DEFAULT_TIER_PRICES[TIER.Hourly] });
+      await time.increase(2 * HOUR);
+
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: DEFAULT_TIER_PRICES[TIER.Hourly] });
+      expect(await rentAgent.rentals(cid, renter.address)).to.equal(BigInt((await time.latest()) + HOUR));
+    });
+
+    it('is scoped to the renter and the CID', async () => {
+      const { rentAgent, uploader, renter, other, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(uploader).uploadAgent('bafy-other', DEFAULT_TIER_PRICES, ethers.ZeroAddress, []);
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: DEFAULT_TIER_PRICES[TIER.Hourly] });
+
+      expect(await rentAgent.isRenter(cid, other.address)).to.equal(false);
+      expect(await rentAgent.isRenter('bafy-other', renter.address)).to.equal(false);
+    });
+  });
+
+  describe('re-registration', () => {
+    it('lets the uploader re-list a CID with new prices', async () => {
+      const { rentAgent, uploader, cid } = await loadFixture(listedAgentFixture);
+      const newPrices: [bigint, bigint, bigint] = [0n, ethers.parseEther('0.5'), 0n];
+
+      await rentAgent.connect(uploader).uploadAgent(cid, newPrices, ethers.ZeroAddress, []);
+      expect(await rentAgent.getTierPrices(cid)).to.deep.equal(newPrices);
+    });
+
+    it('rejects another account claiming an existing CID', async () => {
+      const { rentAgent, uploader, other, cid } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(other).uploadAgent(cid, [1n, 0n, 0n], ethers.ZeroAddress, [])).to.be.revertedWith('cid already claimed');
+      expect((await rentAgent.agents(cid)).uploader).to.equal(uploader.address);
+    });
+
+    it('keeps a delisted CID claimed and lets the uploader re-list it', async () => {
+      const { rentAgent, uploader, other, renter, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(uploader).delistAgent(cid);
+      await expect(rentAgent.connect(other).uploadAgent(cid, [1n, 0n, 0n], ethers.ZeroAddress, [])).to.be.revertedWith('cid already claimed');
+
+      await rentAgent.connect(uploader).uploadAgent(cid, DEFAULT_TIER_PRICES, ethers.ZeroAddress, []);
+      expect((await rentAgent.agents(cid)).listed).to.equal(true);
+      await expect(rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: DEFAULT_TIER_PRICES[TIER.Hourly] })).to.not.be.reverted;
+    });
+  });
+
+  describe('updateContent', () => {
+    it('re-points the agent at a new payload without touching its rentals', async () => {
+      const { rentAgent, uploader, renter, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Daily, { value: DEFAULT_TIER_PRICES[TIER.Daily] });
+      expect(await rentAgent.contentCids(cid)).to.equal('');
+
+      await expect(rentAgent.connect(uploader).updateContent(cid, 'bafy-rotated'))
+        .to.emit(rentAgent, 'AgentContentUpdated')
+        .withArgs(cid, uploader.address, 'bafy-rotated');
+      expect(await rentAgent.contentCids(cid)).to.equal('bafy-rotated');
+      expect(await rentAgent.isRenter(cid, renter.address)).to.equal(true);
+    });
+
+    it('rejects anyone but the uploader and an empty content CID', async () => {
+      const { rentAgent, uploader, other, cid } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(other).updateContent(cid, 'bafy-rotated')).to.be.revertedWith('not agent owner');
+      await expect(rentAgent.connect(uploader).updateContent(cid, '')).to.be.revertedWith('content cid required');
+      await expect(rentAgent.connect(uploader).updateContent('bafy-unknown', 'bafy-rotated')).to.be.revertedWith('agent not found');
+    });
+  });
+
+  describe('updateManifest', () => {
+    it('records the latest manifest CID', async () => {
+      const { rentAgent, uploader, cid } = await loadFixture(listedAgentFixture);
+      expect(await rentAgent.manifestCids(cid)).to.equal('');
+
+      await expect(rentAgent.connect(uploader).updateManifest(cid, 'bafy-manifest'))
+        .to.emit(rentAgent, 'AgentManifestUpdated')
+        .withArgs(cid, uploader.address, 'bafy-manifest');
+      await rentAgent.connect(uploader).updateManifest(cid, 'bafy-manifest-2');
+      expect(await rentAgent.manifestCids(cid)).to.equal('bafy-manifest-2');
+    });
+
+    it('rejects anyone but the uploader and an empty manifest CID', async () => {
+      const { rentAgent, uploader, other, cid } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(other).updateManifest(cid, 'bafy-manifest')).to.be.revertedWith('not agent owner');
+      await expect(rentAgent.connect(uploader).updateManifest(cid, '')).to.be.revertedWith('manifest cid required');
+      await expect(rentAgent.connect(uploader).updateManifest('bafy-unknown', 'bafy-manifest')).to.be.revertedWith('agent not found');
+    });
+  });
+
+  describe('updatePrice', () => {
+    it('updates tier prices for the uploader', async () => {
+      const { rentAgent, uploader, cid } = await loadFixture(listedAgentFixture);
+      const newPrices: [bigint, bigint, bigint] = [ethers.parseEther('0.02'), 0n, 0n];
+
+      await expect(rentAgent.connect(uploader).updatePrice(cid, newPrices))
+        .to.emit(rentAgent, 'AgentPriceUpdated')
+        .withArgs(cid, uploader.address, newPrices);
+      expect(await rentAgent.getTierPrices(cid)).to.deep.equal(newPrices);
+    });
+
+    it('rejects anyone but the uploader', async () => {
+      const { rentAgent, other, cid } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(other).updatePrice(cid, [1n, 0n, 0n])).to.be.revertedWith('not agent owner');
+    });
+
+    it('rejects unknown agents and all-zero prices', async () => {
+      const { rentAgent, uploader, cid } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(uploader).updatePrice('bafy-missing', [1n, 0n, 0n])).to.be.revertedWith('agent not found');
+      await expect(rentAgent.connect(uploader).updatePrice(cid, [0n, 0n, 0n])).to.be.revertedWith('at least one tier required');
+    });
+  });
+
+  describe('delistAgent', () => {
+    it('blocks new rentals but keeps existing ones until expiry', async () => {
+      const { rentAgent, uploader, renter, other, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: DEFAULT_TIER_PRICES[TIER.Hourly] });
+
+      await expect(rentAgent.connect(uploader).delistAgent(cid))
+        .to.emit(rentAgent, 'AgentDelisted')
+        .withArgs(cid, uploader.address);
+      await expect(rentAgent.connect(other).rentAgent(cid, TIER.Hourly, { value: DEFAULT_TIER_PRICES[TIER.Hourly] }))
+        .to.be.revertedWith('agent delisted');
+      expect(await rentAgent.isRenter(cid, renter.address)).to.equal(true);
+
+      await time.increase(HOUR);
+      expect(await rentAgent.isRenter(cid, renter.address)).to.equal(false);
+    });
+
+    it('rejects anyone but the uploader', async () => {
+      const { rentAgent, other, cid } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(other).delistAgent(cid)).to.be.revertedWith('not agent owner');
+    });
+  });
+
+  describe('transferAgentOwnership', () => {
+    it('moves ownership, payments and owner access to the new owner', async () => {
+      const { rentAgent, uploader, renter, other, cid } = await loadFixture(listedAgentFixture);
+      const price = DEFAULT_TIER_PRICES[TIER.Hourly];
+
+      await expect(rentAgent.connect(uploader).transferAgentOwnership(cid, other.address))
+        .to.emit(rentAgent, 'AgentOwnershipTransferred')
+        .withArgs(cid, uploader.address, other.address);
+
+      expect(await rentAgent.isRenter(cid, other.address)).to.equal(true);
+      expect(await rentAgent.isRenter(cid, uploader.address)).to.equal(false);
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: price });
+      expect(await rentAgent.balances(uploader.address)).to.equal(0n);
+      expect(await rentAgent.balances(other.address)).to.equal(price);
+      await expect(rentAgent.connect(uploader).updatePrice(cid, [1n, 0n, 0n])).to.be.revertedWith('not agent owner');
+    });
+
+    it('rejects the zero address and non-owners', async () => {
+      const { rentAgent, uploader, other, cid } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(uploader).transferAgentOwnership(cid, ethers.ZeroAddress)).to.be.revertedWith('new owner required');
+      await expect(rentAgent.connect(other).transferAgentOwnership(cid, other.address)).to.be.revertedWith('not agent owner');
+    });
+  });
+
+  describe('withdraw', () => {
+    it('pays out the accrued balance once', async () => {
+      const { rentAgent, uploader, renter, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: DEFAULT_TIER_PRICES[TIER.Hourly] });
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Daily, { value: DEFAULT_TIER_PRICES[TIER.Daily] });
+      const owed = DEFAULT_TIER_PRICES[TIER.Hourly] + DEFAULT_TIER_PRICES[TIER.Daily];
+
+      const tx = rentAgent.connect(uploader).withdraw();
+      await expect(tx).to.changeEtherBalances([uploader, rentAgent], [owed, -owed]);
+      await expect(tx).to.emit(rentAgent, 'Withdrawn').withArgs(uploader.address, owed);
+      expect(await rentAgent.balances(uploader.address)).to.equal(0n);
+      await expect(rentAgent.connect(uploader).withdraw()).to.be.revertedWith('nothing to withdraw');
+    });
+
+    it('rejects accounts with no balance', async () => {
+      const { rentAgent, other } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(other).withdraw()).to.be.revertedWith('nothing to withdraw');
+    });
+  });
+
+  describe('platform fee', () => {
+    it('lets only the contract owner set a capped fee', async () => {
+      const { rentAgent, deployer, other } = await loadFixture(deployRentAgentFixture);
+      await expect(rentAgent.connect(deployer).setPlatformFee(250)).to.emit(rentAgent, 'PlatformFeeUpdated').withArgs(250);
+      expect(await rentAgent.platformFeeBps()).to.equal(250n);
+
+      await expect(rentAgent.connect(other).setPlatformFee(100)).to.be.revertedWith('not contract owner');
+      await expect(rentAgent.connect(deployer).setPlatformFee(1001)).to.be.revertedWith('fee too high');
+    });
+
+    it('credits the fee to the contract owner and the rest to the uploader', async () => {
+      const { rentAgent, deployer, uploader, renter, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(deployer).setPlatformFee(500);
+      const price = DEFAULT_TIER_PRICES[TIER.Daily];
+
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Daily, { value: price });
+      const fee = (price * 500n) / 10_000n;
+      expect(await rentAgent.balances(deployer.address)).to.equal(fee);
+      expect(await rentAgent.balances(uploader.address)).to.equal(price - fee);
+    });
+  });
+
+  describe('revenue splits', () => {
+    it('splits proceeds after the platform fee and gives the remainder to the uploader', async () => {
+      const { rentAgent, deployer, uploader, renter, other, collaborator } = await loadFixture(deployRentAgentFixture);
+      await rentAgent.connect(deployer).setPlatformFee(1000);
+      const splits = [
+        { recipient: collaborator.address, shareBps: 3000n },
+        { recipient: other.address, shareBps: 1500n },
+      ];
+      await expect(rentAgent.connect(uploader).uploadAgent('bafy-split', DEFAULT_TIER_PRICES, ethers.ZeroAddress, splits)).to.emit(rentAgent, 'AgentSplitsSet');
+      expect((await rentAgent.getSplits('bafy-split')).map(s => [s.recipient, s.shareBps])).to.deep.equal(splits.map(s => [s.recipient, s.shareBps]));
+
+      const price = DEFAULT_TIER_PRICES[TIER.Monthly];
+      await rentAgent.connect(renter).rentAgent('bafy-split', TIER.Monthly, { value: price });
+
+      const fee = price / 10n;
+      const proceeds = price - fee;
+      const toCollaborator = (proceeds * 3000n) / 10_000n;
+      const toOther = (proceeds * 1500n) / 10_000n;
+      expect(await rentAgent.balances(deployer.address)).to.equal(fee);
+      expect(await rentAgent.balances(collaborator.address)).to.equal(toCollaborator);
+      expect(await rentAgent.balances(other.address)).to.equal(toOther);
+      expect(await rentAgent.balances(uploader.address)).to.equal(proceeds - toCollaborator - toOther);
+      expect(await ethers.provider.getBalance(await rentAgent.getAddress())).to.equal(price);
+    });
+
+    it('replaces splits when the uploader re-lists', async () => {
+      const { rentAgent, uploader, collaborator, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(uploader).uploadAgent(cid, DEFAULT_TIER_PRICES, ethers.ZeroAddress, [{ recipient: collaborator.address, shareBps: 5000n }]);
+      await rentAgent.connect(uploader).uploadAgent(cid, DEFAULT_TIER_PRICES, ethers.ZeroAddress, []);
+      expect(await rentAgent.getSplits(cid)).to.have.length(0);
+    });
+
+    it('rejects invalid splits', async () => {
+      const { rentAgent, uploader, collaborator, other } = await loadFixture(deployRentAgentFixture);
+      const upload = (splits: { recipient: string; shareBps: bigint }[]) =>
+        rentAgent.connect(uploader).uploadAgent('bafy-bad', DEFAULT_TIER_PRICES, ethers.ZeroAddress, splits);
+
+      await expect(upload([{ recipient: collaborator.address, shareBps: 6000n }, { recipient: other.address, shareBps: 4001n }]))
+        .to.be.revertedWith('splits exceed 100%');
+      await expect(upload([{ recipient: ethers.ZeroAddress, shareBps: 100n }])).to.be.revertedWith('invalid split recipient');
+      await expect(upload([{ recipient: collaborator.address, shareBps: 0n }])).to.be.revertedWith('empty split share');
+      await expect(upload(Array.from({ length: 11 }, () => ({ recipient: collaborator.address, shareBps: 1n }))))
+        .to.be.revertedWith('too many splits');
+    });
+  });
+
+  describe('ERC-20 payments', () => {
+    it('only accepts whitelisted payment tokens', async () => {
+      const { rentAgent, deployer, uploader, other, token } = await loadFixture(tokenAgentFixture);
+      const tokenAddress = await token.getAddress();
+      await rentAgent.connect(deployer).setPaymentTokenAllowed(tokenAddress, false);
+
+      await expect(rentAgent.connect(uploader).uploadAgent('bafy-token-2', [1n, 0n, 0n], tokenAddress, []))
+        .to.be.revertedWith('payment token not allowed');
+      await expect(rentAgent.connect(other).setPaymentTokenAllowed(tokenAddress, true)).to.be.revertedWith('not contract owner');
+    });
+
+    it('pulls the exact price with transferFrom and credits token balances', async () => {
+      const { rentAgent, deployer, uploader, renter, token, cid, tokenPrices } = await loadFixture(tokenAgentFixture);
+      await rentAgent.connect(deployer).setPlatformFee(200);
+      const price = tokenPrices[TIER.Daily];
+      const tokenAddress = await token.getAddress();
+      await token.connect(renter).approve(await rentAgent.getAddress(), price);
+
+      await expect(rentAgent.connect(renter).rentAgent(cid, TIER.Daily))
+        .to.changeTokenBalances(token, [renter, rentAgent], [-price, price]);
+      const fee = (price * 200n) / 10_000n;
+      expect(await rentAgent.tokenBalances(tokenAddress, deployer.address)).to.equal(fee);
+      expect(await rentAgent.tokenBalances(tokenAddress, uploader.address)).to.equal(price - fee);
+      expect(await rentAgent.balances(uploader.address)).to.equal(0n);
+      expect(await rentAgent.isRenter(cid, renter.address)).to.equal(true);
+    });
+
+    it('requires an allowance and rejects ETH for token-priced agents', async () => {
+      const { rentAgent, renter, token, cid, tokenPrices } = await loadFixture(tokenAgentFixture);
+      await expect(rentAgent.connect(renter).rentAgent(cid, TIER.Hourly)).to.be.revertedWith('token transfer failed');
+
+      await token.connect(renter).approve(await rentAgent.getAddress(), tokenPrices[TIER.Hourly]);
+      await expect(rentAgent.connect(renter).rentAgent(cid, TIER.Hourly, { value: 1n })).to.be.revertedWith('agent is priced in tokens');
+    });
+
+    it('lets creators withdraw token earnings', async () => {
+      const { rentAgent, uploader, renter, token, cid, tokenPrices } = await loadFixture(tokenAgentFixture);
+      const price = tokenPrices[TIER.Hourly];
+      const tokenAddress = await token.getAddress();
+      await token.connect(renter).approve(await rentAgent.getAddress(), price);
+      await rentAgent.connect(renter).rentAgent(cid, TIER.Hourly);
+
+      const tx = rentAgent.connect(uploader).withdrawToken(tokenAddress);
+      await expect(tx).to.changeTokenBalances(token, [uploader, rentAgent], [price, -price]);
+      await expect(tx).to.emit(rentAgent, 'TokenWithdrawn').withArgs(tokenAddress, uploader.address, price);
+      await expect(rentAgent.connect(uploader).withdrawToken(tokenAddress)).to.be.revertedWith('nothing to withdraw');
+    });
+  });
+
+  describe('subscriptions', () => {
+    const MONTHLY = ethers.parseEther('0.5');
+
+    it('lets a creator price a monthly pass and records the subscriber expiry', async () => {
+      const { rentAgent, uploader, renter } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(uploader).setSubscriptionPrice(MONTHLY, ethers.ZeroAddress))
+        .to.emit(rentAgent, 'SubscriptionPriceSet')
+        .withArgs(uploader.address, MONTHLY, ethers.ZeroAddress);
+      expect(await rentAgent.isSubscriber(uploader.address, renter.address)).to.equal(false);
+
+      const tx = rentAgent.connect(renter).subscribe(uploader.address, { value: MONTHLY });
+      await expect(tx).to.emit(rentAgent, 'Subscribed').withArgs(uploader.address, renter.address, MONTHLY, anyValue);
+      await expect(tx).to.changeEtherBalances([renter, rentAgent], [-MONTHLY, MONTHLY]);
+      expect(await rentAgent.isSubscriber(uploader.address, renter.address)).to.equal(true);
+      expect(await rentAgent.balances(uploader.address)).to.equal(MONTHLY);
+
+      await time.increase(30 * DAY + 1);
+      expect(await rentAgent.isSubscriber(uploader.address, renter.address)).to.equal(false);
+    });
+
+    it('extends an active subscription instead of restarting it', async () => {
+      const { rentAgent, uploader, renter } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(uploader).setSubscriptionPrice(MONTHLY, ethers.ZeroAddress);
+      await rentAgent.connect(renter).subscribe(uploader.address, { value: MONTHLY });
+      const first = await rentAgent.subscriptions(uploader.address, renter.address);
+
+      await rentAgent.connect(renter).subscribe(uploader.address, { value: MONTHLY });
+      expect(await rentAgent.subscriptions(uploader.address, renter.address)).to.equal(first + BigInt(30 * DAY));
+    });
+
+    it('rejects creators without a plan and underpayment, and refunds overpayment', async () => {
+      const { rentAgent, uploader, renter, other } = await loadFixture(listedAgentFixture);
+      await expect(rentAgent.connect(renter).subscribe(other.address, { value: MONTHLY })).to.be.revertedWith('subscriptions not offered');
+
+      await rentAgent.connect(uploader).setSubscriptionPrice(MONTHLY, ethers.ZeroAddress);
+      await expect(rentAgent.connect(renter).subscribe(uploader.address, { value: MONTHLY - 1n })).to.be.revertedWith('insufficient payment');
+      await expect(rentAgent.connect(renter).subscribe(uploader.address, { value: MONTHLY * 2n }))
+        .to.changeEtherBalances([renter, rentAgent], [-MONTHLY, MONTHLY]);
+
+      await rentAgent.connect(uploader).setSubscriptionPrice(0n, ethers.ZeroAddress);
+      await expect(rentAgent.connect(renter).subscribe(uploader.address, { value: MONTHLY })).to.be.revertedWith('subscriptions not offered');
+    });
+
+    it('takes the platform fee and accepts whitelisted tokens', async () => {
+      const { rentAgent, deployer, uploader, renter, token } = await loadFixture(tokenAgentFixture);
+      const tokenAddress = await token.getAddress();
+      const price = ethers.parseUnits('20', 6);
+      await rentAgent.connect(deployer).setPlatformFee(500);
+      await expect(rentAgent.connect(uploader).setSubscriptionPrice(price, deployer.address)).to.be.revertedWith('payment token not allowed');
+      await rentAgent.connect(uploader).setSubscriptionPrice(price, tokenAddress);
+
+      await token.connect(renter).approve(await rentAgent.getAddress(), price);
+      await expect(rentAgent.connect(renter).subscribe(uploader.address)).to.changeTokenBalances(token, [renter, rentAgent], [-price, price]);
+      const fee = (price * 500n) / 10_000n;
+      expect(await rentAgent.tokenBalances(tokenAddress, deployer.address)).to.equal(fee);
+      expect(await rentAgent.tokenBalances(tokenAddress, uploader.address)).to.equal(price - fee);
+      expect(await rentAgent.isSubscriber(uploader.address, renter.address)).to.equal(true);
+    });
+
+    it('always counts the creator as a subscriber of their own catalog', async () => {
+      const { rentAgent, uploader } = await loadFixture(deployRentAgentFixture);
+      expect(await rentAgent.isSubscriber(uploader.address, uploader.address)).to.equal(true);
+      expect(await rentAgent.isSubscriber(ethers.ZeroAddress, ethers.ZeroAddress)).to.equal(false);
+    });
+
+    it('checks agent subscriptions against the current owner', async () => {
+      const { rentAgent, uploader, renter, other, cid } = await loadFixture(listedAgentFixture);
+      await rentAgent.connect(uploader).setSubscriptionPrice(MONTHLY, ethers.ZeroAddress);
+      await rentAgent.connect(renter).subscribe(uploader.address, { value: MONTHLY });
+      expect(await rentAgent.isAgentSubscriber(cid, renter.address)).to.equal(true);
+      expect(await rentAgent.isAgentSubscriber(cid, other.address)).to.equal(false);
+      expect(await rentAgent.isAgentSubscriber('unknown', ethers.ZeroAddress)).to.equal(false);
+
+      await rentAgent.connect(uploader).transferAgentOwnership(cid, other.address);
+      expect(await rentAgent.isAgentSubscriber(cid, renter.address)).to.equal(false);
+      expect(await rentAgent.isAgentSubscriber(cid, other.address)).to.equal(true);
+
+      await rentAgent.connect(other).setSubscriptionPrice(MONTHLY, ethers.ZeroAddress);
+      await rentAgent.connect(uploader).subscribe(other.address, { value: MONTHLY });
+      expect(await rentAgent.isAgentSubscriber(cid, uploader.address)).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers, network } from 'hardhat';
+
+// Env file loaded by `vite --mode hardhat` (see `npm run dev:local`); *.local files are gitignored
+export const LOCAL_ENV_FILE = path.join(__dirname, '..', '..', '.env.hardhat.local');
+
+export const TIER = { Hourly: 0, Daily: 1, Monthly: 2 } as const;
+
+export const DEFAULT_TIER_PRICES: [bigint, bigint, bigint] = [
+  ethers.parseEther('0.01'),
+  ethers.parseEther('0.1'),
+  ethers.parseEther('1'),
+];
+
+// Point the Vite app at a RentAgent deployment: contract address, RPC and the block to start indexing from
+export const writeViteDeployment = (address: string, deployBlock: number, rpcUrl = 'http://127.0.0.1:8545', file = LOCAL_ENV_FILE) => {
+  const lines = [
+    `# Written by test/fixtures/rentAgent.ts for network "${network.name}"`,
+    `VITE_RENT_AGENT_ADDRESS=${address}`,
+    `VITE_RENT_AGENT_CHAIN_ID=${network.config.chainId ?? 31337}`,
+    `VITE_RENT_AGENT_DEPLOY_BLOCK=${deployBlock}`,
+    `VITE_RPC_URL=${rpcUrl}`,
+  ];
+  fs.writeFileSync(file, lines.join('\n') + '\n');
+  console.debug('[rentAgent fixture] wrote', path.relative(process.cwd(), file));
+};
+
+// Deploy RentAgent to the current Hardhat network and record where it lives for the Vite app
+export const deployRentAgent = async (opts: { writeEnv?: boolean } = {}) => {
+  const RentAgent = await ethers.getContractFactory('RentAgent');
+  const rentAgent = await RentAgent.deploy();
+  await rentAgent.waitForDeployment();
+  const address = await rentAgent.getAddress();
+  const receipt = await rentAgent.deploymentTransaction()?.wait();
+  if (opts.writeEnv) writeViteDeployment(address, receipt?.blockNumber ?? 0);
+  return { rentAgent, address };
+};
+
+// loadFixture-compatible: fresh in-process deployment plus named signers
+export const deployRentAgentFixture = async () => {
+  const [deployer, uploader, renter, other, collaborator] = await ethers.getSigners();
+  // The in-process network uses the same deterministic accounts as `npx hardhat node`, so the first
+  // deployment lands at the same address a fresh local node would give it
+  const { rentAgent, address } = await deployRentAgent({ writeEnv: process.env.WRITE_VITE_ENV === '1' });
+  return { rentAgent, address, deployer, uploader, renter, other, collaborator };
+};
+
+// Fixture with one agent already listed by `uploader` at DEFAULT_TIER_PRICES
+export const listedAgentFixture = async () => {
+  const base = await deployRentAgentFixture();
+  const cid = 'bafy-test-agent';
+  await base.rentAgent.connect(base.uploader).uploadAgent(cid, DEFAULT_TIER_PRICES, ethers.ZeroAddress, []);
+  return { ...base, cid };
+};
+
+// USDC-like 6-decimal token, whitelisted by the contract owner, with one agent priced in it
+export const tokenAgentFixture = async () => {
+  const base = await deployRentAgentFixture();
+  const token = await (await ethers.getContractFactory('MockERC20')).deploy('Mock USD Coin', 'mUSDC', 6);
+  const tokenAddress = await token.getAddress();
+  await base.rentAgent.connect(base.deployer).setPaymentTokenAllowed(tokenAddress, true);
+  await token.mint(base.renter.address, ethers.parseUnits('1000', 6));
+
+  const cid = 'bafy-token-agent';
+  const tokenPrices: [bigint, bigint, bigint] = [ethers.parseUnits('1', 6), ethers.parseUnits('5', 6), ethers.parseUnits('50', 6)];
+  await base.rentAgent.connect(base.uploader).uploadAgent(cid, tokenPrices, tokenAddress, []);
+  return { ...base, token, cid, tokenPrices };
+};
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit / integration tests for src/. The Solidity tests in test/ run under Hardhat (`npm run test:contracts`).
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/test/setup.ts'],
+    globalSetup: ['src/test/hardhatNode.ts'],
+    testTimeout: 30_000,
+    hookTimeout: 90_000,
+  },
+});